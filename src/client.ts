@@ -9,6 +9,8 @@ import { TagsResource } from "./resources/Tags.js";
 import { TemplatesResource } from "./resources/Templates.js";
 import { UsersResource } from "./resources/Users.js";
 import { WebhooksResource } from "./resources/Webhooks.js";
+import { withResponse } from "./resources/response.js";
+import type { WithResponse } from "./resources/response.js";
 
 /**
  * The base URL for the CompanyCam API.
@@ -22,12 +24,9 @@ export const BASE_CLIENT_URL = "https://api.companycam.com/v2";
 export interface ClientOptions extends HttpClientConfig {}
 
 /**
- * Fully composed CompanyCam API client exposing strongly typed resource helpers plus
- * access to the underlying {@link HttpClient}.
+ * Strongly typed resource helpers composed by {@link createClient}.
  */
-export interface CompanyCamClient {
-  /** Low-level HTTP client for advanced scenarios. */
-  readonly http: HttpClient;
+export interface CompanyCamResources {
   readonly checklists: ChecklistsResource;
   readonly company: CompanyResource;
   readonly users: UsersResource;
@@ -37,6 +36,21 @@ export interface CompanyCamClient {
   readonly templates: TemplatesResource;
   readonly groups: GroupsResource;
   readonly webhooks: WebhooksResource;
+}
+
+/**
+ * Fully composed CompanyCam API client exposing strongly typed resource helpers plus
+ * access to the underlying {@link HttpClient}.
+ */
+export interface CompanyCamClient extends CompanyCamResources {
+  /** Low-level HTTP client for advanced scenarios. */
+  readonly http: HttpClient;
+  /**
+   * Access the same resource helpers with every method resolving to an `APIResponse` envelope
+   * (`data`, `status`, `headers`, `requestId`, `durationMs`) instead of the bare payload.
+   * The view is cheap to create, so call it inline per request or keep it alongside the client.
+   */
+  withResponse(): WithResponse<CompanyCamResources>;
   /**
    * Dispose of any owned resources such as the shared rate limiter when the client
    * is no longer needed.
@@ -60,6 +74,17 @@ export function createClient(options: ClientOptions = {}): CompanyCamClient {
 
   return {
     http,
+    ...createResources(http),
+    withResponse: () => withResponse(http, createResources),
+    dispose: () => http.dispose(),
+  };
+}
+
+/**
+ * Build every resource helper against the supplied HTTP client.
+ */
+function createResources(http: HttpClient): CompanyCamResources {
+  return {
     checklists: new ChecklistsResource(http),
     company: new CompanyResource(http),
     users: new UsersResource(http),
@@ -69,6 +94,5 @@ export function createClient(options: ClientOptions = {}): CompanyCamClient {
     templates: new TemplatesResource(http),
     groups: new GroupsResource(http),
     webhooks: new WebhooksResource(http),
-    dispose: () => http.dispose(),
   };
 }
@@ -0,0 +1,35 @@
+import axios, {
+  AxiosInstance,
+  AxiosRequestConfig,
+  AxiosResponse,
+} from "axios";
+import type { Transport } from "./Transport.js";
+
+/**
+ * Default {@link Transport} backed by an axios instance. Suited to Node.js and browsers.
+ */
+export class AxiosTransport implements Transport {
+  private readonly axiosInstance: AxiosInstance;
+
+  /**
+   * Create an axios-backed transport.
+   *
+   * @param options Instance defaults forwarded to `axios.create`.
+   */
+  constructor(options: AxiosRequestConfig = {}) {
+    this.axiosInstance = axios.create(options);
+  }
+
+  /**
+   * Dispatch a single request through the underlying axios instance.
+   *
+   * @param config Prepared request configuration.
+   * @returns The axios response.
+   * @throws {AxiosError} When the request fails or returns a non-2xx status.
+   */
+  send<T = unknown, D = unknown>(
+    config: AxiosRequestConfig<D>
+  ): Promise<AxiosResponse<T>> {
+    return this.axiosInstance.request<T, AxiosResponse<T>, D>(config);
+  }
+}
@@ -0,0 +1,290 @@
+import type { AxiosRequestConfig, AxiosResponse } from "axios";
+import { cloneData, requestKey, requestPath } from "./RequestKey.js";
+
+/**
+ * Cached GET response together with the validators used to revalidate it.
+ */
+export interface CacheEntry {
+  /** Request path (without query string) the entry belongs to; used for invalidation. */
+  path: string;
+  status: number;
+  headers: Record<string, string>;
+  data: unknown;
+  /** `ETag` response header, replayed as `If-None-Match`. */
+  etag?: string;
+  /** `Last-Modified` response header, replayed as `If-Modified-Since`. */
+  lastModified?: string;
+  /** Epoch milliseconds after which the entry must be revalidated before reuse. */
+  expiresAt: number;
+}
+
+/**
+ * Pluggable storage used by {@link HttpCache}. Keys are opaque strings that never contain
+ * credentials.
+ */
+export interface CacheStore {
+  get(key: string): Promise<CacheEntry | undefined>;
+  set(key: string, entry: CacheEntry): Promise<void>;
+  delete(key: string): Promise<void>;
+  /** Iterate over stored entries, used to invalidate paths after mutations. */
+  entries(): Promise<Array<[string, CacheEntry]>>;
+}
+
+/**
+ * Options accepted by {@link MemoryCacheStore}.
+ */
+export interface MemoryCacheStoreOptions {
+  /** Maximum number of entries kept before the least recently used one is evicted. Defaults to 500. */
+  maxEntries?: number;
+}
+
+/**
+ * In-process {@link CacheStore} with least-recently-used eviction.
+ */
+export class MemoryCacheStore implements CacheStore {
+  private readonly maxEntries: number;
+  private readonly store = new Map<string, CacheEntry>();
+
+  /**
+   * Create an empty LRU store.
+   *
+   * @param options Optional capacity override.
+   */
+  constructor(options: MemoryCacheStoreOptions = {}) {
+    this.maxEntries = Math.max(1, options.maxEntries ?? 500);
+  }
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    const entry = this.store.get(key);
+    if (entry) {
+      // Re-insert to mark the entry as most recently used.
+      this.store.delete(key);
+      this.store.set(key, entry);
+    }
+    return entry;
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    this.store.delete(key);
+    this.store.set(key, entry);
+    while (this.store.size > this.maxEntries) {
+      const oldest = this.store.keys().next().value;
+      if (oldest === undefined) {
+        break;
+      }
+      this.store.delete(oldest);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.store.delete(key);
+  }
+
+  async entries(): Promise<Array<[string, CacheEntry]>> {
+    return [...this.store.entries()];
+  }
+}
+
+/**
+ * Options for the opt-in response cache of {@link HttpClient}.
+ */
+export interface HttpCacheOptions {
+  /** Entry storage. Defaults to a {@link MemoryCacheStore}. */
+  store?: CacheStore;
+  /**
+   * Freshness lifetime, in milliseconds, for responses without a `Cache-Control: max-age`
+   * directive. Defaults to 60 seconds. Within this window cached GETs are served without a request.
+   */
+  ttlMs?: number;
+}
+
+/**
+ * Result of {@link HttpCache.lookup}.
+ */
+export interface CacheLookup {
+  key: string;
+  /** Stored entry, fresh or stale. */
+  entry?: CacheEntry;
+  /** Whether the entry can be served without contacting the API. */
+  fresh: boolean;
+}
+
+/**
+ * GET response cache honouring `ETag`/`Last-Modified` validators and `Cache-Control`, with
+ * path-based invalidation after mutations.
+ */
+export class HttpCache {
+  private readonly store: CacheStore;
+  private readonly ttlMs: number;
+
+  /**
+   * Create a cache.
+   *
+   * @param options Storage and fallback TTL overrides.
+   */
+  constructor(options: HttpCacheOptions = {}) {
+    this.store = options.store ?? new MemoryCacheStore();
+    this.ttlMs = Math.max(0, options.ttlMs ?? 60_000);
+  }
+
+  /**
+   * Whether the request is eligible for caching. Only GET requests are cached.
+   */
+  isCacheable(config: AxiosRequestConfig): boolean {
+    return (config.method ?? "GET").toUpperCase() === "GET";
+  }
+
+  /**
+   * Find the stored entry for a GET request.
+   */
+  async lookup(config: AxiosRequestConfig): Promise<CacheLookup> {
+    const key = requestKey(config);
+    const entry = await this.store.get(key);
+    if (!entry) {
+      return { key, fresh: false };
+    }
+
+    const fresh = Date.now() < entry.expiresAt;
+    if (!fresh && !entry.etag && !entry.lastModified) {
+      // Nothing to revalidate with; the entry is useless.
+      await this.store.delete(key);
+      return { key, fresh: false };
+    }
+    return { key, entry, fresh };
+  }
+
+  /**
+   * Conditional headers that revalidate a stale entry.
+   */
+  conditionalHeaders(entry: CacheEntry): Record<string, string> {
+    const headers: Record<string, string> = {};
+    if (entry.etag) {
+      headers["If-None-Match"] = entry.etag;
+    }
+    if (entry.lastModified) {
+      headers["If-Modified-Since"] = entry.lastModified;
+    }
+    return headers;
+  }
+
+  /**
+   * Store a successful GET response, or refresh an entry confirmed by a `304 Not Modified`.
+   *
+   * @returns The entry now associated with the request, if any.
+   */
+  async save(
+    key: string,
+    config: AxiosRequestConfig,
+    response: AxiosResponse,
+    previous?: CacheEntry
+  ): Promise<CacheEntry | undefined> {
+    const headers = plainHeaders(response.headers);
+    const control = parseCacheControl(headers["cache-control"]);
+    if (control.noStore) {
+      await this.store.delete(key);
+      return undefined;
+    }
+
+    const lifetimeMs =
+      control.noCache ? 0 : control.maxAgeMs ?? this.ttlMs;
+    const notModified = response.status === 304 && previous !== undefined;
+    const base = notModified
+      ? { ...previous, headers: { ...previous.headers, ...headers } }
+      : {
+          path: requestPath(config),
+          status: response.status,
+          headers,
+          data: cloneData(response.data),
+        };
+    const entry: CacheEntry = {
+      ...base,
+      etag: headers.etag ?? (notModified ? previous.etag : undefined),
+      lastModified:
+        headers["last-modified"] ??
+        (notModified ? previous.lastModified : undefined),
+      expiresAt: Date.now() + lifetimeMs,
+    };
+
+    if (lifetimeMs === 0 && !entry.etag && !entry.lastModified) {
+      await this.store.delete(key);
+      return undefined;
+    }
+    await this.store.set(key, entry);
+    return entry;
+  }
+
+  /**
+   * Drop entries affected by a mutation: the mutated path itself, resources nested under it, and
+   * the collections it belongs to.
+   */
+  async invalidate(config: AxiosRequestConfig): Promise<void> {
+    const mutated = requestPath(config);
+    for (const [key, entry] of await this.store.entries()) {
+      if (
+        entry.path === mutated ||
+        entry.path.startsWith(`${mutated}/`) ||
+        mutated.startsWith(`${entry.path}/`)
+      ) {
+        await this.store.delete(key);
+      }
+    }
+  }
+}
+
+/**
+ * Rebuild an axios-shaped response from a cached entry. Payloads are copied so callers cannot
+ * mutate the cache.
+ */
+export function responseFromCache<T>(
+  entry: CacheEntry,
+  config: AxiosRequestConfig
+): AxiosResponse<T> {
+  return {
+    data: cloneData(entry.data) as T,
+    status: entry.status,
+    statusText: "OK",
+    headers: { ...entry.headers },
+    config: config as AxiosResponse<T>["config"],
+  };
+}
+
+function plainHeaders(headers: unknown): Record<string, string> {
+  const plain: Record<string, string> = {};
+  if (!headers || typeof headers !== "object") {
+    return plain;
+  }
+
+  const source =
+    typeof (headers as { toJSON?: unknown }).toJSON === "function"
+      ? (headers as { toJSON: () => Record<string, unknown> }).toJSON()
+      : (headers as Record<string, unknown>);
+  for (const [key, value] of Object.entries(source)) {
+    if (value !== undefined && value !== null) {
+      plain[key.toLowerCase()] = Array.isArray(value)
+        ? value.join(", ")
+        : String(value);
+    }
+  }
+  return plain;
+}
+
+function parseCacheControl(value: string | undefined): {
+  noStore: boolean;
+  noCache: boolean;
+  maxAgeMs?: number;
+} {
+  const directives = (value ?? "")
+    .toLowerCase()
+    .split(",")
+    .map((directive) => directive.trim());
+  const maxAge = directives
+    .find((directive) => directive.startsWith("max-age="))
+    ?.slice("max-age=".length);
+  const seconds = maxAge === undefined ? NaN : Number(maxAge);
+
+  return {
+    noStore: directives.includes("no-store"),
+    noCache: directives.includes("no-cache"),
+    maxAgeMs: Number.isFinite(seconds) ? Math.max(0, seconds * 1000) : undefined,
+  };
+}
@@ -0,0 +1,225 @@
+import { Emitter } from "./Emitter.js";
+import { CircuitOpenError } from "./Errors.js";
+
+/**
+ * `closed` lets every request through, `open` rejects them immediately, and `half-open` lets a
+ * limited number of probe requests through to test whether the API has recovered.
+ */
+export type CircuitState = "closed" | "open" | "half-open";
+
+/**
+ * Payload of the `stateChange` event.
+ */
+export interface CircuitStateChange {
+  from: CircuitState;
+  to: CircuitState;
+  /** Failure rate (0-1) in the rolling window when the transition happened. */
+  failureRate: number;
+}
+
+/**
+ * Events emitted by {@link CircuitBreaker}.
+ */
+export type CircuitBreakerEvents = {
+  stateChange: [change: CircuitStateChange];
+};
+
+/**
+ * Options controlling when the breaker trips and recovers.
+ */
+export interface CircuitBreakerOptions {
+  /**
+   * Failure rate (0-1) within the rolling window that opens the circuit. Defaults to 0.5.
+   */
+  failureRateThreshold?: number;
+  /**
+   * Minimum number of attempts in the window before the failure rate is evaluated. Defaults to 10.
+   */
+  minimumRequests?: number;
+  /**
+   * Length of the rolling window in milliseconds. Defaults to 30 seconds.
+   */
+  windowMs?: number;
+  /**
+   * How long the circuit stays open before allowing probe requests. Defaults to 30 seconds.
+   */
+  openMs?: number;
+  /**
+   * Concurrent probe requests allowed while half-open. Defaults to 1.
+   */
+  halfOpenMaxRequests?: number;
+}
+
+interface Outcome {
+  at: number;
+  failed: boolean;
+}
+
+/**
+ * Circuit breaker tracking the failure rate of API attempts. Server errors (5xx), network
+ * errors, and timeouts count as failures; other responses count as successes.
+ *
+ * Share one instance between clients to protect a whole process, and subscribe to
+ * `stateChange` to alert on outages.
+ */
+export class CircuitBreaker extends Emitter<CircuitBreakerEvents> {
+  private readonly failureRateThreshold: number;
+  private readonly minimumRequests: number;
+  private readonly windowMs: number;
+  private readonly openMs: number;
+  private readonly halfOpenMaxRequests: number;
+  private outcomes: Outcome[] = [];
+  private currentState: CircuitState = "closed";
+  private openedAt = 0;
+  private probesInFlight = 0;
+
+  /**
+   * Create a closed circuit breaker.
+   *
+   * @param options Thresholds and timings overriding the defaults.
+   */
+  constructor(options: CircuitBreakerOptions = {}) {
+    super();
+    this.failureRateThreshold = Math.min(
+      1,
+      Math.max(0, options.failureRateThreshold ?? 0.5)
+    );
+    this.minimumRequests = Math.max(1, options.minimumRequests ?? 10);
+    this.windowMs = Math.max(1, options.windowMs ?? 30_000);
+    this.openMs = Math.max(0, options.openMs ?? 30_000);
+    this.halfOpenMaxRequests = Math.max(1, options.halfOpenMaxRequests ?? 1);
+  }
+
+  /**
+   * Current state, moving from `open` to `half-open` once the open period has elapsed.
+   */
+  get state(): CircuitState {
+    if (
+      this.currentState === "open" &&
+      Date.now() - this.openedAt >= this.openMs
+    ) {
+      this.transition("half-open");
+    }
+    return this.currentState;
+  }
+
+  /**
+   * Fail fast when the circuit is open. Does not reserve a probe slot.
+   *
+   * @throws {CircuitOpenError} While the circuit is open.
+   */
+  check(): void {
+    if (this.state === "open") {
+      throw new CircuitOpenError(this.remainingOpenMs());
+    }
+  }
+
+  /**
+   * Reserve permission for one attempt. Every successful call must be followed by exactly one of
+   * {@link recordSuccess}, {@link recordFailure}, or {@link release}.
+   *
+   * @throws {CircuitOpenError} While the circuit is open or all half-open probe slots are taken.
+   */
+  acquire(): void {
+    const state = this.state;
+    if (state === "open") {
+      throw new CircuitOpenError(this.remainingOpenMs());
+    }
+    if (state === "half-open") {
+      if (this.probesInFlight >= this.halfOpenMaxRequests) {
+        throw new CircuitOpenError(0);
+      }
+      this.probesInFlight += 1;
+    }
+  }
+
+  /**
+   * Record a healthy attempt. A successful probe closes the circuit.
+   */
+  recordSuccess(): void {
+    if (this.currentState === "half-open") {
+      this.probesInFlight = Math.max(0, this.probesInFlight - 1);
+      this.outcomes = [];
+      this.transition("closed");
+      return;
+    }
+    this.record(false);
+  }
+
+  /**
+   * Record a failed attempt. A failed probe reopens the circuit; otherwise the circuit opens
+   * when the failure rate in the window reaches the threshold.
+   */
+  recordFailure(): void {
+    if (this.currentState === "half-open") {
+      this.probesInFlight = Math.max(0, this.probesInFlight - 1);
+      this.open();
+      return;
+    }
+    this.record(true);
+
+    if (
+      this.currentState === "closed" &&
+      this.outcomes.length >= this.minimumRequests &&
+      this.failureRate() >= this.failureRateThreshold
+    ) {
+      this.open();
+    }
+  }
+
+  /**
+   * Give back an attempt that produced no verdict, such as a cancelled request.
+   */
+  release(): void {
+    if (this.currentState === "half-open") {
+      this.probesInFlight = Math.max(0, this.probesInFlight - 1);
+    }
+  }
+
+  /**
+   * Close the circuit and forget recorded outcomes.
+   */
+  reset(): void {
+    this.outcomes = [];
+    this.probesInFlight = 0;
+    this.transition("closed");
+  }
+
+  private record(failed: boolean): void {
+    const now = Date.now();
+    this.outcomes.push({ at: now, failed });
+    const cutoff = now - this.windowMs;
+    while (this.outcomes.length > 0 && this.outcomes[0]!.at <= cutoff) {
+      this.outcomes.shift();
+    }
+  }
+
+  private failureRate(): number {
+    if (this.outcomes.length === 0) {
+      return 0;
+    }
+    const failures = this.outcomes.filter((outcome) => outcome.failed).length;
+    return failures / this.outcomes.length;
+  }
+
+  private open(): void {
+    this.openedAt = Date.now();
+    this.transition("open");
+  }
+
+  private remainingOpenMs(): number {
+    return Math.max(0, this.openMs - (Date.now() - this.openedAt));
+  }
+
+  private transition(to: CircuitState): void {
+    const from = this.currentState;
+    if (from === to) {
+      return;
+    }
+    this.currentState = to;
+    if (to !== "half-open") {
+      this.probesInFlight = 0;
+    }
+    this.emit("stateChange", { from, to, failureRate: this.failureRate() });
+  }
+}
@@ -0,0 +1,182 @@
+import { createAbortError } from "./RateLimiter.js";
+import type {
+  AbortSignalLike,
+  AcquireOptions,
+  RequestPriority,
+} from "./RateLimiter.js";
+import { PriorityQueue, attachAbortListener } from "./PriorityQueue.js";
+
+/**
+ * Options accepted by {@link ConcurrencyLimiter}.
+ */
+export interface ConcurrencyLimiterOptions {
+  /** Maximum number of requests in flight at once. Defaults to 10. */
+  maxConcurrent?: number;
+  /**
+   * Relative share of freed slots per priority lane when several lanes are waiting.
+   * Defaults to `{ interactive: 6, normal: 3, background: 1 }`.
+   */
+  priorityWeights?: Partial<Record<RequestPriority, number>>;
+  /**
+   * Waiters queued longer than this are served first regardless of their lane. Defaults to
+   * 30 seconds.
+   */
+  starvationThresholdMs?: number;
+}
+
+/**
+ * Point-in-time view of a {@link ConcurrencyLimiter}.
+ */
+export interface ConcurrencySnapshot {
+  maxConcurrent: number;
+  /** Slots currently held. */
+  inFlight: number;
+  /** Callers waiting for a slot across all lanes. */
+  queueLength: number;
+  /** Waiting callers per priority lane. */
+  queued: Record<RequestPriority, number>;
+  /** How long the longest-waiting caller has been queued, in milliseconds. `0` when idle. */
+  oldestWaitMs: number;
+}
+
+/**
+ * Gives back a slot taken from a {@link ConcurrencyLimiter}. Calling it more than once is a
+ * no-op.
+ */
+export type ReleaseSlot = () => void;
+
+interface SlotWaiter {
+  resolve: (release: ReleaseSlot) => void;
+  reject: (reason?: unknown) => void;
+  priority: RequestPriority;
+  enqueuedAt: number;
+}
+
+/**
+ * Semaphore capping the number of requests in flight. {@link HttpClient} holds a slot for the
+ * duration of each attempt, after the rate limiter has granted a token, and releases it before
+ * any retry backoff.
+ *
+ * Waiters are scheduled like {@link RateLimiter} waiters: per priority lane, weighted between
+ * lanes, with starvation protection.
+ */
+export class ConcurrencyLimiter {
+  private readonly maxConcurrent: number;
+  private readonly queue: PriorityQueue<SlotWaiter>;
+  private active = 0;
+
+  /**
+   * Create a limiter with all slots free.
+   *
+   * @param options Slot count and scheduling overrides.
+   */
+  constructor(options: ConcurrencyLimiterOptions = {}) {
+    this.maxConcurrent = Math.max(1, Math.floor(options.maxConcurrent ?? 10));
+    this.queue = new PriorityQueue({
+      weights: options.priorityWeights,
+      starvationThresholdMs: options.starvationThresholdMs,
+    });
+  }
+
+  /**
+   * Number of slots currently held.
+   */
+  get inFlight(): number {
+    return this.active;
+  }
+
+  /**
+   * Read-only view of the slots and the queue.
+   */
+  snapshot(): ConcurrencySnapshot {
+    return {
+      maxConcurrent: this.maxConcurrent,
+      inFlight: this.active,
+      queueLength: this.queue.length,
+      queued: this.queue.counts(),
+      oldestWaitMs: this.queue.oldestWaitMs(Date.now()),
+    };
+  }
+
+  /**
+   * Wait for a free slot.
+   *
+   * @param signal Optional abort signal used to cancel the wait.
+   * @param options Optional priority lane to wait in.
+   * @returns Function that releases the slot.
+   * @throws {Error} Rejects with an `AbortError` if the signal aborts before a slot frees up.
+   */
+  acquire(signal?: AbortSignalLike, options: AcquireOptions = {}): Promise<ReleaseSlot> {
+    if (signal?.aborted) {
+      return Promise.reject(createAbortError());
+    }
+
+    const release = this.tryAcquire();
+    if (release) {
+      return Promise.resolve(release);
+    }
+
+    return new Promise<ReleaseSlot>((resolve, reject) => {
+      const waiter: SlotWaiter = {
+        resolve: (slot) => {
+          detachAbort?.();
+          resolve(slot);
+        },
+        reject,
+        priority: options.priority ?? "normal",
+        enqueuedAt: Date.now(),
+      };
+      const detachAbort = attachAbortListener(signal, () => {
+        if (this.queue.remove(waiter)) {
+          reject(createAbortError());
+        }
+      });
+      this.queue.push(waiter);
+    });
+  }
+
+  /**
+   * Take a slot only if one is free and nobody is queued ahead.
+   *
+   * @returns Function that releases the slot, or `undefined` when none was taken.
+   */
+  tryAcquire(): ReleaseSlot | undefined {
+    if (this.queue.length > 0 || this.active >= this.maxConcurrent) {
+      return undefined;
+    }
+    this.active += 1;
+    return this.createRelease();
+  }
+
+  /**
+   * Reject queued callers. Slots already held stay valid until released.
+   */
+  dispose(): void {
+    for (const waiter of this.queue.clear()) {
+      waiter.reject(new Error("Concurrency limiter disposed"));
+    }
+  }
+
+  private createRelease(): ReleaseSlot {
+    let released = false;
+    return () => {
+      if (released) {
+        return;
+      }
+      released = true;
+      this.active -= 1;
+      this.grant();
+    };
+  }
+
+  private grant(): void {
+    while (this.active < this.maxConcurrent) {
+      const waiter = this.queue.shift(Date.now());
+      if (!waiter) {
+        return;
+      }
+      this.active += 1;
+      waiter.resolve(this.createRelease());
+    }
+  }
+}
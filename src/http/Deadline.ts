@@ -0,0 +1,114 @@
+import type { GenericAbortSignal } from "axios";
+import { DeadlineExceededError } from "./Errors.js";
+import { attachAbortListener } from "./PriorityQueue.js";
+import type { AbortSignalLike } from "./RateLimiter.js";
+
+/**
+ * Request options that bound the total duration of a call.
+ */
+export interface DeadlineOptions {
+  deadline?: Date | number;
+  totalTimeoutMs?: number;
+  signal?: GenericAbortSignal;
+}
+
+/**
+ * End-to-end time budget of one logical request. Its {@link signal} replaces the caller's signal
+ * for the whole pipeline, so expiry cancels rate-limiter and concurrency waits, the in-flight
+ * attempt, and any retry backoff at once.
+ */
+export class Deadline {
+  /** Epoch milliseconds at which the request is cancelled. */
+  readonly expiresAt: number;
+  /** Budget the request started with, in milliseconds. */
+  readonly timeoutMs: number;
+  private readonly controller = new AbortController();
+  private readonly parent?: GenericAbortSignal;
+  private timer?: ReturnType<typeof setTimeout>;
+  private expired = false;
+
+  private constructor(expiresAt: number, now: number, parent?: GenericAbortSignal) {
+    this.expiresAt = expiresAt;
+    this.timeoutMs = Math.max(0, expiresAt - now);
+    this.parent = parent;
+  }
+
+  /**
+   * Build the deadline requested by `deadline` and/or `totalTimeoutMs`; the earlier one wins.
+   *
+   * @returns `undefined` when neither option is set.
+   */
+  static fromOptions(options: DeadlineOptions): Deadline | undefined {
+    const now = Date.now();
+    const candidates: number[] = [];
+    if (options.deadline !== undefined) {
+      candidates.push(
+        options.deadline instanceof Date ? options.deadline.getTime() : options.deadline
+      );
+    }
+    if (options.totalTimeoutMs !== undefined) {
+      candidates.push(now + Math.max(0, options.totalTimeoutMs));
+    }
+    if (candidates.length === 0) {
+      return undefined;
+    }
+    return new Deadline(Math.min(...candidates), now, options.signal);
+  }
+
+  /**
+   * Aborted when the deadline passes or the caller's own signal aborts.
+   */
+  get signal(): AbortSignal {
+    return this.controller.signal;
+  }
+
+  /**
+   * Milliseconds left before expiry, never negative.
+   */
+  remainingMs(now = Date.now()): number {
+    return Math.max(0, this.expiresAt - now);
+  }
+
+  /**
+   * Give up now, e.g. when the next retry backoff would outlast the deadline.
+   */
+  expire(): void {
+    this.expired = true;
+    this.controller.abort();
+  }
+
+  /**
+   * Run `task` under the deadline. Failures caused by expiry are replaced with a
+   * {@link DeadlineExceededError} whose `cause` is the original failure.
+   */
+  async run<T>(task: () => Promise<T>): Promise<T> {
+    const detachParent = attachAbortListener(
+      this.parent as AbortSignalLike | undefined,
+      () => this.controller.abort()
+    );
+    if (this.parent?.aborted) {
+      this.controller.abort();
+    }
+    const remaining = this.remainingMs();
+    if (remaining === 0) {
+      this.expire();
+    } else {
+      this.timer = setTimeout(() => this.expire(), remaining);
+    }
+
+    try {
+      if (this.expired) {
+        throw new DeadlineExceededError(this.timeoutMs);
+      }
+      return await task();
+    } catch (error) {
+      if (!this.expired || error instanceof DeadlineExceededError) {
+        throw error;
+      }
+      throw new DeadlineExceededError(this.timeoutMs, { cause: error });
+    } finally {
+      clearTimeout(this.timer);
+      detachParent?.();
+    }
+  }
+}
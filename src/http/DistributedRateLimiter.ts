@@ -0,0 +1,136 @@
+import { createAbortError } from "./RateLimiter.js";
+import type {
+  AbortSignalLike,
+  AcquireOptions,
+  RateLimiterLike,
+} from "./RateLimiter.js";
+import type { Metrics } from "./Metrics.js";
+import type { RateLimiterStore } from "./RateLimiterStore.js";
+
+/**
+ * Options accepted by {@link DistributedRateLimiter}.
+ */
+export interface DistributedRateLimiterOptions {
+  /** Store holding the shared bucket. */
+  store: RateLimiterStore;
+  /**
+   * Bucket name. Limiters using the same store and key share a quota. Defaults to `"default"`.
+   */
+  key?: string;
+  /** Defaults to 100 requests per interval. */
+  tokensPerInterval?: number;
+  /** Defaults to 60 seconds. */
+  intervalMs?: number;
+  /** Receives the number of local callers waiting for a token. */
+  metrics?: Metrics;
+}
+
+interface Waiter {
+  reject: (reason?: unknown) => void;
+  cancel: () => void;
+}
+
+/**
+ * Token-bucket limiter whose bucket lives in a {@link RateLimiterStore}, so several processes
+ * (or hosts, with Redis) draw from one CompanyCam quota. Drop-in replacement for
+ * {@link RateLimiter} in `HttpClientConfig.rateLimiter`.
+ */
+export class DistributedRateLimiter implements RateLimiterLike {
+  private readonly store: RateLimiterStore;
+  private readonly key: string;
+  private readonly capacity: number;
+  private readonly refillMs: number;
+  private readonly metrics?: Metrics;
+  private readonly waiters = new Set<Waiter>();
+  private disposed = false;
+
+  /**
+   * Create a limiter backed by `options.store`. The store is not owned by the limiter and stays
+   * open when the limiter is disposed.
+   *
+   * @param options Store, bucket key, and quota.
+   */
+  constructor(options: DistributedRateLimiterOptions) {
+    this.store = options.store;
+    this.key = options.key ?? "default";
+    this.capacity = Math.max(1, options.tokensPerInterval ?? 100);
+    this.refillMs = Math.max(1, options.intervalMs ?? 60_000) / this.capacity;
+    this.metrics = options.metrics;
+  }
+
+  /**
+   * Acquire a token from the shared bucket, polling the store until one is available.
+   *
+   * @param signal Optional abort signal used to cancel the wait.
+   * @param _options Accepted for compatibility with {@link RateLimiterLike}. The shared bucket has
+   * no queue, so priorities are not applied.
+   * @throws {Error} Rejects with an `AbortError` if the signal aborts first, with
+   * "Rate limiter disposed" after {@link dispose}, or with the store's error.
+   */
+  async acquire(
+    signal?: AbortSignalLike,
+    _options?: AcquireOptions
+  ): Promise<void> {
+    for (;;) {
+      if (this.disposed) {
+        throw new Error("Rate limiter disposed");
+      }
+      if (signal?.aborted) {
+        throw createAbortError();
+      }
+
+      const { granted, waitMs } = await this.store.take(this.key, {
+        capacity: this.capacity,
+        refillMs: this.refillMs,
+      });
+      if (granted) {
+        return;
+      }
+      await this.wait(waitMs, signal);
+    }
+  }
+
+  /**
+   * Reject local callers that are waiting for a token.
+   */
+  dispose(): void {
+    this.disposed = true;
+    for (const waiter of [...this.waiters]) {
+      waiter.cancel();
+      waiter.reject(new Error("Rate limiter disposed"));
+    }
+    this.waiters.clear();
+    this.metrics?.recordQueueDepth(0);
+  }
+
+  private wait(ms: number, signal?: AbortSignalLike): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      const onAbort = () => {
+        waiter.cancel();
+        this.removeWaiter(waiter);
+        reject(createAbortError());
+      };
+      const timer = setTimeout(() => {
+        waiter.cancel();
+        this.removeWaiter(waiter);
+        resolve();
+      }, ms);
+      const waiter: Waiter = {
+        reject,
+        cancel: () => {
+          clearTimeout(timer);
+          signal?.removeEventListener?.("abort", onAbort);
+        },
+      };
+
+      signal?.addEventListener?.("abort", onAbort, { once: true });
+      this.waiters.add(waiter);
+      this.metrics?.recordQueueDepth(this.waiters.size);
+    });
+  }
+
+  private removeWaiter(waiter: Waiter): void {
+    this.waiters.delete(waiter);
+    this.metrics?.recordQueueDepth(this.waiters.size);
+  }
+}
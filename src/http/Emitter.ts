@@ -0,0 +1,43 @@
+/**
+ * Minimal typed event emitter shared by the client's stateful collaborators. It has no runtime
+ * dependencies so it works in every environment the SDK supports.
+ */
+export class Emitter<Events extends Record<string, unknown[]>> {
+  private readonly listeners = new Map<keyof Events, Set<unknown>>();
+
+  /**
+   * Register a listener.
+   *
+   * @param event Event name.
+   * @param listener Callback invoked with the event payload.
+   * @returns A function that removes the listener.
+   */
+  on<E extends keyof Events>(
+    event: E,
+    listener: (...args: Events[E]) => void
+  ): () => void {
+    let listeners = this.listeners.get(event);
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners.set(event, listeners);
+    }
+    listeners.add(listener);
+    return () => this.off(event, listener);
+  }
+
+  /**
+   * Remove a previously registered listener.
+   */
+  off<E extends keyof Events>(
+    event: E,
+    listener: (...args: Events[E]) => void
+  ): void {
+    this.listeners.get(event)?.delete(listener);
+  }
+
+  protected emit<E extends keyof Events>(event: E, ...args: Events[E]): void {
+    for (const listener of [...(this.listeners.get(event) ?? [])]) {
+      (listener as (...payload: Events[E]) => void)(...args);
+    }
+  }
+}
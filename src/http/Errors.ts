@@ -1,4 +1,13 @@
+import { isAxiosError } from "axios";
 import type { AxiosError } from "axios";
+import { isNetworkError } from "axios-retry";
+import { parseFieldErrors } from "./FieldErrors.js";
+import type { FieldErrors } from "./FieldErrors.js";
+import { extractIdempotencyKey } from "./Idempotency.js";
+import { redactHeaders, redactPayload } from "./Redaction.js";
+import { isRetryableFailure } from "./RetryPolicy.js";
+import type { SchemaViolation } from "./SchemaValidation.js";
+import { resolveOperation } from "../operations.js";
 
 /**
  * Shape of the error payload returned by the CompanyCam API.
@@ -20,12 +29,20 @@ export interface APIErrorOptions {
   requestId?: string;
   method?: string;
   url?: string;
+  idempotencyKey?: string;
+  fieldErrors?: FieldErrors;
   cause?: unknown;
 }
 
+/** Violations spelled out in a {@link SchemaMismatchError} message; the rest are counted. */
+const MAX_LISTED_VIOLATIONS = 5;
+
 /**
  * Rich error type thrown whenever the CompanyCam API responds with a non-success status.
  * Mirrors the problem document defined by the OpenAPI specification and carries request metadata.
+ *
+ * {@link APIError.fromAxios} returns a subclass for well-known failures ({@link NotFoundError},
+ * {@link RateLimitError}, {@link NetworkError}, ...); every one of them is still an `APIError`.
  */
 export class APIError extends Error {
   readonly status?: number;
@@ -35,6 +52,20 @@ export class APIError extends Error {
   readonly requestId?: string;
   readonly method?: string;
   readonly url?: string;
+  /** `Idempotency-Key` sent with the failed request; reuse it to replay the call safely. */
+  readonly idempotencyKey?: string;
+  /**
+   * Whether a client with default retry settings would retry this failure: idempotent methods
+   * (and POSTs with an idempotency key) failing with 408, 429, 5xx, a network error, or a timeout.
+   */
+  readonly isRetryable: boolean;
+  /** Delay requested by the `Retry-After` response header, in milliseconds, when present. */
+  readonly retryAfterMs?: number;
+  /**
+   * `problem.errors` grouped by the payload field each message refers to, e.g.
+   * `{ email_address: ["Email address has already been taken"] }`, for highlighting form inputs.
+   */
+  readonly fieldErrors?: FieldErrors;
 
   /**
    * Represent a failed API request with structured metadata.
@@ -49,9 +80,59 @@ export class APIError extends Error {
     this.requestId = options.requestId;
     this.method = options.method;
     this.url = options.url;
-    if (options.cause) {
-      (this as unknown as { cause?: unknown }).cause = options.cause;
-    }
+    this.idempotencyKey = options.idempotencyKey;
+    this.isRetryable = isRetryableFailure({
+      method: options.method,
+      status: options.status,
+      hasIdempotencyKey: options.idempotencyKey !== undefined,
+      networkError: isAxiosError(options.cause) && isNetworkError(options.cause),
+      timeout:
+        isAxiosError(options.cause) &&
+        !options.cause.response &&
+        options.cause.code === "ECONNABORTED",
+    });
+    this.retryAfterMs = parseRetryAfter(options.headers);
+    this.fieldErrors = options.fieldErrors;
+    setCause(this, options.cause);
+  }
+
+  /**
+   * Log-safe representation used by `JSON.stringify` and structured loggers: credentials in
+   * headers and secret payload fields are redacted, and the underlying transport error is
+   * reduced to its name, message, and code.
+   */
+  toJSON(): Record<string, unknown> {
+    return {
+      name: this.name,
+      message: this.message,
+      status: this.status,
+      code: this.code,
+      method: this.method,
+      url: this.url,
+      requestId: this.requestId,
+      idempotencyKey: this.idempotencyKey,
+      isRetryable: this.isRetryable,
+      retryAfterMs: this.retryAfterMs,
+      fieldErrors: this.fieldErrors,
+      headers: redactHeaders(this.headers),
+      problem: redactPayload(this.problem),
+      cause: summarizeCause((this as { cause?: unknown }).cause),
+    };
+  }
+
+  /**
+   * One-line summary, e.g. `NotFoundError: Project not found (404 GET /projects/1, request abc)`.
+   */
+  toString(): string {
+    const request = [this.status, this.method, this.url]
+      .filter((part) => part !== undefined && part !== "")
+      .join(" ");
+    const details = [request, this.requestId ? `request ${this.requestId}` : ""]
+      .filter(Boolean)
+      .join(", ");
+    return details
+      ? `${this.name}: ${this.message} (${details})`
+      : `${this.name}: ${this.message}`;
   }
 
   /**
@@ -59,16 +140,17 @@ export class APIError extends Error {
    * and the spec-defined problem payload when available.
    *
    * @param error Axios error raised by the underlying HTTP client.
-   * @returns Structured {@link APIError} ready to surface to SDK consumers.
+   * @returns Structured {@link APIError} ready to surface to SDK consumers, as the subclass
+   * matching the status or transport failure when there is one.
    */
   static fromAxios(error: AxiosError): APIError {
     const response = error.response;
     const request = error.config;
     const problem = (response?.data ?? undefined) as APIProblem | undefined;
     const errors = Array.isArray(problem?.errors) ? problem?.errors : undefined;
-    const requestId =
-      response?.headers?.["x-request-id"] ??
-      response?.headers?.["x-amzn-requestid"];
+    const requestId = extractRequestId(
+      response?.headers as Record<string, unknown> | undefined
+    );
 
     const message =
       errors?.[0] ||
@@ -76,7 +158,7 @@ export class APIError extends Error {
       error.message ||
       "Unexpected API error";
 
-    return new APIError(message, {
+    const options: APIErrorOptions = {
       status: response?.status,
       code:
         problem && typeof problem === "object" && "code" in problem
@@ -84,10 +166,312 @@ export class APIError extends Error {
           : undefined,
       problem,
       headers: response?.headers as Record<string, unknown> | undefined,
-      requestId: typeof requestId === "string" ? requestId : undefined,
+      requestId,
       method: request?.method?.toUpperCase(),
       url: request?.url,
+      idempotencyKey: extractIdempotencyKey(request?.headers),
+      fieldErrors: errors
+        ? parseFieldErrors(
+            errors,
+            resolveOperation(request?.method, request?.url)?.operationId
+          )
+        : undefined,
       cause: error,
+    };
+
+    const status = response?.status;
+    if (status === undefined) {
+      if (error.code === "ECONNABORTED" || error.code === "ETIMEDOUT") {
+        return new TimeoutError(message, options);
+      }
+      // Cancellations are not network failures.
+      return error.code === "ERR_CANCELED"
+        ? new APIError(message, options)
+        : new NetworkError(message, options);
+    }
+    switch (status) {
+      case 400:
+      case 422:
+        return new ValidationError(message, options);
+      case 401:
+        return new AuthenticationError(message, options);
+      case 403:
+        return new PermissionError(message, options);
+      case 404:
+        return new NotFoundError(message, options);
+      case 429:
+        return new RateLimitError(message, options);
+      default:
+        return status >= 500
+          ? new ServerError(message, options)
+          : new APIError(message, options);
+    }
+  }
+}
+
+/**
+ * HTTP 401: the bearer token is missing, invalid, or expired.
+ */
+export class AuthenticationError extends APIError {
+  constructor(message: string, options: APIErrorOptions = {}) {
+    super(message, options);
+    this.name = "AuthenticationError";
+  }
+}
+
+/**
+ * HTTP 403: the token is valid but lacks access to the resource.
+ */
+export class PermissionError extends APIError {
+  constructor(message: string, options: APIErrorOptions = {}) {
+    super(message, options);
+    this.name = "PermissionError";
+  }
+}
+
+/**
+ * HTTP 404: the resource does not exist or is not visible to the caller.
+ */
+export class NotFoundError extends APIError {
+  constructor(message: string, options: APIErrorOptions = {}) {
+    super(message, options);
+    this.name = "NotFoundError";
+  }
+}
+
+/**
+ * Options for constructing a {@link ValidationError}.
+ */
+export interface ValidationErrorOptions extends APIErrorOptions {
+  violations?: readonly SchemaViolation[];
+}
+
+/**
+ * HTTP 400 or 422: the API rejected the request payload or parameters. Also thrown without a
+ * `status`, before anything is sent, when `validateRequests` finds the request does not match
+ * the spec; `violations` then lists every problem.
+ */
+export class ValidationError extends APIError {
+  /** Schema violations found locally; `undefined` when the API rejected the request. */
+  readonly violations?: readonly SchemaViolation[];
+
+  constructor(message: string, options: ValidationErrorOptions = {}) {
+    super(message, options);
+    this.name = "ValidationError";
+    this.violations = options.violations;
+  }
+
+  toJSON(): Record<string, unknown> {
+    return { ...super.toJSON(), violations: this.violations };
+  }
+}
+
+/**
+ * HTTP 429: the rate limit was exceeded. `retryAfterMs` holds the delay the API asked for.
+ */
+export class RateLimitError extends APIError {
+  constructor(message: string, options: APIErrorOptions = {}) {
+    super(message, options);
+    this.name = "RateLimitError";
+  }
+}
+
+/**
+ * HTTP 5xx: the API failed to handle the request.
+ */
+export class ServerError extends APIError {
+  constructor(message: string, options: APIErrorOptions = {}) {
+    super(message, options);
+    this.name = "ServerError";
+  }
+}
+
+/**
+ * No response arrived within the per-attempt `timeoutMs`.
+ */
+export class TimeoutError extends APIError {
+  constructor(message: string, options: APIErrorOptions = {}) {
+    super(message, options);
+    this.name = "TimeoutError";
+  }
+}
+
+/**
+ * The request never produced an HTTP response, e.g. DNS failure, refused or reset connection.
+ */
+export class NetworkError extends APIError {
+  constructor(message: string, options: APIErrorOptions = {}) {
+    super(message, options);
+    this.name = "NetworkError";
+  }
+}
+
+/**
+ * Read the request identifier CompanyCam attaches to every response, when present.
+ *
+ * @param headers Response headers as returned by axios.
+ * @returns The `x-request-id` (or `x-amzn-requestid`) header value, if any.
+ */
+export function extractRequestId(
+  headers?: Record<string, unknown>
+): string | undefined {
+  const requestId = headers?.["x-request-id"] ?? headers?.["x-amzn-requestid"];
+  return typeof requestId === "string" ? requestId : undefined;
+}
+
+/**
+ * Read the delay requested by a `Retry-After` header, given in seconds or as an HTTP date.
+ *
+ * @param headers Response headers as returned by axios.
+ * @returns Milliseconds to wait, or `undefined` when the header is missing or malformed.
+ */
+export function parseRetryAfter(
+  headers?: Record<string, unknown>
+): number | undefined {
+  const header = headers?.["retry-after"];
+  const value = Array.isArray(header) ? header[0] : header;
+  if (!value || (typeof value !== "string" && typeof value !== "number")) {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(String(value));
+  if (Number.isNaN(date)) {
+    return undefined;
+  }
+  return Math.max(0, date - Date.now());
+}
+
+/**
+ * Raised without contacting the API while the client's circuit breaker is open.
+ */
+export class CircuitOpenError extends Error {
+  /** Milliseconds until the breaker lets a probe request through. */
+  readonly retryAfterMs: number;
+
+  /**
+   * Describe a request rejected by an open circuit.
+   */
+  constructor(retryAfterMs: number) {
+    super(
+      `Circuit breaker is open; CompanyCam API calls are suspended for ${Math.ceil(retryAfterMs)}ms`
+    );
+    this.name = "CircuitOpenError";
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+/**
+ * Raised when a request outlives its `deadline` or `totalTimeoutMs`, counting rate-limiter and
+ * concurrency waits, every attempt, and retry backoff.
+ */
+export class DeadlineExceededError extends Error {
+  /** Total time budget the request started with, in milliseconds. */
+  readonly timeoutMs: number;
+
+  /**
+   * Describe a request cancelled by its deadline.
+   *
+   * @param timeoutMs Budget the request started with.
+   * @param options `cause` is the failure in flight when the deadline passed, if any.
+   */
+  constructor(timeoutMs: number, options: { cause?: unknown } = {}) {
+    super(`Request deadline of ${Math.ceil(timeoutMs)}ms exceeded`);
+    this.name = "DeadlineExceededError";
+    this.timeoutMs = timeoutMs;
+    setCause(this, options.cause);
+  }
+}
+
+/**
+ * Raised when a mutation could not reach the API and was stored by the client's outbox for
+ * replay. The call is not lost: it is sent again, with the same `idempotencyKey`, once the API is
+ * reachable.
+ */
+export class OutboxQueuedError extends Error {
+  /** Key identifying the stored entry, see `Outbox.entries()`. */
+  readonly idempotencyKey: string;
+
+  /**
+   * Describe a mutation deferred to the outbox.
+   *
+   * @param idempotencyKey Key of the stored entry.
+   * @param options `cause` is the connectivity failure, absent when the call was queued behind
+   * earlier entries without being sent.
+   */
+  constructor(idempotencyKey: string, options: { cause?: unknown } = {}) {
+    super(`Request queued in the outbox for replay (Idempotency-Key ${idempotencyKey})`);
+    this.name = "OutboxQueuedError";
+    this.idempotencyKey = idempotencyKey;
+    setCause(this, options.cause);
+  }
+}
+
+/**
+ * Raised when `responseValidation: "strict"` finds that a success response to a read does not
+ * match the spec, e.g. a field changed type or appeared without being documented.
+ */
+export class SchemaMismatchError extends Error {
+  readonly operationId: string;
+  /** Every difference between the response body and the spec. */
+  readonly violations: readonly SchemaViolation[];
+  readonly status: number;
+  readonly requestId?: string;
+
+  /**
+   * Describe a response that drifted from the spec.
+   *
+   * @param operationId Operation that produced the response.
+   * @param violations Differences found by `validateResponse`.
+   * @param options HTTP status and request identifier of the response.
+   */
+  constructor(
+    operationId: string,
+    violations: readonly SchemaViolation[],
+    options: { status: number; requestId?: string }
+  ) {
+    const shown = violations
+      .slice(0, MAX_LISTED_VIOLATIONS)
+      .map((violation) => `${violation.path || "body"} ${violation.message}`);
+    if (violations.length > MAX_LISTED_VIOLATIONS) {
+      shown.push(`${violations.length - MAX_LISTED_VIOLATIONS} more`);
+    }
+    super(`Response to ${operationId} does not match the spec: ${shown.join("; ")}`);
+    this.name = "SchemaMismatchError";
+    this.operationId = operationId;
+    this.violations = violations;
+    this.status = options.status;
+    this.requestId = options.requestId;
+  }
+}
+
+/**
+ * Attach `cause` like the native `Error` constructor does: non-enumerable, so loggers that copy
+ * enumerable properties do not serialize the transport error and its request headers.
+ */
+function setCause(error: Error, cause: unknown): void {
+  if (cause) {
+    Object.defineProperty(error, "cause", {
+      value: cause,
+      writable: true,
+      configurable: true,
+      enumerable: false,
     });
   }
 }
+
+function summarizeCause(cause: unknown): Record<string, unknown> | undefined {
+  if (!(cause instanceof Error)) {
+    return undefined;
+  }
+  const code = (cause as { code?: unknown }).code;
+  return {
+    name: cause.name,
+    message: cause.message,
+    ...(typeof code === "string" ? { code } : {}),
+  };
+}
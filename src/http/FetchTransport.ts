@@ -0,0 +1,270 @@
+import type { AxiosRequestConfig, AxiosResponse } from "axios";
+import { TransportError, TransportErrorCode } from "./Transport.js";
+import type { Transport } from "./Transport.js";
+
+/**
+ * Options accepted by {@link FetchTransport}.
+ */
+export interface FetchTransportOptions {
+  /**
+   * `fetch` implementation to use. Defaults to the global `fetch` (Node.js 18+, Deno, Bun,
+   * Cloudflare Workers, and browsers).
+   */
+  fetch?: typeof fetch;
+}
+
+/**
+ * {@link Transport} built on the standard `fetch` API for runtimes where axios' Node.js
+ * adapter is unavailable. It mirrors axios' URL building, body serialization, response parsing,
+ * timeout, and cancellation behaviour so the client retries and maps errors identically.
+ */
+export class FetchTransport implements Transport {
+  private readonly fetchImpl: typeof fetch;
+
+  /**
+   * Create a fetch-backed transport.
+   *
+   * @param options Optional `fetch` override.
+   * @throws {Error} When no `fetch` implementation is available.
+   */
+  constructor(options: FetchTransportOptions = {}) {
+    const fetchImpl = options.fetch ?? globalThis.fetch;
+    if (typeof fetchImpl !== "function") {
+      throw new Error(
+        "FetchTransport requires a global fetch implementation or the `fetch` option."
+      );
+    }
+    // Some runtimes require fetch to be invoked with the global object as `this`.
+    this.fetchImpl = options.fetch ?? fetchImpl.bind(globalThis);
+  }
+
+  /**
+   * Perform a single request with `fetch`.
+   *
+   * @param config Prepared request configuration.
+   * @returns An axios-shaped response with the parsed payload.
+   * @throws {TransportError} On responses rejected by `validateStatus` (non-2xx by default),
+   * network failures, timeouts, and cancellation.
+   */
+  async send<T = unknown, D = unknown>(
+    config: AxiosRequestConfig<D>
+  ): Promise<AxiosResponse<T>> {
+    const callerSignal = config.signal;
+    if (callerSignal?.aborted) {
+      throw new TransportError("canceled", TransportErrorCode.Canceled, config);
+    }
+
+    const headers = buildHeaders(config.headers);
+    const body = serializeBody(config.data, headers);
+    const controller = new AbortController();
+    const timeoutMs = config.timeout ?? 0;
+    let timedOut = false;
+    const timer =
+      timeoutMs > 0
+        ? setTimeout(() => {
+            timedOut = true;
+            controller.abort();
+          }, timeoutMs)
+        : undefined;
+    const onAbort = () => controller.abort();
+    callerSignal?.addEventListener?.("abort", onAbort);
+
+    let response: AxiosResponse<T>;
+    try {
+      const fetched = await this.fetchImpl(
+        buildURL(config.baseURL, config.url, config.params),
+        {
+          method: (config.method ?? "get").toUpperCase(),
+          headers,
+          body,
+          signal: controller.signal,
+        }
+      );
+      response = {
+        data: parseBody(await fetched.text()) as T,
+        status: fetched.status,
+        statusText: fetched.statusText,
+        headers: Object.fromEntries(fetched.headers.entries()),
+        config: config as AxiosResponse<T>["config"],
+      };
+    } catch (error) {
+      if (timedOut) {
+        throw new TransportError(
+          `timeout of ${timeoutMs}ms exceeded`,
+          TransportErrorCode.Timeout,
+          config,
+          undefined,
+          error
+        );
+      }
+      if (callerSignal?.aborted) {
+        throw new TransportError(
+          "canceled",
+          TransportErrorCode.Canceled,
+          config,
+          undefined,
+          error
+        );
+      }
+      throw new TransportError(
+        "Network Error",
+        TransportErrorCode.Network,
+        config,
+        undefined,
+        error
+      );
+    } finally {
+      if (timer !== undefined) {
+        clearTimeout(timer);
+      }
+      callerSignal?.removeEventListener?.("abort", onAbort);
+    }
+
+    const validateStatus =
+      config.validateStatus === undefined
+        ? (status: number) => status >= 200 && status < 300
+        : config.validateStatus;
+    if (validateStatus && !validateStatus(response.status)) {
+      throw new TransportError(
+        `Request failed with status code ${response.status}`,
+        response.status >= 500
+          ? TransportErrorCode.BadResponse
+          : TransportErrorCode.BadRequest,
+        config,
+        response
+      );
+    }
+
+    return response;
+  }
+}
+
+function buildHeaders(source: AxiosRequestConfig["headers"]): Headers {
+  const headers = new Headers();
+  if (!source) {
+    return headers;
+  }
+
+  for (const [key, value] of Object.entries(source as Record<string, unknown>)) {
+    if (value === undefined || value === null) {
+      continue;
+    }
+    headers.set(key, Array.isArray(value) ? value.join(", ") : String(value));
+  }
+  return headers;
+}
+
+/**
+ * Serialize request bodies the way axios' default `transformRequest` does.
+ */
+function serializeBody(data: unknown, headers: Headers): BodyInit | undefined {
+  if (data === undefined || data === null) {
+    return undefined;
+  }
+
+  if (data instanceof URLSearchParams) {
+    if (!headers.has("content-type")) {
+      headers.set(
+        "Content-Type",
+        "application/x-www-form-urlencoded;charset=utf-8"
+      );
+    }
+    return data.toString();
+  }
+
+  if (
+    typeof data === "string" ||
+    data instanceof ArrayBuffer ||
+    ArrayBuffer.isView(data) ||
+    (typeof Blob !== "undefined" && data instanceof Blob) ||
+    (typeof FormData !== "undefined" && data instanceof FormData) ||
+    (typeof ReadableStream !== "undefined" && data instanceof ReadableStream)
+  ) {
+    return data as BodyInit;
+  }
+
+  if (!headers.has("content-type")) {
+    headers.set("Content-Type", "application/json");
+  }
+  return JSON.stringify(data);
+}
+
+/**
+ * Parse response text the way axios does by default: JSON when possible, raw text otherwise.
+ */
+function parseBody(text: string): unknown {
+  if (!text) {
+    return text;
+  }
+
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+/**
+ * Combine the base URL, request URL, and query parameters using axios' default rules
+ * (array values become `key[]=value`, dates are ISO strings, objects are JSON encoded).
+ */
+function buildURL(
+  baseURL: string | undefined,
+  url: string | undefined,
+  params: unknown
+): string {
+  const path = url ?? "";
+  let fullURL =
+    baseURL && !/^([a-z][a-z\d+\-.]*:)?\/\//i.test(path)
+      ? path
+        ? `${baseURL.replace(/\/?\/$/, "")}/${path.replace(/^\/+/, "")}`
+        : baseURL
+      : path;
+
+  if (!params || typeof params !== "object") {
+    return fullURL;
+  }
+
+  const parts: string[] = [];
+  for (const [key, value] of Object.entries(params as Record<string, unknown>)) {
+    if (value === undefined || value === null) {
+      continue;
+    }
+
+    const values = Array.isArray(value) ? value : [value];
+    const name = Array.isArray(value) ? `${key}[]` : key;
+    for (const entry of values) {
+      parts.push(`${encode(name)}=${encode(stringifyParam(entry))}`);
+    }
+  }
+
+  if (parts.length === 0) {
+    return fullURL;
+  }
+
+  const hashIndex = fullURL.indexOf("#");
+  if (hashIndex !== -1) {
+    fullURL = fullURL.slice(0, hashIndex);
+  }
+  return `${fullURL}${fullURL.includes("?") ? "&" : "?"}${parts.join("&")}`;
+}
+
+function stringifyParam(value: unknown): string {
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (typeof value === "object" && value !== null) {
+    return JSON.stringify(value);
+  }
+  return String(value);
+}
+
+function encode(value: string): string {
+  return encodeURIComponent(value)
+    .replace(/%3A/gi, ":")
+    .replace(/%24/g, "$")
+    .replace(/%2C/gi, ",")
+    .replace(/%20/g, "+")
+    .replace(/%5B/gi, "[")
+    .replace(/%5D/gi, "]");
+}
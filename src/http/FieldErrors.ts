@@ -0,0 +1,100 @@
+import { REQUEST_BODY_SCHEMAS, payloadWrapper, resolveSchema } from "../schemas.js";
+import type { Schema } from "../schemas.js";
+
+/**
+ * API validation messages grouped by payload field path, e.g. `email_address` or
+ * `primary_contact.email`. Paths are relative to the payload object passed to the resource
+ * method, without wrappers such as `{ user: ... }`.
+ */
+export type FieldErrors = Record<string, string[]>;
+
+/**
+ * Key collecting messages that do not name a known field.
+ */
+export const BASE_FIELD_ERRORS = "base";
+
+interface FieldLabel {
+  path: string;
+  /** Lower-cased, space-separated words the API uses for the field, e.g. `email address`. */
+  label: string;
+}
+
+/**
+ * Map the `errors` strings of a validation failure onto the fields of the operation's request
+ * payload. The API words each message as the humanized field name followed by the problem, so
+ * "Email address has already been taken" maps to `email_address`. Nested fields match either
+ * their full path ("Primary contact email is invalid") or, when unambiguous, their own name.
+ *
+ * @param messages `errors` array of the problem document.
+ * @param operationId OpenAPI operation that failed; without it every message goes to `base`.
+ * @returns Full messages per field path.
+ */
+export function parseFieldErrors(
+  messages: readonly string[],
+  operationId?: string
+): FieldErrors {
+  const labels = fieldLabels(operationId);
+  const fieldErrors: FieldErrors = {};
+  for (const message of messages) {
+    const normalized = normalize(message);
+    let match: FieldLabel | undefined;
+    for (const candidate of labels) {
+      if (
+        (normalized === candidate.label || normalized.startsWith(`${candidate.label} `)) &&
+        candidate.label.length > (match?.label.length ?? 0)
+      ) {
+        match = candidate;
+      }
+    }
+    const path = match?.path ?? BASE_FIELD_ERRORS;
+    (fieldErrors[path] ??= []).push(message);
+  }
+  return fieldErrors;
+}
+
+/**
+ * Labels for every payload field of an operation: full paths first, then bare names of nested
+ * fields that do not clash with another label.
+ */
+function fieldLabels(operationId: string | undefined): FieldLabel[] {
+  const body = operationId ? REQUEST_BODY_SCHEMAS[operationId] : undefined;
+  if (!body) {
+    return [];
+  }
+
+  const paths: string[] = [];
+  const wrapper = payloadWrapper(body);
+  collectPaths(wrapper ? resolveSchema(body.properties![wrapper]!) : body, "", paths);
+
+  const labels = paths.map((path) => ({ path, label: normalize(path) }));
+  const taken = new Set(labels.map((entry) => entry.label));
+  const nested = new Map<string, FieldLabel | null>();
+  for (const path of paths.filter((candidate) => candidate.includes("."))) {
+    const label = normalize(path.slice(path.lastIndexOf(".") + 1));
+    if (!taken.has(label)) {
+      // Two nested fields with the same name are ambiguous; match neither.
+      nested.set(label, nested.has(label) ? null : { path, label });
+    }
+  }
+  for (const entry of nested.values()) {
+    if (entry) {
+      labels.push(entry);
+    }
+  }
+  return labels;
+}
+
+function collectPaths(schema: Schema, prefix: string, paths: string[]): void {
+  for (const [name, property] of Object.entries(schema.properties ?? {})) {
+    const path = prefix ? `${prefix}.${name}` : name;
+    paths.push(path);
+    const resolved = resolveSchema(property);
+    if (resolved.properties) {
+      collectPaths(resolved, path, paths);
+    }
+  }
+}
+
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/[_.]/g, " ").replace(/\s+/g, " ").trim();
+}
@@ -0,0 +1,92 @@
+import { promises as fs } from "node:fs";
+import { join } from "node:path";
+import type { CacheEntry, CacheStore } from "./Cache.js";
+import { sha256 } from "./RequestKey.js";
+
+/**
+ * Options accepted by {@link FileCacheStore}.
+ */
+export interface FileCacheStoreOptions {
+  /** Directory holding one JSON file per entry. Created on first write. */
+  directory: string;
+}
+
+/**
+ * {@link CacheStore} persisting entries as JSON files so the cache survives restarts and can be
+ * shared by processes on the same host.
+ */
+export class FileCacheStore implements CacheStore {
+  private readonly directory: string;
+
+  /**
+   * Create a store rooted at `options.directory`.
+   *
+   * @param options Target directory.
+   */
+  constructor(options: FileCacheStoreOptions) {
+    this.directory = options.directory;
+  }
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    const record = await this.read(this.fileFor(key));
+    return record?.key === key ? record.entry : undefined;
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    const file = this.fileFor(key);
+    // Write then rename so concurrent readers never observe a partial file.
+    const temporary = `${file}.${process.pid}.${Date.now()}.tmp`;
+    await fs.writeFile(temporary, JSON.stringify({ key, entry }), "utf8");
+    await fs.rename(temporary, file);
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.fileFor(key), { force: true });
+  }
+
+  async entries(): Promise<Array<[string, CacheEntry]>> {
+    let names: string[];
+    try {
+      names = await fs.readdir(this.directory);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return [];
+      }
+      throw error;
+    }
+
+    const entries: Array<[string, CacheEntry]> = [];
+    for (const name of names) {
+      if (!name.endsWith(".json")) {
+        continue;
+      }
+      const record = await this.read(join(this.directory, name));
+      if (record) {
+        entries.push([record.key, record.entry]);
+      }
+    }
+    return entries;
+  }
+
+  private fileFor(key: string): string {
+    return join(this.directory, `${sha256(key)}.json`);
+  }
+
+  private async read(
+    file: string
+  ): Promise<{ key: string; entry: CacheEntry } | undefined> {
+    try {
+      return JSON.parse(await fs.readFile(file, "utf8"));
+    } catch (error) {
+      // Missing or half-written files are treated as cache misses.
+      if (
+        (error as NodeJS.ErrnoException).code === "ENOENT" ||
+        error instanceof SyntaxError
+      ) {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+}
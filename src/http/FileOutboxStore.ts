@@ -0,0 +1,78 @@
+import { promises as fs } from "node:fs";
+import { dirname } from "node:path";
+import type { OutboxEntry, OutboxStore } from "./OutboxStore.js";
+
+/**
+ * Options accepted by {@link FileOutboxStore}.
+ */
+export interface FileOutboxStoreOptions {
+  /** JSON file holding every entry. Its directory is created on first write. */
+  path: string;
+}
+
+/**
+ * {@link OutboxStore} keeping all entries in one JSON file, rewritten atomically on every change.
+ * Suited to the handful of mutations queued while a host is offline.
+ */
+export class FileOutboxStore implements OutboxStore {
+  private readonly path: string;
+  private writing: Promise<unknown> = Promise.resolve();
+
+  /**
+   * Create a store backed by `options.path`.
+   *
+   * @param options Target file.
+   */
+  constructor(options: FileOutboxStoreOptions) {
+    this.path = options.path;
+  }
+
+  async list(): Promise<OutboxEntry[]> {
+    await this.writing;
+    return sortEntries(await this.read());
+  }
+
+  put(entry: OutboxEntry): Promise<void> {
+    return this.update((entries) => [
+      ...entries.filter((existing) => existing.idempotencyKey !== entry.idempotencyKey),
+      entry,
+    ]);
+  }
+
+  delete(idempotencyKey: string): Promise<void> {
+    return this.update((entries) =>
+      entries.filter((entry) => entry.idempotencyKey !== idempotencyKey)
+    );
+  }
+
+  /**
+   * Serialize read-modify-write cycles so concurrent updates are not lost.
+   */
+  private update(change: (entries: OutboxEntry[]) => OutboxEntry[]): Promise<void> {
+    const next = this.writing.then(async () => {
+      const entries = sortEntries(change(await this.read()));
+      await fs.mkdir(dirname(this.path), { recursive: true });
+      // Write then rename so a crash never leaves a truncated file behind.
+      const temporary = `${this.path}.${process.pid}.tmp`;
+      await fs.writeFile(temporary, JSON.stringify(entries), "utf8");
+      await fs.rename(temporary, this.path);
+    });
+    this.writing = next.catch(() => undefined);
+    return next;
+  }
+
+  private async read(): Promise<OutboxEntry[]> {
+    try {
+      return JSON.parse(await fs.readFile(this.path, "utf8")) as OutboxEntry[];
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return [];
+      }
+      throw error;
+    }
+  }
+}
+
+function sortEntries(entries: OutboxEntry[]): OutboxEntry[] {
+  return entries.sort((a, b) => a.sequence - b.sequence);
+}
@@ -0,0 +1,116 @@
+import { promises as fs } from "node:fs";
+import { dirname } from "node:path";
+import { takeToken } from "./RateLimiterStore.js";
+import type {
+  RateLimiterStore,
+  TokenBucketConfig,
+  TokenBucketState,
+  TokenTakeResult,
+} from "./RateLimiterStore.js";
+
+/**
+ * Options accepted by {@link FileRateLimiterStore}.
+ */
+export interface FileRateLimiterStoreOptions {
+  /** JSON file holding the bucket state. A sibling `.lock` file serializes access. */
+  path: string;
+  /** Give up waiting for the lock after this many milliseconds. Defaults to 5 seconds. */
+  lockTimeoutMs?: number;
+  /**
+   * Treat a lock older than this as abandoned by a crashed process. Defaults to 10 seconds.
+   */
+  staleLockMs?: number;
+}
+
+/**
+ * {@link RateLimiterStore} for processes on a single host. Bucket state lives in a JSON file and
+ * every update happens under an exclusive lock file.
+ */
+export class FileRateLimiterStore implements RateLimiterStore {
+  private readonly path: string;
+  private readonly lockPath: string;
+  private readonly lockTimeoutMs: number;
+  private readonly staleLockMs: number;
+
+  /**
+   * Create a store backed by `options.path`.
+   *
+   * @param options File location and lock timings.
+   */
+  constructor(options: FileRateLimiterStoreOptions) {
+    this.path = options.path;
+    this.lockPath = `${options.path}.lock`;
+    this.lockTimeoutMs = Math.max(0, options.lockTimeoutMs ?? 5_000);
+    this.staleLockMs = Math.max(1, options.staleLockMs ?? 10_000);
+  }
+
+  async take(key: string, bucket: TokenBucketConfig): Promise<TokenTakeResult> {
+    await fs.mkdir(dirname(this.path), { recursive: true });
+    await this.lock();
+    try {
+      const buckets = await this.read();
+      const { state, result } = takeToken(buckets[key], bucket, Date.now());
+      buckets[key] = state;
+      const temporary = `${this.path}.${process.pid}.tmp`;
+      await fs.writeFile(temporary, JSON.stringify(buckets), "utf8");
+      await fs.rename(temporary, this.path);
+      return result;
+    } finally {
+      await fs.rm(this.lockPath, { force: true });
+    }
+  }
+
+  private async lock(): Promise<void> {
+    const deadline = Date.now() + this.lockTimeoutMs;
+    for (;;) {
+      try {
+        const handle = await fs.open(this.lockPath, "wx");
+        await handle.close();
+        return;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== "EEXIST") {
+          throw error;
+        }
+      }
+
+      if (await this.removeStaleLock()) {
+        continue;
+      }
+      if (Date.now() >= deadline) {
+        throw new Error(`Timed out waiting for rate limiter lock ${this.lockPath}`);
+      }
+      await new Promise((resolve) => setTimeout(resolve, 5 + Math.random() * 10));
+    }
+  }
+
+  private async removeStaleLock(): Promise<boolean> {
+    try {
+      const stats = await fs.stat(this.lockPath);
+      if (Date.now() - stats.mtimeMs < this.staleLockMs) {
+        return false;
+      }
+      await fs.rm(this.lockPath, { force: true });
+      return true;
+    } catch (error) {
+      // The holder released the lock in the meantime.
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return true;
+      }
+      throw error;
+    }
+  }
+
+  private async read(): Promise<Record<string, TokenBucketState>> {
+    try {
+      return JSON.parse(await fs.readFile(this.path, "utf8"));
+    } catch (error) {
+      if (
+        (error as NodeJS.ErrnoException).code === "ENOENT" ||
+        error instanceof SyntaxError
+      ) {
+        return {};
+      }
+      throw error;
+    }
+  }
+}
@@ -1,13 +1,46 @@
-import axios, {
-  AxiosInstance,
-  AxiosRequestConfig,
-  AxiosResponse,
-  isAxiosError,
-} from "axios";
-import axiosRetry, { isNetworkError } from "axios-retry";
+import { AxiosRequestConfig, AxiosResponse, isAxiosError } from "axios";
+import { isNetworkError } from "axios-retry";
 import type { AxiosError } from "axios";
-import { RateLimiter } from "./RateLimiter.js";
-import { APIError } from "./Errors.js";
+import { RateLimiter, createAbortError } from "./RateLimiter.js";
+import type {
+  AbortSignalLike,
+  AcquireOptions,
+  RateLimiterLike,
+  RequestPriority,
+} from "./RateLimiter.js";
+import { ConcurrencyLimiter } from "./ConcurrencyLimiter.js";
+import type { ConcurrencySnapshot } from "./ConcurrencyLimiter.js";
+import {
+  APIError,
+  SchemaMismatchError,
+  extractRequestId,
+  parseRetryAfter,
+} from "./Errors.js";
+import { composeMiddleware } from "./Middleware.js";
+import type { Middleware, MiddlewareContext } from "./Middleware.js";
+import { AxiosTransport } from "./AxiosTransport.js";
+import { TransportErrorCode } from "./Transport.js";
+import type { Transport } from "./Transport.js";
+import type { HttpLogEvent, Logger } from "./Logger.js";
+import { redactHeaders, redactPayload } from "./Redaction.js";
+import type { Span, Tracer } from "@opentelemetry/api";
+import { SPAN_KIND_CLIENT, SPAN_STATUS_ERROR, loadDefaultTracer } from "./Tracing.js";
+import { resolveOperation } from "../operations.js";
+import type { Metrics } from "./Metrics.js";
+import { HttpCache, responseFromCache } from "./Cache.js";
+import type { HttpCacheOptions } from "./Cache.js";
+import { cloneData, coalescingKey, sha256 } from "./RequestKey.js";
+import type { CircuitBreaker } from "./CircuitBreaker.js";
+import { Deadline } from "./Deadline.js";
+import type { Outbox } from "./Outbox.js";
+import { assertValidRequest, validateResponse } from "./SchemaValidation.js";
+import { RetryBudget, exponentialBackoff, isRetryableFailure } from "./RetryPolicy.js";
+import {
+  IDEMPOTENCY_KEY_HEADER,
+  createIdempotencyKey,
+  extractIdempotencyKey,
+} from "./Idempotency.js";
+import type { RetryBudgetOptions, RetryPolicy } from "./RetryPolicy.js";
 
 /**
  * Controls automatic retry behavior applied to outgoing requests.
@@ -18,11 +51,32 @@ export interface RetryOptions {
    */
   retries?: number;
   /**
-   * Allow retries for POST requests. Disabled by default.
+   * Allow retries for POST requests that carry no `Idempotency-Key`. Disabled by default. POSTs
+   * with a key, including keys generated by `autoIdempotencyKeys`, are always retryable.
    */
   allowPostRetry?: boolean;
   /**
-   * Hook invoked prior to an automatic retry attempt.
+   * Backoff schedule. Defaults to {@link exponentialBackoff} (200 ms doubling up to 8 s, plus up to
+   * 20% jitter). Use {@link fixedBackoff}, {@link noRetry}, or a custom {@link RetryPolicy}.
+   */
+  policy?: RetryPolicy;
+  /**
+   * Response statuses worth retrying. Defaults to 408, 429, and every 5xx. Network errors and
+   * timeouts are always retryable.
+   */
+  retryableStatuses?: readonly number[];
+  /**
+   * Longest `Retry-After` delay honoured; longer server hints are capped to this value.
+   * Defaults to 8 seconds.
+   */
+  maxRetryAfterMs?: number;
+  /**
+   * Client-wide cap on retries as a share of traffic. Pass options for a budget owned by this
+   * client or a {@link RetryBudget} shared between clients. Unlimited by default.
+   */
+  budget?: RetryBudget | RetryBudgetOptions;
+  /**
+   * Hook invoked prior to an automatic retry attempt, before the backoff delay elapses.
    */
   onRetry?: (
     retryCount: number,
@@ -31,6 +85,11 @@ export interface RetryOptions {
   ) => void;
 }
 
+/**
+ * Retry settings that can be overridden for a single request. The budget is always client-wide.
+ */
+export type RequestRetryOptions = Omit<RetryOptions, "budget">;
+
 /**
  * Configuration accepted by {@link HttpClient}. These options align with the runtime guarantees
  * described in the SDK README (base URL, bearer token, timeout, retries, and rate limiting).
@@ -40,11 +99,92 @@ export interface HttpClientConfig {
   timeoutMs?: number;
   authToken?: string;
   defaultHeaders?: Record<string, string>;
+  /**
+   * Low-level axios configuration overrides. Only used by the default axios transport.
+   */
   axiosOptions?: AxiosRequestConfig;
+  /**
+   * Transport used to send each attempt. Defaults to an {@link AxiosTransport}; supply a
+   * {@link FetchTransport} for runtimes such as Cloudflare Workers, Deno, or Bun binaries.
+   */
+  transport?: Transport;
   retry?: RetryOptions;
-  rateLimiter?: RateLimiter | null;
+  /**
+   * Token-bucket limiter shared by every request. Defaults to an in-process {@link RateLimiter};
+   * pass a {@link DistributedRateLimiter} to share one quota across processes, or `null` to disable.
+   */
+  rateLimiter?: RateLimiterLike | null;
+  /**
+   * Structured logger receiving request start, rate-limit wait, retry, response, and error events.
+   * Credentials and secret payload fields are redacted before they reach the logger.
+   */
+  logger?: Logger;
+  /**
+   * Middleware executed, in order, around every request. More can be added later via {@link HttpClient.use}.
+   */
+  middleware?: Middleware[];
+  /**
+   * OpenTelemetry tracer used to record one span per API operation. Defaults to the tracer of the
+   * globally registered provider, which is a no-op until an SDK is installed, or to none when
+   * `@opentelemetry/api` is not installed. Pass `null` to disable.
+   */
+  tracer?: Tracer | null;
+  /**
+   * Metrics sink for request counts, latency, retries, 429s, and rate-limiter waits. The default
+   * rate limiter also reports its queue depth here; supplied limiters need their own `metrics` option.
+   */
+  metrics?: Metrics;
+  /**
+   * Enable the GET response cache. Entries are revalidated with `If-None-Match` /
+   * `If-Modified-Since` once stale, and mutations invalidate cached entries on the same path.
+   */
+  cache?: HttpCacheOptions;
+  /**
+   * Share one network call (and one rate-limiter token) between concurrent identical GET requests.
+   * Enabled by default.
+   */
+  coalesceRequests?: boolean;
+  /**
+   * Circuit breaker consulted before every attempt. While it is open, requests fail fast with a
+   * {@link CircuitOpenError} instead of waiting for rate-limiter tokens or retrying.
+   */
+  circuitBreaker?: CircuitBreaker;
+  /**
+   * Cap on attempts in flight at once. Pass a number for a limit local to this client or a
+   * {@link ConcurrencyLimiter} shared between clients. Waiting callers honour `signal` and
+   * `priority`. Unlimited by default.
+   */
+  maxConcurrent?: number | ConcurrencyLimiter;
+  /**
+   * Attach a generated `Idempotency-Key` to every POST that has none, reusing it across retries so
+   * creates can be retried safely. Enabled by default.
+   */
+  autoIdempotencyKeys?: boolean;
+  /**
+   * Store mutations that cannot reach the API and replay them in order once it answers again.
+   * Stored calls reject with {@link OutboxQueuedError}. An outbox serves a single client.
+   */
+  outbox?: Outbox;
+  /**
+   * Check query parameters and JSON bodies against the spec before sending, so malformed calls
+   * fail with a {@link ValidationError} listing every violation instead of costing a round-trip
+   * and a rate-limiter token. Disabled by default.
+   */
+  validateRequests?: boolean;
+  /**
+   * Compare success responses with the spec to detect API drift. `"warn"` logs a
+   * `request.schemaMismatch` event listing unknown, missing, and mistyped fields; `"strict"` throws
+   * a {@link SchemaMismatchError} instead of returning the payload of a read. Writes (POST, PUT,
+   * PATCH, DELETE) are only logged, as the server has already applied them. Defaults to `"off"`.
+   */
+  responseValidation?: ResponseValidationMode;
 }
 
+/**
+ * How {@link HttpClient} reacts to responses that do not match the spec.
+ */
+export type ResponseValidationMode = "off" | "warn" | "strict";
+
 /**
  * Per-request overrides that extend the underlying axios request configuration.
  */
@@ -54,30 +194,118 @@ export interface HttpRequestOptions<T = unknown> extends AxiosRequestConfig<T> {
    */
   authToken?: string;
   /**
-   * Include an Idempotency-Key header to support safe retries for non-idempotent verbs.
+   * Include an Idempotency-Key header to support safe retries for non-idempotent verbs. POSTs get
+   * a generated key when omitted unless `autoIdempotencyKeys` is disabled; it is set before
+   * middleware runs, so middleware sees it on `ctx.options`.
    */
   idempotencyKey?: string;
   /**
    * Skip acquiring a rate-limiter token for this request.
    */
   useRateLimiter?: boolean;
+  /**
+   * Rate-limiter queue lane for this request. Defaults to `"normal"`.
+   */
+  priority?: RequestPriority;
+  /**
+   * Override the client's retry settings for this request, e.g. `{ retries: 0 }` for a
+   * latency-sensitive call.
+   */
+  retry?: RequestRetryOptions;
+  /**
+   * Rate-limit partition for multi-tenant clients using a {@link PartitionedRateLimiter}.
+   * Defaults to a hash of the bearer token.
+   */
+  tenantKey?: string;
+  /**
+   * OpenAPI `operationId` reported in traces. Resolved from the method and URL when omitted.
+   */
+  operationId?: string;
+  /**
+   * Set to `false` to bypass the response cache for this request.
+   */
+  cache?: boolean;
+  /**
+   * Absolute time (a `Date` or epoch milliseconds) by which the whole call must settle,
+   * including rate-limiter and concurrency waits, every attempt, and retry backoff. The call is
+   * aborted and rejects with a {@link DeadlineExceededError} once it passes.
+   */
+  deadline?: Date | number;
+  /**
+   * Relative alternative to `deadline`, in milliseconds from the start of the call. Unlike
+   * `timeoutMs`, which applies to each attempt, it is not reset between retries. When both are
+   * set, the earlier deadline wins.
+   */
+  totalTimeoutMs?: number;
 }
 
-const IDEMPOTENT_METHODS = new Set(["GET", "PUT", "PATCH", "DELETE"]);
-const BASE_DELAY_MS = 200;
-const MAX_DELAY_MS = 8_000;
+/**
+ * Per-request observability state threaded through the send pipeline.
+ */
+interface RequestTelemetry {
+  operationId?: string;
+  span?: Span;
+  /** Set when the caller bounded the request with `deadline` or `totalTimeoutMs`. */
+  deadline?: Deadline;
+}
+
+/**
+ * Retry settings in effect for one request, after applying per-call overrides.
+ */
+interface ResolvedRetry {
+  retries: number;
+  allowPostRetry: boolean;
+  policy: RetryPolicy;
+  retryableStatuses?: readonly number[];
+  maxRetryAfterMs: number;
+  onRetry?: RetryOptions["onRetry"];
+}
+
+/**
+ * Network call shared by concurrent identical GET requests.
+ */
+interface InFlightRequest {
+  promise: Promise<AxiosResponse>;
+  controller: AbortController;
+  /** Callers still waiting for the result. */
+  waiting: number;
+  /** Callers that joined over the lifetime of the request. */
+  joined: number;
+}
+
+const MAX_RETRY_AFTER_MS = 8_000;
+/** Methods whose responses `responseValidation: "strict"` may reject without hiding a change. */
+const SAFE_METHODS = new Set(["GET", "HEAD", "OPTIONS"]);
 
 /**
  * HTTP abstraction that layers CompanyCam specific defaults - timeouts, retries, rate limiting,
- * and bearer authentication - on top of axios.
+ * and bearer authentication - on top of a pluggable {@link Transport} (axios by default).
  */
 export class HttpClient {
-  private readonly axiosInstance: AxiosInstance;
-  private readonly rateLimiter: RateLimiter | null;
+  private readonly transport: Transport;
+  private readonly baseURL?: string;
+  private readonly timeoutMs: number;
+  private readonly rateLimiter: RateLimiterLike | null;
   private readonly ownsRateLimiter: boolean;
   private readonly defaultHeaders: Record<string, string>;
-  private readonly allowPostRetry: boolean;
+  private readonly retry: ResolvedRetry;
+  private readonly retryBudget?: RetryBudget;
   private readonly authToken?: string;
+  private readonly middleware: Middleware[];
+  private readonly logger?: Logger;
+  /** `undefined` until the default tracer has been loaded. */
+  private tracer?: Tracer | null;
+  private readonly metrics?: Metrics;
+  private readonly cache?: HttpCache;
+  private readonly coalesceRequests: boolean;
+  private readonly inFlight = new Map<string, InFlightRequest>();
+  private readonly circuitBreaker?: CircuitBreaker;
+  private readonly concurrencyLimiter?: ConcurrencyLimiter;
+  private readonly ownsConcurrencyLimiter: boolean;
+  private readonly autoIdempotencyKeys: boolean;
+  private readonly outbox?: Outbox;
+  private readonly validateRequests: boolean;
+  private readonly responseValidation: ResponseValidationMode;
 
   /**
    * Create a new HTTP client instance.
@@ -92,32 +320,51 @@ export class HttpClient {
       ...(config.defaultHeaders ?? {}),
     };
 
-    const timeout = config.timeoutMs ?? 30_000;
-    this.axiosInstance = axios.create({
-      baseURL: config.baseURL,
-      timeout,
-      ...config.axiosOptions,
-    });
-
-    Object.assign(
-      this.axiosInstance.defaults.headers.common,
-      this.defaultHeaders
-    );
-    if (this.authToken) {
-      this.axiosInstance.defaults.headers.common.Authorization = `Bearer ${this.authToken}`;
-    }
+    // Explicit axios options keep precedence, matching how they override the instance defaults.
+    this.baseURL = config.axiosOptions?.baseURL ?? config.baseURL;
+    this.timeoutMs = config.axiosOptions?.timeout ?? config.timeoutMs ?? 30_000;
+    this.transport =
+      config.transport ??
+      new AxiosTransport({
+        baseURL: config.baseURL,
+        timeout: config.timeoutMs ?? 30_000,
+        ...config.axiosOptions,
+      });
 
     const retryConfig = config.retry ?? {};
-    this.allowPostRetry = retryConfig.allowPostRetry ?? false;
-
-    axiosRetry(this.axiosInstance, {
-      retries: retryConfig.retries ?? 3,
-      shouldResetTimeout: true,
-      retryCondition: (error) => this.shouldRetry(error),
-      retryDelay: (retryCount, error) =>
-        this.computeRetryDelay(retryCount, error),
+    this.retry = {
+      retries: Math.max(0, retryConfig.retries ?? 3),
+      allowPostRetry: retryConfig.allowPostRetry ?? false,
+      policy: retryConfig.policy ?? exponentialBackoff(),
+      retryableStatuses: retryConfig.retryableStatuses,
+      maxRetryAfterMs: Math.max(0, retryConfig.maxRetryAfterMs ?? MAX_RETRY_AFTER_MS),
       onRetry: retryConfig.onRetry,
-    });
+    };
+    this.retryBudget =
+      retryConfig.budget instanceof RetryBudget || retryConfig.budget === undefined
+        ? retryConfig.budget
+        : new RetryBudget(retryConfig.budget);
+
+    this.middleware = [...(config.middleware ?? [])];
+    this.logger = config.logger;
+    this.tracer = config.tracer;
+    this.metrics = config.metrics;
+    this.cache = config.cache ? new HttpCache(config.cache) : undefined;
+    this.coalesceRequests = config.coalesceRequests ?? true;
+    this.circuitBreaker = config.circuitBreaker;
+    this.autoIdempotencyKeys = config.autoIdempotencyKeys ?? true;
+    this.outbox = config.outbox;
+    this.validateRequests = config.validateRequests ?? false;
+    this.responseValidation = config.responseValidation ?? "off";
+    if (typeof config.maxConcurrent === "number") {
+      this.concurrencyLimiter = new ConcurrencyLimiter({
+        maxConcurrent: config.maxConcurrent,
+      });
+      this.ownsConcurrencyLimiter = true;
+    } else {
+      this.concurrencyLimiter = config.maxConcurrent;
+      this.ownsConcurrencyLimiter = false;
+    }
 
     if (config.rateLimiter === null) {
       this.rateLimiter = null;
@@ -126,9 +373,24 @@ export class HttpClient {
       this.rateLimiter = config.rateLimiter;
       this.ownsRateLimiter = false;
     } else {
-      this.rateLimiter = new RateLimiter();
+      this.rateLimiter = new RateLimiter({ metrics: this.metrics });
       this.ownsRateLimiter = true;
     }
+
+    // Last, so replays never run through a partially constructed client.
+    this.outbox?.attach(this);
+  }
+
+  /**
+   * Append middleware to the end of the chain. Middleware runs in registration order, before
+   * the rate limiter, and sees the SDK-level request options plus the final response or error.
+   *
+   * @param middleware Middleware to register.
+   * @returns This client, to allow chaining.
+   */
+  use(middleware: Middleware): this {
+    this.middleware.push(middleware);
+    return this;
   }
 
   /**
@@ -142,34 +404,511 @@ export class HttpClient {
   async request<T = unknown, D = unknown>(
     options: HttpRequestOptions<D>
   ): Promise<AxiosResponse<T>> {
-    const useLimiter = options.useRateLimiter ?? true;
-    const signal = options.signal;
+    // Generated once per logical request, before middleware, so every `next()` call and every
+    // retry sends the same key.
+    const keyed =
+      options.idempotencyKey === undefined &&
+      this.autoIdempotencyKeys &&
+      options.method?.toUpperCase() === "POST"
+        ? { ...options, idempotencyKey: createIdempotencyKey() }
+        : options;
+    const context: MiddlewareContext = { options: keyed, state: {} };
+    const run = composeMiddleware(this.middleware, (ctx) => {
+      if (this.validateRequests) {
+        this.validate(ctx.options);
+      }
+      return this.outbox
+        ? this.outbox.dispatch(ctx.options, (options) => this.send(options))
+        : this.send(ctx.options);
+    });
+    return (await run(context)) as AxiosResponse<T>;
+  }
+
+  /**
+   * In-flight and queued attempts when `maxConcurrent` is configured.
+   */
+  concurrency(): ConcurrencySnapshot | undefined {
+    return this.concurrencyLimiter?.snapshot();
+  }
 
-    if (useLimiter && this.rateLimiter) {
-      await this.rateLimiter.acquire(signal);
+  /**
+   * Dispose of owned resources such as the internal rate limiter.
+   */
+  dispose(): void {
+    if (this.ownsRateLimiter) {
+      this.rateLimiter?.dispose();
     }
+    if (this.ownsConcurrencyLimiter) {
+      this.concurrencyLimiter?.dispose();
+    }
+    this.transport.dispose?.();
+  }
 
-    const requestConfig = this.prepareRequestConfig(options);
+  /**
+   * Reject requests that do not match the spec for their operation, before they are queued or sent.
+   */
+  private validate(options: HttpRequestOptions<unknown>): void {
+    const operationId =
+      options.operationId ?? resolveOperation(options.method, options.url)?.operationId;
+    if (operationId) {
+      assertValidRequest(operationId, options);
+    }
+  }
 
+  /**
+   * Terminal step of the middleware chain: acquire a limiter token and dispatch through the transport.
+   */
+  private async send<T = unknown, D = unknown>(
+    options: HttpRequestOptions<D>
+  ): Promise<AxiosResponse<T>> {
+    const deadline = Deadline.fromOptions(options);
+    // The deadline's signal also aborts when the caller's signal does.
+    const scoped = deadline ? { ...options, signal: deadline.signal } : options;
+    const requestConfig = this.prepareRequestConfig(scoped);
+    const operationId =
+      options.operationId ??
+      resolveOperation(requestConfig.method, requestConfig.url)?.operationId;
+    const run = (telemetry: RequestTelemetry) => {
+      const task = () => this.executeWithCache<T, D>(scoped, requestConfig, telemetry);
+      return deadline ? deadline.run(task) : task();
+    };
+
+    if (this.tracer === undefined) {
+      const loaded = loadDefaultTracer();
+      this.tracer = loaded instanceof Promise ? await loaded : loaded;
+    }
+    const tracer = this.tracer;
+    if (!tracer) {
+      return run({ operationId, deadline });
+    }
+
+    const method = (requestConfig.method ?? "GET").toUpperCase();
+    return tracer.startActiveSpan(
+      operationId ?? method,
+      {
+        kind: SPAN_KIND_CLIENT,
+        attributes: {
+          "http.request.method": method,
+          "url.path": requestConfig.url ?? "",
+          ...(operationId ? { "companycam.operation_id": operationId } : {}),
+        },
+      },
+      async (span) => {
+        try {
+          const response = await run({ operationId, span, deadline });
+          span.setAttribute("http.response.status_code", response.status);
+          const requestId = extractRequestId(
+            response.headers as Record<string, unknown>
+          );
+          if (requestId) {
+            span.setAttribute("companycam.request_id", requestId);
+          }
+          return response;
+        } catch (error) {
+          recordFailure(span, error);
+          throw error;
+        } finally {
+          span.end();
+        }
+      }
+    );
+  }
+
+  /**
+   * Serve GETs from the response cache when possible, revalidating stale entries, and invalidate
+   * cached paths after mutations. Falls through to {@link execute} when caching is disabled.
+   */
+  private async executeWithCache<T, D>(
+    options: HttpRequestOptions<D>,
+    requestConfig: AxiosRequestConfig<D>,
+    telemetry: RequestTelemetry
+  ): Promise<AxiosResponse<T>> {
+    const cache = this.cache;
+    if (!cache) {
+      return this.dispatch<T, D>(options, requestConfig, telemetry);
+    }
+
+    if (!cache.isCacheable(requestConfig)) {
+      try {
+        return await this.dispatch<T, D>(options, requestConfig, telemetry);
+      } finally {
+        await cache.invalidate(requestConfig);
+      }
+    }
+
+    if (options.cache === false) {
+      return this.dispatch<T, D>(options, requestConfig, telemetry);
+    }
+
+    const { key, entry, fresh } = await cache.lookup(requestConfig);
+    if (entry && fresh) {
+      telemetry.span?.setAttribute("companycam.cache", "hit");
+      return responseFromCache<T>(entry, requestConfig);
+    }
+
+    const config: AxiosRequestConfig<D> = entry
+      ? {
+          ...requestConfig,
+          headers: {
+            ...(requestConfig.headers as Record<string, string>),
+            ...cache.conditionalHeaders(entry),
+          },
+          validateStatus: (status) =>
+            (status >= 200 && status < 300) || status === 304,
+        }
+      : requestConfig;
+    const response = await this.dispatch<T, D>(options, config, telemetry);
+
+    if (entry && response.status === 304) {
+      telemetry.span?.setAttribute("companycam.cache", "revalidated");
+      const refreshed = await cache.save(key, requestConfig, response, entry);
+      return responseFromCache<T>(refreshed ?? entry, requestConfig);
+    }
+
+    await cache.save(key, requestConfig, response);
+    return response;
+  }
+
+  /**
+   * Run the request, letting concurrent identical GETs with the same scheduling and retry options
+   * share a single {@link execute} call. The shared call has its own abort controller and is only
+   * cancelled once every caller has aborted.
+   */
+  private dispatch<T, D>(
+    options: HttpRequestOptions<D>,
+    requestConfig: AxiosRequestConfig<D>,
+    telemetry: RequestTelemetry
+  ): Promise<AxiosResponse<T>> {
+    const key =
+      this.coalesceRequests &&
+      !options.signal?.aborted &&
+      (requestConfig.method ?? "GET").toUpperCase() === "GET"
+        ? coalescingKey(requestConfig, options)
+        : undefined;
+    if (key === undefined) {
+      return this.execute<T, D>(options, requestConfig, telemetry);
+    }
+
+    let shared = this.inFlight.get(key);
+    if (shared?.controller.signal.aborted) {
+      // Every earlier caller gave up; start a fresh request instead of joining a cancelled one.
+      shared = undefined;
+    }
+    if (shared) {
+      telemetry.span?.setAttribute("companycam.coalesced", true);
+    } else {
+      const controller = new AbortController();
+      const request: InFlightRequest = {
+        controller,
+        waiting: 0,
+        joined: 0,
+        // Each caller's deadline applies to its own wait in joinInFlight, not to the shared call.
+        promise: this.execute<unknown, D>(
+          { ...options, signal: controller.signal },
+          { ...requestConfig, signal: controller.signal },
+          { ...telemetry, deadline: undefined }
+        ).finally(() => {
+          if (this.inFlight.get(key) === request) {
+            this.inFlight.delete(key);
+          }
+        }),
+      };
+      // Callers attach their own handlers; this guard covers the case where all of them aborted.
+      request.promise.catch(() => undefined);
+      this.inFlight.set(key, request);
+      shared = request;
+    }
+
+    return joinInFlight(shared, options.signal) as Promise<AxiosResponse<T>>;
+  }
+
+  private async execute<T, D>(
+    options: HttpRequestOptions<D>,
+    requestConfig: AxiosRequestConfig<D>,
+    telemetry: RequestTelemetry
+  ): Promise<AxiosResponse<T>> {
+    const { span } = telemetry;
+    const startedAt = Date.now();
+    const useLimiter = options.useRateLimiter ?? true;
+    const signal = options.signal;
+    const scheduling: AcquireOptions = {
+      priority: options.priority,
+      partitionKey: this.partitionKey(options),
+    };
+
+    this.log("debug", "request.start", requestConfig, {
+      params: requestConfig.params,
+      headers: redactHeaders(requestConfig.headers as Record<string, unknown>),
+      body: redactPayload(requestConfig.data),
+    });
+
+    let response: AxiosResponse<T>;
     try {
-      return await this.axiosInstance.request<T, AxiosResponse<T>, D>(
-        requestConfig
+      // Fail fast instead of queueing for a token that would only feed a failing API.
+      this.circuitBreaker?.check();
+
+      if (useLimiter && this.rateLimiter) {
+        const waitStartedAt = Date.now();
+        await this.rateLimiter.acquire(signal, scheduling);
+        const waitedMs = Date.now() - waitStartedAt;
+        this.metrics?.recordRateLimiterWait(waitedMs);
+        span?.addEvent("rate_limiter.wait", {
+          "companycam.rate_limiter.wait_ms": waitedMs,
+        });
+        if (waitedMs > 0) {
+          this.log("debug", "request.rateLimitWait", requestConfig, {
+            durationMs: waitedMs,
+          });
+        }
+      }
+
+      response = await this.sendWithRetries<T, D>(
+        requestConfig,
+        telemetry,
+        scheduling,
+        this.resolveRetry(options.retry)
       );
+      this.metrics?.recordRequest({
+        ...metricLabels(requestConfig, telemetry),
+        status: response.status,
+        durationMs: Date.now() - startedAt,
+      });
+      this.log("info", "request.response", requestConfig, {
+        status: response.status,
+        durationMs: Date.now() - startedAt,
+        requestId: extractRequestId(
+          response.headers as Record<string, unknown>
+        ),
+      });
     } catch (error) {
-      if (isAxiosError(error)) {
-        throw APIError.fromAxios(error);
+      const failure = isAxiosError(error) ? APIError.fromAxios(error) : error;
+      this.metrics?.recordRequest({
+        ...metricLabels(requestConfig, telemetry),
+        status: failure instanceof APIError ? failure.status : undefined,
+        durationMs: Date.now() - startedAt,
+      });
+      this.log("error", "request.error", requestConfig, {
+        status: failure instanceof APIError ? failure.status : undefined,
+        durationMs: Date.now() - startedAt,
+        requestId: failure instanceof APIError ? failure.requestId : undefined,
+        error: summarizeError(failure),
+      });
+      throw failure;
+    }
+
+    this.checkResponse(response, requestConfig, telemetry);
+    return response;
+  }
+
+  /**
+   * Compare a success response with the spec when `responseValidation` is enabled. Runs once per
+   * network response, so cache hits and coalesced callers are not reported twice. Strict mode only
+   * throws for reads: failing a write the server applied would invite a duplicate on retry.
+   */
+  private checkResponse(
+    response: AxiosResponse,
+    requestConfig: AxiosRequestConfig,
+    telemetry: RequestTelemetry
+  ): void {
+    const { operationId } = telemetry;
+    if (
+      this.responseValidation === "off" ||
+      !operationId ||
+      response.status < 200 ||
+      response.status >= 300
+    ) {
+      return;
+    }
+
+    const violations = validateResponse(operationId, response.data);
+    if (violations.length === 0) {
+      return;
+    }
+    const requestId = extractRequestId(response.headers as Record<string, unknown>);
+    const method = (requestConfig.method ?? "GET").toUpperCase();
+    if (this.responseValidation === "strict" && SAFE_METHODS.has(method)) {
+      throw new SchemaMismatchError(operationId, violations, {
+        status: response.status,
+        requestId,
+      });
+    }
+    this.log("warn", "request.schemaMismatch", requestConfig, {
+      status: response.status,
+      requestId,
+      operationId,
+      violations,
+    });
+  }
+
+  /**
+   * Send the request through the transport, retrying eligible failures with backoff. Every
+   * attempt gets the full timeout and aborting the signal cuts any pending backoff short.
+   */
+  private async sendWithRetries<T, D>(
+    config: AxiosRequestConfig<D>,
+    telemetry: RequestTelemetry,
+    scheduling: AcquireOptions,
+    retry: ResolvedRetry
+  ): Promise<AxiosResponse<T>> {
+    const { span } = telemetry;
+    span?.setAttribute("http.request.resend_count", 0);
+    this.retryBudget?.recordRequest();
+    let previousDelayMs = 0;
+    for (let retryCount = 0; ; retryCount += 1) {
+      this.circuitBreaker?.acquire();
+      try {
+        const response = await this.sendWithSlot<T, D>(config, scheduling);
+        this.circuitBreaker?.recordSuccess();
+        // Limiters supplied by callers may not implement adaptive feedback.
+        this.rateLimiter?.observe?.({
+          status: response.status,
+          headers: response.headers as Record<string, unknown>,
+          partitionKey: scheduling.partitionKey,
+        });
+        return response;
+      } catch (error) {
+        this.recordCircuitOutcome(error);
+        if (isAxiosError(error) && error.response) {
+          this.rateLimiter?.observe?.({
+            status: error.response.status,
+            headers: error.response.headers as Record<string, unknown>,
+            partitionKey: scheduling.partitionKey,
+          });
+        }
+        if (isAxiosError(error) && error.response?.status === 429) {
+          this.metrics?.recordRateLimited({
+            ...metricLabels(config, telemetry),
+            status: 429,
+          });
+        }
+        if (
+          retryCount >= retry.retries ||
+          !isAxiosError(error) ||
+          !this.shouldRetry(error, retry)
+        ) {
+          throw error;
+        }
+
+        const delay = this.computeRetryDelay(
+          retryCount + 1,
+          error,
+          retry,
+          previousDelayMs
+        );
+        const status = error.response?.status;
+        if (delay === null) {
+          throw error;
+        }
+        if (telemetry.deadline && delay >= telemetry.deadline.remainingMs()) {
+          // Sleeping would only end at the deadline; fail now with this attempt as the cause.
+          telemetry.deadline.expire();
+          throw error;
+        }
+        if (this.retryBudget && !this.retryBudget.tryRetry()) {
+          this.log("warn", "request.retryBudgetExhausted", config, {
+            status,
+            retryCount: retryCount + 1,
+            error: summarizeError(error),
+          });
+          throw error;
+        }
+        previousDelayMs = delay;
+        this.log("warn", "request.retry", config, {
+          status,
+          requestId: extractRequestId(
+            error.response?.headers as Record<string, unknown> | undefined
+          ),
+          retryCount: retryCount + 1,
+          delayMs: delay,
+          error: summarizeError(error),
+        });
+        span?.addEvent("retry", {
+          "http.request.resend_count": retryCount + 1,
+          "companycam.retry.delay_ms": delay,
+          "error.type": status !== undefined ? String(status) : error.code ?? error.name,
+          ...(status !== undefined ? { "http.response.status_code": status } : {}),
+        });
+        span?.setAttribute("http.request.resend_count", retryCount + 1);
+        this.metrics?.recordRetry({ ...metricLabels(config, telemetry), status });
+        retry.onRetry?.(retryCount + 1, error, config);
+        await waitForRetry(delay, config.signal);
       }
-      throw error;
     }
   }
 
+  private recordCircuitOutcome(error: unknown): void {
+    const breaker = this.circuitBreaker;
+    if (!breaker) {
+      return;
+    }
+
+    if (!isAxiosError(error) || error.code === "ERR_CANCELED") {
+      breaker.release();
+    } else if (!error.response || error.response.status >= 500) {
+      // Network errors and timeouts have no response.
+      breaker.recordFailure();
+    } else {
+      breaker.recordSuccess();
+    }
+  }
+
+  private log(
+    level: keyof Logger,
+    event: HttpLogEvent["event"],
+    config: AxiosRequestConfig,
+    fields: Partial<HttpLogEvent>
+  ): void {
+    if (!this.logger) {
+      return;
+    }
+
+    const method = (config.method ?? "GET").toUpperCase();
+    const url = config.url ?? "";
+    this.logger[level]({
+      ...fields,
+      event,
+      message: `${event} ${method} ${url}`,
+      method,
+      url,
+    });
+  }
+
   /**
-   * Dispose of owned resources such as the internal rate limiter.
+   * Send one attempt while holding a concurrency slot, so backoff between retries does not
+   * occupy a slot.
    */
-  dispose(): void {
-    if (this.ownsRateLimiter) {
-      this.rateLimiter?.dispose();
+  private async sendWithSlot<T, D>(
+    config: AxiosRequestConfig<D>,
+    scheduling: AcquireOptions
+  ): Promise<AxiosResponse<T>> {
+    if (!this.concurrencyLimiter) {
+      return this.transport.send<T, D>(config);
+    }
+
+    const release = await this.concurrencyLimiter.acquire(
+      config.signal as AbortSignalLike | undefined,
+      { priority: scheduling.priority }
+    );
+    try {
+      return await this.transport.send<T, D>(config);
+    } finally {
+      release();
+    }
+  }
+
+  /**
+   * Rate-limit partition of a request, for limiters that read one. Tokens are hashed so they never
+   * end up in limiter state.
+   */
+  private partitionKey(options: HttpRequestOptions<unknown>): string | undefined {
+    if (!this.rateLimiter?.partitioned) {
+      return undefined;
+    }
+    if (options.tenantKey) {
+      return options.tenantKey;
     }
+    const token = options.authToken ?? this.authToken;
+    return token ? `token:${sha256(token)}` : undefined;
   }
 
   private prepareRequestConfig<D>(
@@ -179,6 +918,13 @@ export class HttpClient {
       authToken,
       idempotencyKey,
       useRateLimiter,
+      priority,
+      tenantKey,
+      retry,
+      operationId,
+      cache,
+      deadline,
+      totalTimeoutMs,
       headers,
       ...axiosConfig
     } = options;
@@ -203,74 +949,219 @@ export class HttpClient {
       mergedHeaders.Authorization = `Bearer ${token}`;
     }
     if (idempotencyKey) {
-      mergedHeaders["Idempotency-Key"] = idempotencyKey;
+      mergedHeaders[IDEMPOTENCY_KEY_HEADER] = idempotencyKey;
     }
 
     return {
+      baseURL: this.baseURL,
+      timeout: this.timeoutMs,
       ...axiosConfig,
       headers: mergedHeaders,
     };
   }
 
-  private shouldRetry(error: AxiosError): boolean {
-    const method = error.config?.method?.toUpperCase();
-    const status = error.response?.status;
-
-    const isMethodRetryable =
-      !method ||
-      IDEMPOTENT_METHODS.has(method) ||
-      (this.allowPostRetry && method === "POST");
-
-    if (!isMethodRetryable) {
-      return false;
-    }
-
-    if (
-      status === 408 ||
-      status === 429 ||
-      (status !== undefined && status >= 500)
-    ) {
-      return true;
+  /**
+   * Merge per-call retry overrides over the client defaults.
+   */
+  private resolveRetry(overrides: RequestRetryOptions | undefined): ResolvedRetry {
+    if (!overrides) {
+      return this.retry;
     }
+    return {
+      retries: Math.max(0, overrides.retries ?? this.retry.retries),
+      allowPostRetry: overrides.allowPostRetry ?? this.retry.allowPostRetry,
+      policy: overrides.policy ?? this.retry.policy,
+      retryableStatuses: overrides.retryableStatuses ?? this.retry.retryableStatuses,
+      maxRetryAfterMs: Math.max(
+        0,
+        overrides.maxRetryAfterMs ?? this.retry.maxRetryAfterMs
+      ),
+      onRetry: overrides.onRetry ?? this.retry.onRetry,
+    };
+  }
 
-    return isNetworkError(error);
+  private shouldRetry(error: AxiosError, retry: ResolvedRetry = this.retry): boolean {
+    return isRetryableFailure(
+      {
+        method: error.config?.method,
+        status: error.response?.status,
+        hasIdempotencyKey: extractIdempotencyKey(error.config?.headers) !== undefined,
+        networkError: isNetworkError(error),
+        // axios-retry leaves timeouts out of its network errors.
+        timeout: !error.response && error.code === TransportErrorCode.Timeout,
+      },
+      retry
+    );
   }
 
-  private computeRetryDelay(retryCount: number, error: AxiosError): number {
+  /**
+   * Delay before the next retry: the server's `Retry-After` hint (capped) when present, otherwise
+   * the policy's backoff. `null` means the policy gave up.
+   */
+  private computeRetryDelay(
+    retryCount: number,
+    error: AxiosError,
+    retry: ResolvedRetry = this.retry,
+    previousDelayMs = 0
+  ): number | null {
+    const backoff = retry.policy.nextDelay({
+      retryCount,
+      error,
+      config: error.config ?? {},
+      previousDelayMs,
+    });
+    if (backoff === null) {
+      return null;
+    }
+
     const retryAfter = this.getRetryAfterDelay(error);
     if (retryAfter !== null) {
-      return Math.min(retryAfter, MAX_DELAY_MS);
+      return Math.min(retryAfter, retry.maxRetryAfterMs);
     }
+    return Math.max(0, backoff);
+  }
 
-    const exponential = Math.min(
-      MAX_DELAY_MS,
-      BASE_DELAY_MS * 2 ** Math.max(0, retryCount - 1)
+  private getRetryAfterDelay(error: AxiosError): number | null {
+    return (
+      parseRetryAfter(
+        error.response?.headers as Record<string, unknown> | undefined
+      ) ?? null
     );
-    const jitter = Math.random() * exponential * 0.2;
-    return exponential + jitter;
   }
+}
 
-  private getRetryAfterDelay(error: AxiosError): number | null {
-    const header = error.response?.headers?.["retry-after"];
-    if (!header) {
-      return null;
-    }
+function summarizeError(error: unknown): HttpLogEvent["error"] {
+  if (error instanceof Error) {
+    const code = (error as { code?: unknown }).code;
+    return {
+      name: error.name,
+      message: error.message,
+      code: typeof code === "string" ? code : undefined,
+    };
+  }
+  return { name: "Error", message: String(error) };
+}
 
-    const headerValue = Array.isArray(header) ? header[0] : header;
-    if (!headerValue) {
-      return null;
-    }
+/**
+ * Wait for a shared request on behalf of one caller. Aborting `signal` rejects only this caller
+ * while others are still waiting; when the last caller aborts, the shared request itself is
+ * cancelled and fails exactly as an uncoalesced request would. When several callers joined,
+ * each receives its own copy of the payload.
+ */
+function joinInFlight(
+  shared: InFlightRequest,
+  signal: AxiosRequestConfig["signal"]
+): Promise<AxiosResponse> {
+  shared.waiting += 1;
+  shared.joined += 1;
+  const isFirst = shared.joined === 1;
 
-    const seconds = Number(headerValue);
-    if (Number.isFinite(seconds)) {
-      return Math.max(0, seconds * 1000);
-    }
+  return new Promise((resolve, reject) => {
+    let settled = false;
+    const leave = () => {
+      settled = true;
+      signal?.removeEventListener?.("abort", onAbort);
+    };
+    const onAbort = () => {
+      if (settled) {
+        return;
+      }
+      if (shared.waiting === 1) {
+        // Last caller: cancel the underlying request and surface its cancellation error.
+        shared.controller.abort();
+        return;
+      }
+      leave();
+      shared.waiting -= 1;
+      reject(createAbortError());
+    };
+    signal?.addEventListener?.("abort", onAbort);
 
-    const date = Date.parse(headerValue);
-    if (Number.isNaN(date)) {
-      return null;
+    shared.promise.then(
+      (response) => {
+        if (settled) {
+          return;
+        }
+        leave();
+        shared.waiting -= 1;
+        resolve(
+          isFirst && shared.joined === 1
+            ? response
+            : { ...response, data: cloneData(response.data) }
+        );
+      },
+      (error: unknown) => {
+        if (settled) {
+          return;
+        }
+        leave();
+        shared.waiting -= 1;
+        reject(error);
+      }
+    );
+  });
+}
+
+function metricLabels(
+  config: AxiosRequestConfig,
+  telemetry: RequestTelemetry
+): { operation: string; method: string } {
+  return {
+    operation: telemetry.operationId ?? "unknown",
+    method: (config.method ?? "GET").toUpperCase(),
+  };
+}
+
+/**
+ * Mark a span as failed, recording the status, request id, and exception of the final error.
+ */
+function recordFailure(span: Span, error: unknown): void {
+  if (error instanceof APIError) {
+    if (error.status !== undefined) {
+      span.setAttribute("http.response.status_code", error.status);
     }
+    if (error.requestId) {
+      span.setAttribute("companycam.request_id", error.requestId);
+    }
+  }
+  span.setAttribute(
+    "error.type",
+    error instanceof APIError && error.status !== undefined
+      ? String(error.status)
+      : error instanceof Error
+        ? error.name
+        : "Error"
+  );
+  if (error instanceof Error) {
+    span.recordException(error);
+  }
+  span.setStatus({
+    code: SPAN_STATUS_ERROR,
+    message: error instanceof Error ? error.message : String(error),
+  });
+}
 
-    return Math.max(0, date - Date.now());
+/**
+ * Sleep for the retry backoff, resolving early when the request is aborted so the next attempt
+ * fails fast with a cancellation error instead of waiting out the delay.
+ */
+function waitForRetry(
+  delayMs: number,
+  signal: AxiosRequestConfig["signal"]
+): Promise<void> {
+  if (signal?.aborted) {
+    return Promise.resolve();
   }
+
+  return new Promise((resolve) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener?.("abort", onAbort);
+      resolve();
+    }, delayMs);
+    signal?.addEventListener?.("abort", onAbort);
+  });
 }
@@ -0,0 +1,35 @@
+/**
+ * Header carrying the idempotency key of a mutation.
+ */
+export const IDEMPOTENCY_KEY_HEADER = "Idempotency-Key";
+
+/**
+ * Generate a key for one logical create call. Generate it yourself and pass it as
+ * `RequestOptions.idempotencyKey` when you need to persist it before the request is sent.
+ *
+ * @returns A random UUID.
+ */
+export function createIdempotencyKey(): string {
+  // Web Crypto, available in Node.js 19+, Deno, Bun, Workers, and browsers.
+  return globalThis.crypto.randomUUID();
+}
+
+/**
+ * Read the idempotency key sent with a request.
+ *
+ * @param headers Request headers, as a plain object or axios headers.
+ * @returns The `Idempotency-Key` header value, if any.
+ */
+export function extractIdempotencyKey(headers?: unknown): string | undefined {
+  if (!headers || typeof headers !== "object") {
+    return undefined;
+  }
+
+  const name = IDEMPOTENCY_KEY_HEADER.toLowerCase();
+  for (const [key, value] of Object.entries(headers as Record<string, unknown>)) {
+    if (key.toLowerCase() === name && typeof value === "string") {
+      return value;
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,70 @@
+import type { SchemaViolation } from "./SchemaValidation.js";
+
+/**
+ * Structured event passed to a {@link Logger}. Every event carries a stable `event` name and a
+ * short human readable `message`; the remaining fields depend on the event.
+ */
+export interface LogEvent {
+  event: string;
+  message: string;
+  [field: string]: unknown;
+}
+
+/**
+ * Names of the events emitted by {@link HttpClient} over the lifetime of a request.
+ */
+export type HttpLogEventName =
+  | "request.start"
+  | "request.rateLimitWait"
+  | "request.retry"
+  | "request.retryBudgetExhausted"
+  | "request.response"
+  | "request.schemaMismatch"
+  | "request.error";
+
+/**
+ * Event emitted by {@link HttpClient}. Credentials in `headers` and secrets in `body`
+ * (OAuth `client_secret` / `refresh_token`, webhook `token`, passwords) are already redacted.
+ */
+export interface HttpLogEvent extends LogEvent {
+  event: HttpLogEventName;
+  /** Upper-cased HTTP method. */
+  method: string;
+  /** Request URL as passed to the client (relative to `baseURL`). */
+  url: string;
+  /** Query parameters sent with the request (`request.start` only). */
+  params?: unknown;
+  /** Redacted request headers (`request.start` only). */
+  headers?: Record<string, unknown>;
+  /** Redacted request body (`request.start` only). */
+  body?: unknown;
+  /** HTTP status of the final response or failed attempt. */
+  status?: number;
+  /**
+   * Elapsed time in milliseconds: total time since the request started for `request.response`
+   * and `request.error`, time spent queued for `request.rateLimitWait`.
+   */
+  durationMs?: number;
+  /** Value of the `x-request-id` response header when present. */
+  requestId?: string;
+  /** 1-based retry attempt number (`request.retry` and `request.retryBudgetExhausted`). */
+  retryCount?: number;
+  /** Backoff applied before the retry attempt (`request.retry` only). */
+  delayMs?: number;
+  /** Summary of the failure (`request.retry`, `request.retryBudgetExhausted`, and `request.error`). */
+  error?: { name: string; message: string; code?: string };
+  /** OpenAPI operation whose response drifted from the spec (`request.schemaMismatch` only). */
+  operationId?: string;
+  /** Differences between the response body and the spec (`request.schemaMismatch` only). */
+  violations?: SchemaViolation[];
+}
+
+/**
+ * Minimal structured logger. Compatible with `console` and with object-first loggers such as pino.
+ */
+export interface Logger {
+  debug(event: LogEvent): void;
+  info(event: LogEvent): void;
+  warn(event: LogEvent): void;
+  error(event: LogEvent): void;
+}
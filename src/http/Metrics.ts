@@ -0,0 +1,322 @@
+/**
+ * Labels shared by the per-request metrics.
+ */
+export interface RequestMetricLabels {
+  /** OpenAPI `operationId` of the request, or `"unknown"` for requests outside the spec. */
+  operation: string;
+  /** Upper-cased HTTP method. */
+  method: string;
+}
+
+/**
+ * Sample recorded once per logical request, after retries have settled.
+ */
+export interface RequestMetricSample extends RequestMetricLabels {
+  /** Final HTTP status, or `undefined` when no response was received (network error, timeout, abort). */
+  status?: number;
+  /** Total time spent in the client, including rate-limiter waits and retries. */
+  durationMs: number;
+}
+
+/**
+ * Sample recorded for individual attempts (retries and throttled responses).
+ */
+export interface AttemptMetricSample extends RequestMetricLabels {
+  /** HTTP status of the failed attempt, when a response was received. */
+  status?: number;
+}
+
+/**
+ * Sink for client metrics. Implement it to forward measurements to StatsD, OpenTelemetry
+ * metrics, or any other backend; {@link InMemoryMetrics} is the built-in implementation.
+ */
+export interface Metrics {
+  /** A logical request finished, successfully or not. */
+  recordRequest(sample: RequestMetricSample): void;
+  /** A failed attempt is about to be retried. */
+  recordRetry(sample: AttemptMetricSample): void;
+  /** An attempt was rejected with HTTP 429. */
+  recordRateLimited(sample: AttemptMetricSample): void;
+  /** A request obtained a rate-limiter token after waiting `waitMs` milliseconds. */
+  recordRateLimiterWait(waitMs: number): void;
+  /** The number of callers queued in the rate limiter changed. */
+  recordQueueDepth(depth: number): void;
+}
+
+/**
+ * Counter value for one combination of labels.
+ */
+export interface CounterSample {
+  labels: Record<string, string>;
+  value: number;
+}
+
+/**
+ * Histogram state for one combination of labels. Values are in seconds and bucket counts are
+ * cumulative, matching the Prometheus data model.
+ */
+export interface HistogramSample {
+  labels: Record<string, string>;
+  buckets: Array<{ le: number; count: number }>;
+  sum: number;
+  count: number;
+}
+
+/**
+ * Point-in-time copy of everything recorded by {@link InMemoryMetrics}.
+ */
+export interface MetricsSnapshot {
+  /** Requests by `operation`, `method`, and `status` (`"error"` when no response was received). */
+  requests: CounterSample[];
+  /** Request latency in seconds by `operation` and `method`. */
+  requestDuration: HistogramSample[];
+  /** Retry attempts by `operation` and `method`. */
+  retries: CounterSample[];
+  /** HTTP 429 responses by `operation` and `method`, including those that were retried. */
+  rateLimited: CounterSample[];
+  /** Most recently reported number of callers waiting for a rate-limiter token. */
+  rateLimiterQueueDepth: number;
+  /** Time spent waiting for rate-limiter tokens, in seconds. */
+  rateLimiterWait: HistogramSample;
+}
+
+/**
+ * Options accepted by {@link InMemoryMetrics}.
+ */
+export interface InMemoryMetricsOptions {
+  /**
+   * Upper bounds, in seconds, of the latency and token-wait histogram buckets.
+   * Defaults to {@link DEFAULT_DURATION_BUCKETS}.
+   */
+  buckets?: number[];
+}
+
+/**
+ * Default histogram bucket bounds in seconds, spanning fast cached calls up to long
+ * rate-limited waits.
+ */
+export const DEFAULT_DURATION_BUCKETS = [
+  0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60,
+];
+
+interface Histogram {
+  labels: Record<string, string>;
+  counts: number[];
+  sum: number;
+  count: number;
+}
+
+/**
+ * {@link Metrics} implementation that aggregates counters and histograms in memory. Pass
+ * {@link InMemoryMetrics.snapshot} to {@link formatPrometheusMetrics} to serve a `/metrics` endpoint.
+ */
+export class InMemoryMetrics implements Metrics {
+  private readonly buckets: number[];
+  private readonly requests = new Map<string, CounterSample>();
+  private readonly requestDuration = new Map<string, Histogram>();
+  private readonly retries = new Map<string, CounterSample>();
+  private readonly rateLimited = new Map<string, CounterSample>();
+  private rateLimiterWait: Histogram;
+  private queueDepth = 0;
+
+  /**
+   * Create an empty metrics registry.
+   *
+   * @param options Optional histogram bucket overrides.
+   */
+  constructor(options: InMemoryMetricsOptions = {}) {
+    this.buckets = [...(options.buckets ?? DEFAULT_DURATION_BUCKETS)].sort(
+      (a, b) => a - b
+    );
+    this.rateLimiterWait = this.createHistogram({});
+  }
+
+  recordRequest(sample: RequestMetricSample): void {
+    const labels = requestLabels(sample);
+    increment(this.requests, {
+      ...labels,
+      status: sample.status === undefined ? "error" : String(sample.status),
+    });
+
+    const key = labelKey(labels);
+    let histogram = this.requestDuration.get(key);
+    if (!histogram) {
+      histogram = this.createHistogram(labels);
+      this.requestDuration.set(key, histogram);
+    }
+    this.observe(histogram, sample.durationMs / 1000);
+  }
+
+  recordRetry(sample: AttemptMetricSample): void {
+    increment(this.retries, requestLabels(sample));
+  }
+
+  recordRateLimited(sample: AttemptMetricSample): void {
+    increment(this.rateLimited, requestLabels(sample));
+  }
+
+  recordRateLimiterWait(waitMs: number): void {
+    this.observe(this.rateLimiterWait, waitMs / 1000);
+  }
+
+  recordQueueDepth(depth: number): void {
+    this.queueDepth = depth;
+  }
+
+  /**
+   * Copy the current values. Later recordings do not affect the returned snapshot.
+   */
+  snapshot(): MetricsSnapshot {
+    return {
+      requests: copyCounters(this.requests),
+      requestDuration: [...this.requestDuration.values()].map((histogram) =>
+        this.copyHistogram(histogram)
+      ),
+      retries: copyCounters(this.retries),
+      rateLimited: copyCounters(this.rateLimited),
+      rateLimiterQueueDepth: this.queueDepth,
+      rateLimiterWait: this.copyHistogram(this.rateLimiterWait),
+    };
+  }
+
+  /**
+   * Clear every counter and histogram.
+   */
+  reset(): void {
+    this.requests.clear();
+    this.requestDuration.clear();
+    this.retries.clear();
+    this.rateLimited.clear();
+    this.rateLimiterWait = this.createHistogram({});
+    this.queueDepth = 0;
+  }
+
+  private createHistogram(labels: Record<string, string>): Histogram {
+    return { labels, counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+  }
+
+  private observe(histogram: Histogram, value: number): void {
+    const index = this.buckets.findIndex((bound) => value <= bound);
+    if (index >= 0) {
+      histogram.counts[index] = (histogram.counts[index] ?? 0) + 1;
+    }
+    histogram.sum += value;
+    histogram.count += 1;
+  }
+
+  private copyHistogram(histogram: Histogram): HistogramSample {
+    let cumulative = 0;
+    return {
+      labels: { ...histogram.labels },
+      buckets: this.buckets.map((le, index) => {
+        cumulative += histogram.counts[index] ?? 0;
+        return { le, count: cumulative };
+      }),
+      sum: histogram.sum,
+      count: histogram.count,
+    };
+  }
+}
+
+/**
+ * Options accepted by {@link formatPrometheusMetrics}.
+ */
+export interface PrometheusFormatOptions {
+  /** Prefix prepended to every metric name. Defaults to `"companycam_"`. */
+  prefix?: string;
+}
+
+/**
+ * Render a metrics snapshot in the Prometheus text exposition format (version 0.0.4).
+ *
+ * @param snapshot Values captured with {@link InMemoryMetrics.snapshot}.
+ * @param options Optional metric name prefix.
+ * @returns Exposition text ending with a newline, ready to serve with
+ * `Content-Type: text/plain; version=0.0.4`.
+ */
+export function formatPrometheusMetrics(
+  snapshot: MetricsSnapshot,
+  options: PrometheusFormatOptions = {}
+): string {
+  const prefix = options.prefix ?? "companycam_";
+  const lines: string[] = [];
+
+  const header = (name: string, type: string, help: string) => {
+    lines.push(`# HELP ${prefix}${name} ${help}`, `# TYPE ${prefix}${name} ${type}`);
+  };
+  const counters = (name: string, samples: CounterSample[]) => {
+    for (const sample of samples) {
+      lines.push(`${prefix}${name}${formatLabels(sample.labels)} ${sample.value}`);
+    }
+  };
+  const histograms = (name: string, samples: HistogramSample[]) => {
+    for (const sample of samples) {
+      for (const bucket of sample.buckets) {
+        lines.push(
+          `${prefix}${name}_bucket${formatLabels({ ...sample.labels, le: String(bucket.le) })} ${bucket.count}`
+        );
+      }
+      lines.push(
+        `${prefix}${name}_bucket${formatLabels({ ...sample.labels, le: "+Inf" })} ${sample.count}`,
+        `${prefix}${name}_sum${formatLabels(sample.labels)} ${sample.sum}`,
+        `${prefix}${name}_count${formatLabels(sample.labels)} ${sample.count}`
+      );
+    }
+  };
+
+  header("requests_total", "counter", "Completed API requests by operation and final status.");
+  counters("requests_total", snapshot.requests);
+  header("request_duration_seconds", "histogram", "API request latency including rate-limiter waits and retries.");
+  histograms("request_duration_seconds", snapshot.requestDuration);
+  header("retries_total", "counter", "Retry attempts by operation.");
+  counters("retries_total", snapshot.retries);
+  header("rate_limited_total", "counter", "HTTP 429 responses by operation.");
+  counters("rate_limited_total", snapshot.rateLimited);
+  header("rate_limiter_queue_depth", "gauge", "Callers waiting for a rate-limiter token.");
+  lines.push(`${prefix}rate_limiter_queue_depth ${snapshot.rateLimiterQueueDepth}`);
+  header("rate_limiter_wait_seconds", "histogram", "Time spent waiting for rate-limiter tokens.");
+  histograms("rate_limiter_wait_seconds", [snapshot.rateLimiterWait]);
+
+  return `${lines.join("\n")}\n`;
+}
+
+function requestLabels(sample: RequestMetricLabels): Record<string, string> {
+  return { operation: sample.operation, method: sample.method };
+}
+
+function labelKey(labels: Record<string, string>): string {
+  return JSON.stringify(labels);
+}
+
+function increment(
+  counters: Map<string, CounterSample>,
+  labels: Record<string, string>
+): void {
+  const key = labelKey(labels);
+  const counter = counters.get(key);
+  if (counter) {
+    counter.value += 1;
+  } else {
+    counters.set(key, { labels, value: 1 });
+  }
+}
+
+function copyCounters(counters: Map<string, CounterSample>): CounterSample[] {
+  return [...counters.values()].map((counter) => ({
+    labels: { ...counter.labels },
+    value: counter.value,
+  }));
+}
+
+function formatLabels(labels: Record<string, string>): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) {
+    return "";
+  }
+
+  const formatted = entries.map(
+    ([key, value]) =>
+      `${key}="${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n")}"`
+  );
+  return `{${formatted.join(",")}}`;
+}
@@ -0,0 +1,77 @@
+import type { AxiosResponse } from "axios";
+import type { HttpRequestOptions } from "./HttpClient.js";
+
+/**
+ * Per-request state shared by every middleware registered on an {@link HttpClient}.
+ */
+export interface MiddlewareContext {
+  /**
+   * SDK-level request options, including `authToken`, `idempotencyKey`, and `useRateLimiter`.
+   * Middleware may replace or mutate them before calling `next()`.
+   */
+  options: HttpRequestOptions;
+  /**
+   * Response produced by the downstream chain, populated once `next()` resolves.
+   */
+  response?: AxiosResponse;
+  /**
+   * Error raised by the downstream chain (typically an {@link APIError}), populated once `next()` rejects.
+   */
+  error?: unknown;
+  /**
+   * Scratch space for middleware to share data across the lifetime of a single request.
+   */
+  state: Record<string, unknown>;
+}
+
+/**
+ * Continue down the middleware chain, eventually performing the HTTP request.
+ * May be invoked more than once (for example to replay a request after refreshing a token).
+ */
+export type MiddlewareNext = () => Promise<AxiosResponse>;
+
+/**
+ * Ordered request/response interceptor. Runs before rate limiting, so middleware can answer a
+ * request without spending a limiter token, and observes the final response or {@link APIError}.
+ */
+export type Middleware = (
+  context: MiddlewareContext,
+  next: MiddlewareNext
+) => Promise<AxiosResponse>;
+
+/**
+ * Compose middleware into a single handler that runs them in registration order before
+ * delegating to the terminal request handler.
+ *
+ * @param middleware Middleware to run, outermost first.
+ * @param handler Terminal handler that performs the request with the final options.
+ * @returns Function executing the full chain for a given context.
+ */
+export function composeMiddleware(
+  middleware: readonly Middleware[],
+  handler: (context: MiddlewareContext) => Promise<AxiosResponse>
+): (context: MiddlewareContext) => Promise<AxiosResponse> {
+  return (context) => {
+    const dispatch = (index: number): Promise<AxiosResponse> => {
+      const current = middleware[index];
+      if (!current) {
+        return handler(context);
+      }
+
+      return current(context, async () => {
+        try {
+          const response = await dispatch(index + 1);
+          context.response = response;
+          context.error = undefined;
+          return response;
+        } catch (error) {
+          context.response = undefined;
+          context.error = error;
+          throw error;
+        }
+      });
+    };
+
+    return dispatch(0);
+  };
+}
@@ -0,0 +1,499 @@
+import type { AxiosResponse } from "axios";
+import { Emitter } from "./Emitter.js";
+import {
+  APIError,
+  CircuitOpenError,
+  NetworkError,
+  OutboxQueuedError,
+  RateLimitError,
+  ServerError,
+  TimeoutError,
+} from "./Errors.js";
+import type { HttpClient, HttpRequestOptions } from "./HttpClient.js";
+import { IDEMPOTENCY_KEY_HEADER, createIdempotencyKey } from "./Idempotency.js";
+import type { OutboxEntry, OutboxError, OutboxStore } from "./OutboxStore.js";
+import { resolveOperation } from "../operations.js";
+
+/**
+ * Events emitted by {@link Outbox}.
+ */
+export type OutboxEvents = {
+  /** A mutation was stored for replay. */
+  queued: [entry: OutboxEntry];
+  /** A stored mutation was replayed successfully and removed. */
+  replayed: [entry: OutboxEntry, response: AxiosResponse];
+  /** A stored mutation was moved to the dead letters; `entry.lastError` explains why. */
+  deadLettered: [entry: OutboxEntry];
+};
+
+/**
+ * Options accepted by {@link Outbox}.
+ */
+export interface OutboxOptions {
+  /** Where entries are persisted, e.g. a `FileOutboxStore` or `SqliteOutboxStore`. */
+  store: OutboxStore;
+  /**
+   * `operationId`s whose calls are stored when the API is unreachable, e.g.
+   * `["createPhotoComment", "createProjectLabels"]`. Defaults to every POST, PUT, PATCH, and
+   * DELETE with a JSON body. Calls with their own credentials are never stored.
+   */
+  operations?: readonly string[];
+  /**
+   * Replays that reach the API and fail with a retryable status (408, 429, 5xx) before the entry
+   * is dead-lettered. Defaults to 10.
+   */
+  maxAttempts?: number;
+  /**
+   * How often pending entries are replayed in the background, in milliseconds. Defaults to
+   * 30 seconds; `0` disables the timer, leaving replays to successful requests and `flush()`.
+   */
+  flushIntervalMs?: number;
+}
+
+/**
+ * Counts returned by {@link Outbox.status}.
+ */
+export interface OutboxStatus {
+  pending: number;
+  dead: number;
+  /** Epoch milliseconds at which the oldest pending entry was queued. */
+  oldestPendingAt?: number;
+  /** Whether a replay is running. */
+  flushing: boolean;
+}
+
+/**
+ * Outcome of one {@link Outbox.flush}.
+ */
+export interface OutboxFlushResult {
+  replayed: number;
+  deadLettered: number;
+  /** Entries still pending, e.g. because the API became unreachable again. */
+  pending: number;
+}
+
+type FailureKind = "offline" | "transient" | "permanent";
+
+const MUTATING_METHODS = new Set(["POST", "PUT", "PATCH", "DELETE"]);
+const REPLAY = Symbol("companycam.outbox.replay");
+
+/**
+ * Store-and-forward queue for mutations made while the API is unreachable. Pass it to a client
+ * as `outbox`; covered calls that fail with a network error, timeout, open circuit, or retryable
+ * status after the client's own retries are persisted with their idempotency key and rejected
+ * with {@link OutboxQueuedError}. Stored calls are replayed in order once the API answers again.
+ *
+ * While entries are pending, new covered calls are queued behind them without being sent, so
+ * the API sees mutations in the order they were made. Replays use the client's bearer token, so
+ * calls that pass their own `authToken` or `Authorization` header are sent directly instead.
+ */
+export class Outbox extends Emitter<OutboxEvents> {
+  private readonly store: OutboxStore;
+  private readonly operations?: ReadonlySet<string>;
+  private readonly maxAttempts: number;
+  private readonly flushIntervalMs: number;
+  private http?: HttpClient;
+  private timer?: ReturnType<typeof setInterval>;
+  private loading?: Promise<void>;
+  private pending = 0;
+  private nextSequence = 1;
+  private flushing?: Promise<OutboxFlushResult>;
+
+  /**
+   * Create an outbox on top of `options.store`. Entries already in the store are replayed once
+   * the outbox is attached to a client.
+   *
+   * @param options Store, covered operations, and replay settings.
+   */
+  constructor(options: OutboxOptions) {
+    super();
+    this.store = options.store;
+    this.operations = options.operations ? new Set(options.operations) : undefined;
+    this.maxAttempts = Math.max(1, options.maxAttempts ?? 10);
+    this.flushIntervalMs = Math.max(0, options.flushIntervalMs ?? 30_000);
+  }
+
+  /**
+   * Bind the outbox to the client used for replays. Called by {@link HttpClient}.
+   *
+   * @throws {Error} When the outbox already belongs to another client.
+   */
+  attach(http: HttpClient): void {
+    if (this.http && this.http !== http) {
+      throw new Error("Outbox is already attached to another client");
+    }
+    this.http = http;
+    if (this.flushIntervalMs > 0 && !this.timer) {
+      this.timer = setInterval(() => {
+        if (this.pending > 0) {
+          void this.flush().catch(() => undefined);
+        }
+      }, this.flushIntervalMs);
+      this.timer.unref?.();
+    }
+    void this.load().catch(() => undefined);
+  }
+
+  /**
+   * Send a request on behalf of {@link HttpClient}, storing covered mutations that cannot reach
+   * the API.
+   *
+   * @param options Request options after middleware.
+   * @param send Sends the request through the rest of the client pipeline.
+   * @throws {OutboxQueuedError} When the request was stored for replay.
+   */
+  async dispatch(
+    options: HttpRequestOptions,
+    send: (options: HttpRequestOptions) => Promise<AxiosResponse>
+  ): Promise<AxiosResponse> {
+    if ((options as Record<symbol, unknown>)[REPLAY] || !this.covers(options)) {
+      const response = await send(options);
+      if (this.pending > 0 && !(options as Record<symbol, unknown>)[REPLAY]) {
+        // The API is answering again.
+        void this.flush().catch(() => undefined);
+      }
+      return response;
+    }
+
+    const keyed: HttpRequestOptions = options.idempotencyKey
+      ? options
+      : { ...options, idempotencyKey: createIdempotencyKey() };
+    await this.load();
+    if (this.pending > 0) {
+      const entry = await this.enqueue(keyed);
+      throw new OutboxQueuedError(entry.idempotencyKey);
+    }
+
+    try {
+      return await send(keyed);
+    } catch (error) {
+      if (classifyFailure(error) === "permanent") {
+        throw error;
+      }
+      const entry = await this.enqueue(keyed, error);
+      throw new OutboxQueuedError(entry.idempotencyKey, { cause: error });
+    }
+  }
+
+  /**
+   * Replay pending entries in order. Stops at the first entry that still cannot reach the API;
+   * entries the API rejects are dead-lettered and the replay continues. Concurrent calls share
+   * one replay.
+   *
+   * @throws {Error} When the outbox is not attached to a client.
+   */
+  flush(): Promise<OutboxFlushResult> {
+    this.flushing ??= this.replay().finally(() => {
+      this.flushing = undefined;
+    });
+    return this.flushing;
+  }
+
+  /**
+   * Every stored entry, pending and dead, in replay order.
+   */
+  entries(): Promise<OutboxEntry[]> {
+    return this.store.list();
+  }
+
+  /**
+   * Entries the API rejected or that exhausted `maxAttempts`.
+   */
+  async deadLetters(): Promise<OutboxEntry[]> {
+    return (await this.store.list()).filter((entry) => entry.status === "dead");
+  }
+
+  /**
+   * Counts of pending and dead entries.
+   */
+  async status(): Promise<OutboxStatus> {
+    const entries = await this.store.list();
+    const pending = entries.filter((entry) => entry.status === "pending");
+    return {
+      pending: pending.length,
+      dead: entries.length - pending.length,
+      oldestPendingAt: pending.length
+        ? Math.min(...pending.map((entry) => entry.enqueuedAt))
+        : undefined,
+      flushing: this.flushing !== undefined,
+    };
+  }
+
+  /**
+   * Move a dead letter back to the end of the pending queue with a fresh attempt count, e.g.
+   * after fixing the data the API rejected.
+   *
+   * @returns `false` when no dead entry has this key.
+   */
+  async requeue(idempotencyKey: string): Promise<boolean> {
+    await this.load();
+    const entry = (await this.store.list()).find(
+      (candidate) => candidate.idempotencyKey === idempotencyKey
+    );
+    if (!entry || entry.status !== "dead") {
+      return false;
+    }
+    await this.store.put({
+      ...entry,
+      status: "pending",
+      sequence: this.nextSequence++,
+      attempts: 0,
+    });
+    this.pending += 1;
+    return true;
+  }
+
+  /**
+   * Delete an entry, pending or dead, without replaying it.
+   *
+   * @returns `false` when no entry has this key.
+   */
+  async discard(idempotencyKey: string): Promise<boolean> {
+    await this.load();
+    const entry = (await this.store.list()).find(
+      (candidate) => candidate.idempotencyKey === idempotencyKey
+    );
+    if (!entry) {
+      return false;
+    }
+    await this.store.delete(idempotencyKey);
+    if (entry.status === "pending") {
+      this.pending -= 1;
+    }
+    return true;
+  }
+
+  /**
+   * Stop the background replay timer. Stored entries are kept.
+   */
+  dispose(): void {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  private covers(options: HttpRequestOptions): boolean {
+    const method = (options.method ?? "GET").toUpperCase();
+    if (!MUTATING_METHODS.has(method) || !isJsonBody(options.data)) {
+      return false;
+    }
+    if (options.authToken !== undefined || hasAuthorization(options.headers)) {
+      // Credentials are not persisted; a replay under the client's token could act as the wrong
+      // account.
+      return false;
+    }
+    if (!this.operations) {
+      return true;
+    }
+    const operationId =
+      options.operationId ?? resolveOperation(options.method, options.url)?.operationId;
+    return operationId !== undefined && this.operations.has(operationId);
+  }
+
+  /**
+   * Read the store once to restore the pending count and sequence after a restart.
+   */
+  private load(): Promise<void> {
+    this.loading ??= this.store.list().then(
+      (entries) => {
+        this.pending = entries.filter((entry) => entry.status === "pending").length;
+        this.nextSequence =
+          entries.reduce((max, entry) => Math.max(max, entry.sequence), 0) + 1;
+      },
+      (error: unknown) => {
+        this.loading = undefined;
+        throw error;
+      }
+    );
+    return this.loading;
+  }
+
+  private async enqueue(options: HttpRequestOptions, error?: unknown): Promise<OutboxEntry> {
+    const idempotencyKey = options.idempotencyKey!;
+    const existing = (await this.store.list()).find(
+      (entry) => entry.idempotencyKey === idempotencyKey
+    );
+    if (existing) {
+      // The caller retried a call that is already stored.
+      return existing;
+    }
+
+    const entry: OutboxEntry = {
+      idempotencyKey,
+      sequence: this.nextSequence++,
+      status: "pending",
+      method: (options.method ?? "GET").toUpperCase(),
+      url: options.url ?? "",
+      operationId:
+        options.operationId ?? resolveOperation(options.method, options.url)?.operationId,
+      params: options.params,
+      data: options.data,
+      headers: persistableHeaders(options.headers),
+      tenantKey: options.tenantKey,
+      enqueuedAt: Date.now(),
+      attempts: 0,
+      lastError: error === undefined ? undefined : describeFailure(error),
+    };
+    await this.store.put(entry);
+    this.pending += 1;
+    this.emit("queued", entry);
+    return entry;
+  }
+
+  private async replay(): Promise<OutboxFlushResult> {
+    const http = this.http;
+    if (!http) {
+      throw new Error("Outbox is not attached to a client");
+    }
+    await this.load();
+
+    const result: OutboxFlushResult = { replayed: 0, deadLettered: 0, pending: 0 };
+    // Calls queued while replaying are picked up by another pass.
+    while (this.pending > 0) {
+      const pending = (await this.store.list()).filter((entry) => entry.status === "pending");
+      if (pending.length === 0) {
+        // The store no longer matches the in-memory count.
+        this.pending = 0;
+        break;
+      }
+      const stoppedAt = await this.replayEntries(http, pending, result);
+      if (stoppedAt !== undefined) {
+        result.pending = pending.length - stoppedAt;
+        break;
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Replay `entries` in order.
+   *
+   * @returns Index of the entry that still cannot be delivered, if the pass stopped early.
+   */
+  private async replayEntries(
+    http: HttpClient,
+    entries: OutboxEntry[],
+    result: OutboxFlushResult
+  ): Promise<number | undefined> {
+    for (const [index, entry] of entries.entries()) {
+      const options: HttpRequestOptions = {
+        method: entry.method,
+        url: entry.url,
+        params: entry.params,
+        data: entry.data,
+        headers: entry.headers,
+        idempotencyKey: entry.idempotencyKey,
+        tenantKey: entry.tenantKey,
+        operationId: entry.operationId,
+        // The outbox is the retry loop for replays.
+        retry: { retries: 0 },
+      };
+      (options as Record<symbol, unknown>)[REPLAY] = true;
+
+      try {
+        const response = await http.request(options);
+        await this.store.delete(entry.idempotencyKey);
+        this.pending -= 1;
+        result.replayed += 1;
+        this.emit("replayed", entry, response);
+      } catch (error) {
+        const kind = classifyFailure(error);
+        const attempts = entry.attempts + (kind === "offline" ? 0 : 1);
+        const updated: OutboxEntry = {
+          ...entry,
+          attempts,
+          lastAttemptAt: Date.now(),
+          lastError: describeFailure(error),
+        };
+        if (kind === "offline" || (kind === "transient" && attempts < this.maxAttempts)) {
+          // Later entries stay behind this one to preserve order.
+          await this.store.put(updated);
+          return index;
+        }
+        const dead: OutboxEntry = { ...updated, status: "dead" };
+        await this.store.put(dead);
+        this.pending -= 1;
+        result.deadLettered += 1;
+        this.emit("deadLettered", dead);
+      }
+    }
+    return undefined;
+  }
+}
+
+/**
+ * `offline`: the API was not reached. `transient`: it answered with a retryable status.
+ * `permanent`: retrying cannot help, including caller cancellations and expired deadlines, which
+ * belong to the caller rather than to the connection.
+ */
+function classifyFailure(error: unknown): FailureKind {
+  if (
+    error instanceof NetworkError ||
+    error instanceof TimeoutError ||
+    error instanceof CircuitOpenError
+  ) {
+    return "offline";
+  }
+  return error instanceof ServerError ||
+    error instanceof RateLimitError ||
+    (error instanceof APIError && error.status === 408)
+    ? "transient"
+    : "permanent";
+}
+
+function describeFailure(error: unknown): OutboxError {
+  if (error instanceof APIError) {
+    return {
+      name: error.name,
+      message: error.message,
+      status: error.status,
+      requestId: error.requestId,
+    };
+  }
+  return error instanceof Error
+    ? { name: error.name, message: error.message }
+    : { name: "Error", message: String(error) };
+}
+
+/**
+ * Bodies that survive a JSON round trip unchanged; uploads and streams are never stored.
+ */
+function isJsonBody(data: unknown): boolean {
+  if (data === undefined || data === null) {
+    return true;
+  }
+  if (typeof data !== "object") {
+    return typeof data === "string" || typeof data === "number" || typeof data === "boolean";
+  }
+  const prototype = Object.getPrototypeOf(data);
+  return Array.isArray(data) || prototype === Object.prototype || prototype === null;
+}
+
+function hasAuthorization(headers: unknown): boolean {
+  return (
+    !!headers &&
+    typeof headers === "object" &&
+    Object.keys(headers).some((name) => name.toLowerCase() === "authorization")
+  );
+}
+
+/**
+ * Request headers worth replaying. Credentials are never written to the store.
+ */
+function persistableHeaders(headers: unknown): Record<string, string> | undefined {
+  if (!headers || typeof headers !== "object") {
+    return undefined;
+  }
+  const kept: Record<string, string> = {};
+  for (const [name, value] of Object.entries(headers as Record<string, unknown>)) {
+    const lower = name.toLowerCase();
+    if (
+      lower === "authorization" ||
+      lower === IDEMPOTENCY_KEY_HEADER.toLowerCase() ||
+      typeof value !== "string"
+    ) {
+      continue;
+    }
+    kept[name] = value;
+  }
+  return Object.keys(kept).length ? kept : undefined;
+}
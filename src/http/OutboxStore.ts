@@ -0,0 +1,157 @@
+/**
+ * `pending` entries wait for replay; `dead` entries were rejected by the API or exhausted their
+ * attempts and wait for the application to retry or discard them.
+ */
+export type OutboxEntryStatus = "pending" | "dead";
+
+/**
+ * Mutation persisted by an {@link Outbox}. Entries hold no credentials; replays are sent with the
+ * client's bearer token.
+ */
+export interface OutboxEntry {
+  /** `Idempotency-Key` of the original call, reused by every replay. Unique per entry. */
+  idempotencyKey: string;
+  /** Replay order, increasing with every queued call. */
+  sequence: number;
+  status: OutboxEntryStatus;
+  method: string;
+  url: string;
+  operationId?: string;
+  params?: unknown;
+  /** JSON request body. */
+  data?: unknown;
+  /** Request headers other than `Authorization` and `Idempotency-Key`, e.g. `X-CompanyCam-User`. */
+  headers?: Record<string, string>;
+  tenantKey?: string;
+  /** Epoch milliseconds at which the call was queued. */
+  enqueuedAt: number;
+  /** Replays that reached the API and failed. Connectivity failures are not counted. */
+  attempts: number;
+  lastAttemptAt?: number;
+  /** Failure of the original call or of the latest replay. */
+  lastError?: OutboxError;
+}
+
+/**
+ * Serializable summary of the failure recorded on an {@link OutboxEntry}.
+ */
+export interface OutboxError {
+  name: string;
+  message: string;
+  status?: number;
+  requestId?: string;
+}
+
+/**
+ * Pluggable persistence for {@link Outbox} entries. Stores are used by a single process.
+ */
+export interface OutboxStore {
+  /** Every entry, pending and dead, ordered by `sequence`. */
+  list(): Promise<OutboxEntry[]>;
+  /** Insert an entry or replace the one with the same `idempotencyKey`. */
+  put(entry: OutboxEntry): Promise<void>;
+  delete(idempotencyKey: string): Promise<void>;
+}
+
+/**
+ * Non-persistent {@link OutboxStore}, mainly useful in tests.
+ */
+export class MemoryOutboxStore implements OutboxStore {
+  private readonly entries = new Map<string, OutboxEntry>();
+
+  async list(): Promise<OutboxEntry[]> {
+    return sortEntries([...this.entries.values()]);
+  }
+
+  async put(entry: OutboxEntry): Promise<void> {
+    this.entries.set(entry.idempotencyKey, entry);
+  }
+
+  async delete(idempotencyKey: string): Promise<void> {
+    this.entries.delete(idempotencyKey);
+  }
+}
+
+/**
+ * Prepared statement subset shared by `better-sqlite3` and `node:sqlite`.
+ */
+export interface SqliteStatement {
+  run(...params: unknown[]): unknown;
+  all(...params: unknown[]): unknown[];
+}
+
+/**
+ * Synchronous SQLite connection such as a `better-sqlite3` `Database` or a `node:sqlite`
+ * `DatabaseSync`.
+ */
+export interface SqliteDatabase {
+  exec(sql: string): unknown;
+  prepare(sql: string): SqliteStatement;
+}
+
+/**
+ * Options accepted by {@link SqliteOutboxStore}.
+ */
+export interface SqliteOutboxStoreOptions {
+  database: SqliteDatabase;
+  /** Table created on first use. Defaults to `companycam_outbox`. */
+  tableName?: string;
+}
+
+/**
+ * {@link OutboxStore} persisting entries in a SQLite table, for applications that already keep
+ * local state in SQLite. Bring your own driver; the SDK does not depend on one.
+ */
+export class SqliteOutboxStore implements OutboxStore {
+  private readonly database: SqliteDatabase;
+  private readonly table: string;
+  private initialized = false;
+
+  /**
+   * Create a store on an open database connection.
+   *
+   * @param options Connection and table name.
+   * @throws {Error} When `tableName` is not a plain SQL identifier.
+   */
+  constructor(options: SqliteOutboxStoreOptions) {
+    const table = options.tableName ?? "companycam_outbox";
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(table)) {
+      throw new Error(`Invalid outbox table name: ${table}`);
+    }
+    this.database = options.database;
+    this.table = table;
+  }
+
+  async list(): Promise<OutboxEntry[]> {
+    const rows = this.prepare(
+      `SELECT entry FROM ${this.table} ORDER BY sequence`
+    ).all() as Array<{ entry: string }>;
+    return rows.map((row) => JSON.parse(row.entry) as OutboxEntry);
+  }
+
+  async put(entry: OutboxEntry): Promise<void> {
+    this.prepare(
+      `INSERT INTO ${this.table} (idempotency_key, sequence, entry) VALUES (?, ?, ?) ` +
+        "ON CONFLICT (idempotency_key) DO UPDATE SET sequence = excluded.sequence, entry = excluded.entry"
+    ).run(entry.idempotencyKey, entry.sequence, JSON.stringify(entry));
+  }
+
+  async delete(idempotencyKey: string): Promise<void> {
+    this.prepare(`DELETE FROM ${this.table} WHERE idempotency_key = ?`).run(idempotencyKey);
+  }
+
+  private prepare(sql: string): SqliteStatement {
+    if (!this.initialized) {
+      this.database.exec(
+        `CREATE TABLE IF NOT EXISTS ${this.table} (` +
+          "idempotency_key TEXT PRIMARY KEY, sequence INTEGER NOT NULL, entry TEXT NOT NULL)"
+      );
+      this.initialized = true;
+    }
+    return this.database.prepare(sql);
+  }
+}
+
+function sortEntries(entries: OutboxEntry[]): OutboxEntry[] {
+  return entries.sort((a, b) => a.sequence - b.sequence);
+}
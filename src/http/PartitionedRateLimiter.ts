@@ -0,0 +1,144 @@
+import { RateLimiter } from "./RateLimiter.js";
+import type {
+  AbortSignalLike,
+  AcquireOptions,
+  RateLimitFeedback,
+  RateLimiterLike,
+  RateLimiterOptions,
+} from "./RateLimiter.js";
+
+/**
+ * Bucket size and interval that can be overridden per partition.
+ */
+export type PartitionQuota = Pick<RateLimiterOptions, "tokensPerInterval" | "intervalMs">;
+
+/**
+ * Options accepted by {@link PartitionedRateLimiter}. Everything except `overrides` and
+ * `idleTimeoutMs` applies to each partition's {@link RateLimiter}.
+ */
+export interface PartitionedRateLimiterOptions
+  extends Omit<RateLimiterOptions, "metrics"> {
+  /**
+   * Quotas for specific partition keys, e.g. `{ "acme": { tokensPerInterval: 300 } }` for a tenant
+   * passed as `tenantKey`.
+   */
+  overrides?: Record<string, PartitionQuota>;
+  /**
+   * Partitions without queued callers are dropped after being unused for this many
+   * milliseconds. Keep it at least `intervalMs` so eviction never hands out a refilled bucket
+   * early. Defaults to 5 minutes.
+   */
+  idleTimeoutMs?: number;
+}
+
+interface Partition {
+  limiter: RateLimiter;
+  lastUsedAt: number;
+}
+
+/**
+ * Partition used for requests that carry neither a tenant key nor a bearer token.
+ */
+export const DEFAULT_PARTITION_KEY = "default";
+
+/**
+ * Rate limiter keeping one {@link RateLimiter} bucket per tenant, so a client acting for many
+ * OAuth-connected companies does not let one noisy tenant throttle the others.
+ *
+ * {@link HttpClient} partitions by `RequestOptions.tenantKey` when given and otherwise by a hash
+ * of the bearer token; callers without either share the `"default"` partition. Overrides can only
+ * target explicit tenant keys because token partitions are keyed by hash.
+ */
+export class PartitionedRateLimiter implements RateLimiterLike {
+  readonly partitioned = true;
+  private readonly options: Omit<PartitionedRateLimiterOptions, "overrides" | "idleTimeoutMs">;
+  private readonly overrides: Readonly<Record<string, PartitionQuota>>;
+  private readonly idleTimeoutMs: number;
+  private readonly partitions = new Map<string, Partition>();
+  private readonly sweepHandle: ReturnType<typeof setInterval>;
+
+  /**
+   * Create a limiter without partitions; they are created on first use.
+   *
+   * @param options Per-partition limiter options, quota overrides, and idle timeout.
+   */
+  constructor(options: PartitionedRateLimiterOptions = {}) {
+    const { overrides, idleTimeoutMs, ...limiterOptions } = options;
+    this.options = limiterOptions;
+    this.overrides = { ...overrides };
+    this.idleTimeoutMs = Math.max(1, idleTimeoutMs ?? 300_000);
+    this.sweepHandle = setInterval(
+      () => this.evictIdle(),
+      Math.max(1_000, this.idleTimeoutMs / 2)
+    );
+    // Avoid keeping Node.js event loop alive if supported.
+    (this.sweepHandle as unknown as { unref?: () => void }).unref?.();
+  }
+
+  /**
+   * Acquire a token from the bucket named by `options.partitionKey`.
+   *
+   * @param signal Optional abort signal used to cancel the wait.
+   * @param options Partition key and priority lane.
+   */
+  acquire(signal?: AbortSignalLike, options: AcquireOptions = {}): Promise<void> {
+    return this.partition(options.partitionKey).acquire(signal, options);
+  }
+
+  /**
+   * Forward server feedback to the partition the response belongs to.
+   */
+  observe(feedback: RateLimitFeedback): void {
+    const entry = this.partitions.get(feedback.partitionKey ?? DEFAULT_PARTITION_KEY);
+    if (entry) {
+      entry.lastUsedAt = Date.now();
+      entry.limiter.observe(feedback);
+    }
+  }
+
+  /**
+   * The limiter backing a partition, created on demand. Useful for snapshots and events.
+   *
+   * @param key Partition key. Defaults to the `"default"` partition.
+   */
+  partition(key: string = DEFAULT_PARTITION_KEY): RateLimiter {
+    let entry = this.partitions.get(key);
+    if (!entry) {
+      entry = {
+        limiter: new RateLimiter({ ...this.options, ...this.overrides[key] }),
+        lastUsedAt: 0,
+      };
+      this.partitions.set(key, entry);
+    }
+    entry.lastUsedAt = Date.now();
+    return entry.limiter;
+  }
+
+  /**
+   * Keys of the partitions currently held in memory.
+   */
+  partitionKeys(): string[] {
+    return [...this.partitions.keys()];
+  }
+
+  /**
+   * Stop the eviction timer and dispose every partition, rejecting queued callers.
+   */
+  dispose(): void {
+    clearInterval(this.sweepHandle);
+    for (const { limiter } of this.partitions.values()) {
+      limiter.dispose();
+    }
+    this.partitions.clear();
+  }
+
+  private evictIdle(): void {
+    const cutoff = Date.now() - this.idleTimeoutMs;
+    for (const [key, entry] of this.partitions) {
+      if (entry.lastUsedAt <= cutoff && entry.limiter.snapshot().queueLength === 0) {
+        entry.limiter.dispose();
+        this.partitions.delete(key);
+      }
+    }
+  }
+}
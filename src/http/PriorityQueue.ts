@@ -0,0 +1,212 @@
+import type { AbortHandler, AbortSignalLike, RequestPriority } from "./RateLimiter.js";
+
+/**
+ * Lanes in descending priority.
+ */
+export const PRIORITIES: readonly RequestPriority[] = ["interactive", "normal", "background"];
+
+const DEFAULT_PRIORITY_WEIGHTS: Record<RequestPriority, number> = {
+  interactive: 6,
+  normal: 3,
+  background: 1,
+};
+
+/**
+ * Entry waiting in a {@link PriorityQueue}.
+ */
+export interface QueuedWaiter {
+  priority: RequestPriority;
+  /** Epoch milliseconds at which the waiter joined the queue. */
+  enqueuedAt: number;
+}
+
+/**
+ * Scheduling knobs shared by the rate and concurrency limiters.
+ */
+export interface PriorityQueueOptions {
+  /** Relative share per lane when several lanes are waiting. */
+  weights?: Partial<Record<RequestPriority, number>>;
+  /** Waiters queued at least this long are served first regardless of their lane. */
+  starvationThresholdMs?: number;
+}
+
+/**
+ * Waiters grouped by {@link RequestPriority}, FIFO within a lane. Lanes are served by smooth
+ * weighted round-robin, and the oldest waiter past the starvation threshold goes first.
+ */
+export class PriorityQueue<T extends QueuedWaiter> {
+  private readonly lanes: Record<RequestPriority, T[]> = {
+    interactive: [],
+    normal: [],
+    background: [],
+  };
+  private readonly weights: Record<RequestPriority, number>;
+  private readonly credits: Record<RequestPriority, number> = {
+    interactive: 0,
+    normal: 0,
+    background: 0,
+  };
+  private readonly starvationThresholdMs: number;
+
+  constructor(options: PriorityQueueOptions = {}) {
+    this.weights = { ...DEFAULT_PRIORITY_WEIGHTS };
+    for (const priority of PRIORITIES) {
+      const weight = options.weights?.[priority];
+      if (weight !== undefined) {
+        this.weights[priority] = Math.max(0.001, weight);
+      }
+    }
+    this.starvationThresholdMs = Math.max(0, options.starvationThresholdMs ?? 30_000);
+  }
+
+  get length(): number {
+    return PRIORITIES.reduce(
+      (total, priority) => total + this.lanes[priority].length,
+      0
+    );
+  }
+
+  /**
+   * Number of waiters per lane.
+   */
+  counts(): Record<RequestPriority, number> {
+    return {
+      interactive: this.lanes.interactive.length,
+      normal: this.lanes.normal.length,
+      background: this.lanes.background.length,
+    };
+  }
+
+  /**
+   * How long the longest-waiting entry has been queued, or `0` when empty.
+   */
+  oldestWaitMs(now: number): number {
+    let oldest = 0;
+    for (const priority of PRIORITIES) {
+      const head = this.lanes[priority][0];
+      if (head) {
+        oldest = Math.max(oldest, now - head.enqueuedAt);
+      }
+    }
+    return oldest;
+  }
+
+  push(waiter: T): void {
+    this.lanes[waiter.priority].push(waiter);
+  }
+
+  /**
+   * Remove a waiter that gave up, e.g. after its abort signal fired.
+   *
+   * @returns Whether the waiter was still queued.
+   */
+  remove(waiter: T): boolean {
+    const lane = this.lanes[waiter.priority];
+    const index = lane.indexOf(waiter);
+    if (index < 0) {
+      return false;
+    }
+    lane.splice(index, 1);
+    return true;
+  }
+
+  /**
+   * Take the next waiter if `canServe` accepts it. A waiter that cannot be served yet keeps its
+   * place, so heavier requests are not bypassed by lighter ones.
+   */
+  shift(now: number, canServe: (waiter: T) => boolean = () => true): T | undefined {
+    let starving: T | undefined;
+    for (const priority of PRIORITIES) {
+      const head = this.lanes[priority][0];
+      if (
+        head &&
+        now - head.enqueuedAt >= this.starvationThresholdMs &&
+        (!starving || head.enqueuedAt < starving.enqueuedAt)
+      ) {
+        starving = head;
+      }
+    }
+    if (starving) {
+      if (!canServe(starving)) {
+        return undefined;
+      }
+      this.lanes[starving.priority].shift();
+      return starving;
+    }
+
+    const waiting = PRIORITIES.filter((priority) => this.lanes[priority].length > 0);
+    if (waiting.length === 0) {
+      return undefined;
+    }
+
+    const credits = { ...this.credits };
+    let selected = waiting[0]!;
+    let totalWeight = 0;
+    for (const priority of waiting) {
+      credits[priority] += this.weights[priority];
+      totalWeight += this.weights[priority];
+      if (credits[priority] > credits[selected]) {
+        selected = priority;
+      }
+    }
+    const head = this.lanes[selected][0]!;
+    if (!canServe(head)) {
+      return undefined;
+    }
+
+    credits[selected] -= totalWeight;
+    this.lanes[selected].shift();
+    for (const priority of PRIORITIES) {
+      // Idle lanes do not bank credit for later bursts.
+      this.credits[priority] =
+        this.lanes[priority].length === 0 ? 0 : credits[priority];
+    }
+    return head;
+  }
+
+  /**
+   * Empty every lane, returning the removed waiters.
+   */
+  clear(): T[] {
+    const removed: T[] = [];
+    for (const priority of PRIORITIES) {
+      removed.push(...this.lanes[priority].splice(0));
+      this.credits[priority] = 0;
+    }
+    return removed;
+  }
+}
+
+/**
+ * Subscribe to an abort signal, using `addEventListener` when available and `onabort` otherwise.
+ *
+ * @returns A function removing the listener, if one was attached.
+ */
+export function attachAbortListener(
+  signal: AbortSignalLike | undefined,
+  handler: AbortHandler
+): (() => void) | undefined {
+  if (!signal) {
+    return undefined;
+  }
+
+  if (typeof signal.addEventListener === "function") {
+    signal.addEventListener("abort", handler, { once: true });
+    return () => signal.removeEventListener?.("abort", handler);
+  }
+
+  if ("onabort" in signal) {
+    const previous = signal.onabort;
+    signal.onabort = () => {
+      handler();
+      if (typeof previous === "function") {
+        previous.call(signal);
+      }
+    };
+    return () => {
+      signal.onabort = previous ?? null;
+    };
+  }
+
+  return undefined;
+}
@@ -1,3 +1,7 @@
+import { Emitter } from "./Emitter.js";
+import type { Metrics } from "./Metrics.js";
+import { PriorityQueue, attachAbortListener } from "./PriorityQueue.js";
+
 export type AbortHandler = () => void;
 
 export interface AbortSignalLike {
@@ -11,6 +15,44 @@ export interface AbortSignalLike {
   onabort?: AbortHandler | null;
 }
 
+/**
+ * Scheduling class of a request waiting for a token. `interactive` is meant for user-facing
+ * calls, `background` for bulk work such as photo syncs.
+ */
+export type RequestPriority = "interactive" | "normal" | "background";
+
+/**
+ * Per-call options for {@link RateLimiterLike.acquire}.
+ */
+export interface AcquireOptions {
+  /** Queue lane used while waiting for a token. Defaults to `"normal"`. */
+  priority?: RequestPriority;
+  /**
+   * Quota the caller draws from, used by {@link PartitionedRateLimiter}. {@link HttpClient} passes
+   * the tenant key or a hash of the bearer token to limiters marked
+   * {@link RateLimiterLike.partitioned}. Single-bucket limiters ignore it.
+   */
+  partitionKey?: string;
+}
+
+/**
+ * Contract {@link HttpClient} relies on. Implemented by the in-process {@link RateLimiter} and by
+ * {@link DistributedRateLimiter}, which shares its bucket between processes.
+ */
+export interface RateLimiterLike {
+  /**
+   * Whether `acquire` reads {@link AcquireOptions.partitionKey}. {@link HttpClient} only derives
+   * partition keys, which hashes the bearer token, for limiters that set this.
+   */
+  readonly partitioned?: boolean;
+  /** Resolve once a token is granted; reject with an `AbortError` when `signal` aborts first. */
+  acquire(signal?: AbortSignalLike, options?: AcquireOptions): Promise<void>;
+  /** Release timers and reject pending acquirers. */
+  dispose(): void;
+  /** Optional server feedback hook, see {@link RateLimiter.observe}. */
+  observe?(feedback: RateLimitFeedback): void;
+}
+
 /**
  * Options controlling the shared token bucket limiter.
  */
@@ -24,56 +66,230 @@ export interface RateLimiterOptions {
    * Duration of the interval in milliseconds. Defaults to 60 seconds.
    */
   intervalMs?: number;
+  /**
+   * Receives the queue depth whenever callers start or stop waiting for a token.
+   */
+  metrics?: Metrics;
+  /**
+   * Adapt the refill rate to server feedback reported through {@link RateLimiter.observe}.
+   * Pass `true` for the defaults. Disabled by default.
+   */
+  adaptive?: boolean | AdaptiveRateLimitOptions;
+  /**
+   * Relative share of released tokens per priority lane when several lanes are waiting.
+   * Defaults to `{ interactive: 6, normal: 3, background: 1 }`.
+   */
+  priorityWeights?: Partial<Record<RequestPriority, number>>;
+  /**
+   * Waiters queued longer than this are served first regardless of their lane, so background
+   * work cannot starve. Defaults to 30 seconds.
+   */
+  starvationThresholdMs?: number;
+}
+
+/**
+ * Tuning for the adaptive mode of {@link RateLimiter}.
+ */
+export interface AdaptiveRateLimitOptions {
+  /**
+   * Lowest refill rate the limiter backs off to. Defaults to 10% of `tokensPerInterval`.
+   */
+  minTokensPerInterval?: number;
+  /**
+   * Factor applied to the refill rate on every HTTP 429. Defaults to 0.5.
+   */
+  decreaseFactor?: number;
+  /**
+   * Quiet period after the last slowdown before the rate is raised again. Defaults to
+   * one sixth of `intervalMs` (10 seconds with the default interval).
+   */
+  recoveryIntervalMs?: number;
+  /**
+   * Tokens per interval added back after each quiet period. Defaults to 10% of `tokensPerInterval`.
+   */
+  recoveryStep?: number;
 }
 
+/**
+ * Server feedback for an attempt, as passed to {@link RateLimiter.observe}.
+ */
+export interface RateLimitFeedback {
+  status?: number;
+  headers?: Record<string, unknown>;
+  /** Partition of the request, as passed in {@link AcquireOptions.partitionKey}. */
+  partitionKey?: string;
+}
+
+/**
+ * Point-in-time view of a {@link RateLimiter}, as returned by {@link RateLimiter.snapshot}.
+ */
+export interface RateLimiterSnapshot {
+  /** Tokens that can be taken right now without waiting. */
+  availableTokens: number;
+  /** Current bucket size; lower than `tokensPerInterval` while adaptive mode has backed off. */
+  tokensPerInterval: number;
+  /** Callers waiting for tokens across all lanes. */
+  queueLength: number;
+  /** Waiting callers per priority lane. */
+  queued: Record<RequestPriority, number>;
+  /** How long the longest-waiting caller has been queued, in milliseconds. `0` when idle. */
+  oldestWaitMs: number;
+  /** Remaining time of an adaptive pause, in milliseconds. `0` when not paused. */
+  pausedForMs: number;
+}
+
+/**
+ * Events emitted by {@link RateLimiter}.
+ */
+export type RateLimiterEvents = {
+  /** A caller had to queue while no one else was waiting. */
+  throttled: [snapshot: RateLimiterSnapshot];
+  /** The last queued caller left the queue. */
+  drained: [snapshot: RateLimiterSnapshot];
+};
+
 interface PendingRequest {
   resolve: () => void;
   reject: (reason?: unknown) => void;
   signal?: AbortSignalLike;
+  priority: RequestPriority;
+  tokens: number;
+  enqueuedAt: number;
 }
 
 /**
- * Basic token-bucket rate limiter with FIFO queuing and optional abort support.
+ * Basic token-bucket rate limiter with prioritized queuing and optional abort support.
  * Defaults enforce the 100 requests per minute guidance required by the SDK.
+ *
+ * Waiters queue per {@link RequestPriority} lane (FIFO within a lane). Released tokens are split
+ * between waiting lanes by smooth weighted round-robin, and any waiter older than
+ * `starvationThresholdMs` jumps ahead.
+ *
+ * In adaptive mode the limiter also listens to the API: HTTP 429 responses and
+ * `X-RateLimit-*` / `RateLimit-*` headers lower the refill rate and pause every queued acquirer
+ * until the advertised reset time, after which the rate recovers step by step.
+ *
+ * Inspect capacity with {@link snapshot} and subscribe to `throttled` / `drained` to learn when
+ * callers start and stop queueing.
  */
-export class RateLimiter {
+export class RateLimiter
+  extends Emitter<RateLimiterEvents>
+  implements RateLimiterLike
+{
   private readonly tokensPerInterval: number;
   private readonly intervalMs: number;
-  private readonly refillInterval: number;
+  private refillInterval: number;
+  private currentRate: number;
   private tokens: number;
-  private readonly queue: PendingRequest[] = [];
+  private readonly queue: PriorityQueue<PendingRequest>;
   private refillHandle: ReturnType<typeof setInterval>;
+  private readonly metrics?: Metrics;
+  private readonly adaptive?: Required<AdaptiveRateLimitOptions>;
+  private pausedUntil = 0;
+  private lastSlowdownAt = 0;
+  private throttled = false;
 
   /**
    * Create a token bucket limiter.
    *
-   * @param options Override the bucket size or interval duration.
+   * @param options Override the bucket size or interval duration, attach metrics, or enable
+   * adaptive mode.
    */
   constructor(options: RateLimiterOptions = {}) {
+    super();
     this.tokensPerInterval = Math.max(1, options.tokensPerInterval ?? 100);
     this.intervalMs = Math.max(1, options.intervalMs ?? 60_000);
     this.tokens = this.tokensPerInterval;
+    this.currentRate = this.tokensPerInterval;
+    this.metrics = options.metrics;
     this.refillInterval = this.intervalMs / this.tokensPerInterval;
-    this.refillHandle = setInterval(() => this.refill(), this.refillInterval);
-    // Avoid keeping Node.js event loop alive if supported.
-    (this.refillHandle as unknown as { unref?: () => void }).unref?.();
+    this.refillHandle = this.startRefillTimer();
+    this.queue = new PriorityQueue({
+      weights: options.priorityWeights,
+      starvationThresholdMs: options.starvationThresholdMs,
+    });
+
+    if (options.adaptive) {
+      const adaptive = options.adaptive === true ? {} : options.adaptive;
+      const tenth = Math.max(1, Math.ceil(this.tokensPerInterval * 0.1));
+      this.adaptive = {
+        minTokensPerInterval: Math.min(
+          this.tokensPerInterval,
+          Math.max(1, adaptive.minTokensPerInterval ?? tenth)
+        ),
+        decreaseFactor: Math.min(1, Math.max(0, adaptive.decreaseFactor ?? 0.5)),
+        recoveryIntervalMs: Math.max(
+          0,
+          adaptive.recoveryIntervalMs ?? this.intervalMs / 6
+        ),
+        recoveryStep: Math.max(1, adaptive.recoveryStep ?? tenth),
+      };
+    }
+  }
+
+  /**
+   * Refill rate currently in effect. Equals `tokensPerInterval` unless adaptive mode slowed down.
+   */
+  get currentTokensPerInterval(): number {
+    return this.currentRate;
   }
 
   /**
-   * Acquire a single token before proceeding.
-   * The returned promise resolves when a token is allocated.
+   * Read-only view of the bucket and its queue.
+   */
+  snapshot(): RateLimiterSnapshot {
+    const now = Date.now();
+    return {
+      availableTokens: Math.max(0, this.tokens),
+      tokensPerInterval: this.currentRate,
+      queueLength: this.queue.length,
+      queued: this.queue.counts(),
+      oldestWaitMs: this.queue.oldestWaitMs(now),
+      pausedForMs: Math.max(0, this.pausedUntil - now),
+    };
+  }
+
+  /**
+   * Acquire tokens before proceeding.
+   * The returned promise resolves when the tokens are allocated.
+   *
+   * Pass a token count first for operations that weigh more than one request, e.g.
+   * `acquire(5, signal)` before a batch of five uploads.
    *
    * @param signal Optional abort signal used to cancel the wait.
-   * @returns Promise that resolves once a token is granted.
-   * @throws {Error} Rejects with an `AbortError` if the signal aborts before a token is available.
+   * @param options Optional priority lane to wait in.
+   * @returns Promise that resolves once the tokens are granted.
+   * @throws {Error} Rejects with an `AbortError` if the signal aborts before the tokens are available.
+   * @throws {RangeError} Rejects when more tokens are requested than the bucket can hold.
    */
-  acquire(signal?: AbortSignalLike): Promise<void> {
+  acquire(signal?: AbortSignalLike, options?: AcquireOptions): Promise<void>;
+  acquire(
+    tokens: number,
+    signal?: AbortSignalLike,
+    options?: AcquireOptions
+  ): Promise<void>;
+  acquire(
+    tokensOrSignal?: number | AbortSignalLike,
+    signalOrOptions?: AbortSignalLike | AcquireOptions,
+    maybeOptions?: AcquireOptions
+  ): Promise<void> {
+    const weighted = typeof tokensOrSignal === "number";
+    const tokens = weighted ? tokensOrSignal : 1;
+    const signal = (weighted ? signalOrOptions : tokensOrSignal) as
+      | AbortSignalLike
+      | undefined;
+    const options = ((weighted ? maybeOptions : signalOrOptions) ??
+      {}) as AcquireOptions;
+
+    const invalid = this.checkTokenCount(tokens);
+    if (invalid) {
+      return Promise.reject(invalid);
+    }
     if (signal?.aborted) {
       return Promise.reject(createAbortError());
     }
 
-    if (this.tokens > 0) {
-      this.tokens -= 1;
+    if (this.tryAcquire(tokens)) {
       return Promise.resolve();
     }
 
@@ -82,10 +298,15 @@ export class RateLimiter {
         resolve: () => resolve(),
         reject,
         signal,
+        priority: options.priority ?? "normal",
+        tokens,
+        enqueuedAt: Date.now(),
       };
 
       const onAbort = () => {
-        this.removeFromQueue(pending);
+        if (this.queue.remove(pending)) {
+          this.reportQueueDepth();
+        }
         reject(createAbortError());
       };
 
@@ -97,9 +318,91 @@ export class RateLimiter {
       };
 
       this.queue.push(pending);
+      this.reportQueueDepth();
     });
   }
 
+  /**
+   * Take tokens only if they are available right now and nobody is queued ahead.
+   *
+   * @param tokens Number of tokens to take. Defaults to 1.
+   * @returns Whether the tokens were taken.
+   * @throws {RangeError} When `tokens` is not an integer between 1 and `tokensPerInterval`.
+   */
+  tryAcquire(tokens = 1): boolean {
+    const invalid = this.checkTokenCount(tokens);
+    if (invalid) {
+      throw invalid;
+    }
+    if (
+      this.queue.length > 0 ||
+      Date.now() < this.pausedUntil ||
+      this.tokens < this.required(tokens)
+    ) {
+      return false;
+    }
+    this.tokens -= tokens;
+    return true;
+  }
+
+  /**
+   * Reject token counts the bucket can never grant, and negative counts that would refill it.
+   */
+  private checkTokenCount(tokens: number): RangeError | undefined {
+    if (!Number.isInteger(tokens) || tokens < 1 || tokens > this.tokensPerInterval) {
+      return new RangeError(
+        `Token count must be an integer between 1 and ${this.tokensPerInterval}`
+      );
+    }
+    return undefined;
+  }
+
+  /**
+   * Feed the outcome of an attempt back into the limiter. Ignored unless adaptive mode is on.
+   *
+   * A 429 multiplies the refill rate by `decreaseFactor`, empties the bucket, and pauses all
+   * acquirers until `Retry-After` or the rate-limit reset time. Rate-limit headers on other
+   * responses lower the rate to what the remaining quota can sustain until the reset, pausing
+   * once the quota is exhausted.
+   *
+   * @param feedback Status and headers of the response.
+   */
+  observe(feedback: RateLimitFeedback): void {
+    const adaptive = this.adaptive;
+    if (!adaptive) {
+      return;
+    }
+
+    const now = Date.now();
+    const headers = lowerCaseHeaders(feedback.headers);
+    const resetAt = parseResetTime(headers, now);
+
+    if (feedback.status === 429) {
+      this.setRate(Math.floor(this.currentRate * adaptive.decreaseFactor), now);
+      this.tokens = 0;
+      this.pause(resetAt ?? now + this.refillInterval);
+      return;
+    }
+
+    const remaining = parseNumber(
+      headers["x-ratelimit-remaining"] ?? headers["ratelimit-remaining"]
+    );
+    if (remaining === undefined || resetAt === undefined) {
+      return;
+    }
+
+    if (remaining <= 0) {
+      this.tokens = 0;
+      this.pause(resetAt);
+    }
+    const sustainable = Math.floor(
+      (remaining * this.intervalMs) / Math.max(1, resetAt - now)
+    );
+    if (sustainable < this.currentRate) {
+      this.setRate(sustainable, now);
+    }
+  }
+
   /**
    * Stop the internal refill timer and clear queued waiters.
    *
@@ -107,19 +410,28 @@ export class RateLimiter {
    */
   dispose(): void {
     clearInterval(this.refillHandle);
-    while (this.queue.length > 0) {
-      const pending = this.queue.shift();
-      pending?.reject(new Error("Rate limiter disposed"));
+    for (const pending of this.queue.clear()) {
+      pending.reject(new Error("Rate limiter disposed"));
     }
+    this.reportQueueDepth();
   }
 
   private refill(): void {
-    if (this.tokens < this.tokensPerInterval) {
+    const now = Date.now();
+    if (now < this.pausedUntil) {
+      return;
+    }
+    this.recover(now);
+
+    if (this.tokens < this.currentRate) {
       this.tokens += 1;
     }
 
-    while (this.tokens > 0 && this.queue.length > 0) {
-      const pending = this.queue.shift();
+    for (;;) {
+      const pending = this.queue.shift(
+        Date.now(),
+        (waiter) => this.tokens >= this.required(waiter.tokens)
+      );
       if (!pending) {
         break;
       }
@@ -129,54 +441,157 @@ export class RateLimiter {
         continue;
       }
 
-      this.tokens -= 1;
+      this.tokens -= pending.tokens;
       pending.resolve();
     }
 
-    if (this.tokens > this.tokensPerInterval) {
-      this.tokens = this.tokensPerInterval;
+    if (this.tokens > this.currentRate) {
+      this.tokens = this.currentRate;
+    }
+    this.reportQueueDepth();
+  }
+
+  private pause(until: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, until);
+  }
+
+  private setRate(rate: number, now: number): void {
+    const adaptive = this.adaptive;
+    if (!adaptive) {
+      return;
+    }
+
+    this.lastSlowdownAt = now;
+    const next = Math.min(
+      this.tokensPerInterval,
+      Math.max(adaptive.minTokensPerInterval, rate)
+    );
+    this.applyRate(next);
+  }
+
+  /**
+   * Raise the rate by one step once a full quiet period has passed since the last slowdown.
+   */
+  private recover(now: number): void {
+    const adaptive = this.adaptive;
+    if (
+      !adaptive ||
+      this.currentRate >= this.tokensPerInterval ||
+      now - this.lastSlowdownAt < adaptive.recoveryIntervalMs
+    ) {
+      return;
+    }
+
+    // Each step restarts the quiet period so the rate climbs gradually.
+    this.lastSlowdownAt = now;
+    this.applyRate(
+      Math.min(this.tokensPerInterval, this.currentRate + adaptive.recoveryStep)
+    );
+  }
+
+  private applyRate(rate: number): void {
+    if (rate === this.currentRate) {
+      return;
     }
+    this.currentRate = rate;
+    this.tokens = Math.min(this.tokens, rate);
+    this.refillInterval = this.intervalMs / rate;
+    clearInterval(this.refillHandle);
+    this.refillHandle = this.startRefillTimer();
   }
 
-  private removeFromQueue(pending: PendingRequest): void {
-    const index = this.queue.indexOf(pending);
-    if (index >= 0) {
-      this.queue.splice(index, 1);
+  private startRefillTimer(): ReturnType<typeof setInterval> {
+    const handle = setInterval(() => this.refill(), this.refillInterval);
+    // Avoid keeping Node.js event loop alive if supported.
+    (handle as unknown as { unref?: () => void }).unref?.();
+    return handle;
+  }
+
+  /**
+   * Tokens that must be available to grant `tokens`. While adaptive mode has shrunk the bucket
+   * below a weighted request, a full bucket is enough and the remainder is borrowed from
+   * future refills.
+   */
+  private required(tokens: number): number {
+    return Math.min(tokens, Math.max(1, this.currentRate));
+  }
+
+  private reportQueueDepth(): void {
+    const length = this.queue.length;
+    this.metrics?.recordQueueDepth(length);
+
+    if (length > 0 && !this.throttled) {
+      this.throttled = true;
+      this.emit("throttled", this.snapshot());
+    } else if (length === 0 && this.throttled) {
+      this.throttled = false;
+      this.emit("drained", this.snapshot());
     }
   }
 }
 
-function createAbortError(): Error {
+/**
+ * Create the `AbortError` raised whenever a caller cancels a pending SDK operation.
+ */
+export function createAbortError(): Error {
   const error = new Error("Operation aborted");
   error.name = "AbortError";
   return error;
 }
 
-function attachAbortListener(
-  signal: AbortSignalLike | undefined,
-  handler: AbortHandler
-): (() => void) | undefined {
-  if (!signal) {
-    return undefined;
+function lowerCaseHeaders(
+  headers: Record<string, unknown> | undefined
+): Record<string, string> {
+  const normalized: Record<string, string> = {};
+  for (const [key, value] of Object.entries(headers ?? {})) {
+    if (value !== undefined && value !== null) {
+      normalized[key.toLowerCase()] = Array.isArray(value)
+        ? String(value[0])
+        : String(value);
+    }
   }
+  return normalized;
+}
 
-  if (typeof signal.addEventListener === "function") {
-    signal.addEventListener("abort", handler, { once: true });
-    return () => signal.removeEventListener?.("abort", handler);
+function parseNumber(value: string | undefined): number | undefined {
+  if (value === undefined || value.trim() === "") {
+    return undefined;
   }
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
 
-  if ("onabort" in signal) {
-    const previous = signal.onabort;
-    signal.onabort = () => {
-      handler();
-      if (typeof previous === "function") {
-        previous.call(signal);
-      }
-    };
-    return () => {
-      signal.onabort = previous ?? null;
-    };
+/**
+ * Resolve when the server's rate-limit window resets, from `Retry-After` (seconds or HTTP date)
+ * or `X-RateLimit-Reset` / `RateLimit-Reset` (delta seconds or a Unix timestamp).
+ */
+function parseResetTime(
+  headers: Record<string, string>,
+  now: number
+): number | undefined {
+  const retryAfter = headers["retry-after"];
+  if (retryAfter !== undefined) {
+    const seconds = parseNumber(retryAfter);
+    if (seconds !== undefined) {
+      return now + Math.max(0, seconds * 1000);
+    }
+    const date = Date.parse(retryAfter);
+    if (!Number.isNaN(date)) {
+      return Math.max(now, date);
+    }
   }
 
-  return undefined;
+  const reset = parseNumber(
+    headers["x-ratelimit-reset"] ?? headers["ratelimit-reset"]
+  );
+  if (reset === undefined) {
+    return undefined;
+  }
+  if (reset > 1e12) {
+    return Math.max(now, reset);
+  }
+  if (reset > 1e9) {
+    return Math.max(now, reset * 1000);
+  }
+  return now + Math.max(0, reset * 1000);
 }
@@ -0,0 +1,89 @@
+/**
+ * Shape of a token bucket shared through a {@link RateLimiterStore}.
+ */
+export interface TokenBucketConfig {
+  /** Maximum number of tokens the bucket holds. */
+  capacity: number;
+  /** Milliseconds needed to refill a single token. */
+  refillMs: number;
+}
+
+/**
+ * Persisted state of one bucket.
+ */
+export interface TokenBucketState {
+  tokens: number;
+  /** Epoch milliseconds of the last update. */
+  updatedAt: number;
+}
+
+/**
+ * Outcome of {@link RateLimiterStore.take}.
+ */
+export interface TokenTakeResult {
+  granted: boolean;
+  /** When not granted, how long until the next token is expected. */
+  waitMs: number;
+}
+
+/**
+ * Storage for token buckets shared between limiter instances, possibly in other processes.
+ * Implementations must make {@link take} atomic for a given key.
+ */
+export interface RateLimiterStore {
+  /**
+   * Try to take one token from the bucket stored under `key`, creating a full bucket when none
+   * exists yet.
+   */
+  take(key: string, bucket: TokenBucketConfig): Promise<TokenTakeResult>;
+  /** Release connections or handles held by the store. */
+  dispose?(): void | Promise<void>;
+}
+
+/**
+ * Token-bucket arithmetic shared by every store: refill for the elapsed time, then take a token
+ * if one is available. Exported for custom {@link RateLimiterStore} implementations.
+ *
+ * @param state Current state, or `undefined` for a new (full) bucket.
+ * @param bucket Capacity and refill speed.
+ * @param now Current time in epoch milliseconds.
+ * @returns The next state to persist and the take result.
+ */
+export function takeToken(
+  state: TokenBucketState | undefined,
+  bucket: TokenBucketConfig,
+  now: number
+): { state: TokenBucketState; result: TokenTakeResult } {
+  const capacity = Math.max(1, bucket.capacity);
+  const refillMs = Math.max(1, bucket.refillMs);
+  const elapsed = state ? Math.max(0, now - state.updatedAt) : 0;
+  const tokens = state
+    ? Math.min(capacity, state.tokens + elapsed / refillMs)
+    : capacity;
+
+  if (tokens >= 1) {
+    return {
+      state: { tokens: tokens - 1, updatedAt: now },
+      result: { granted: true, waitMs: 0 },
+    };
+  }
+
+  return {
+    state: { tokens, updatedAt: now },
+    result: { granted: false, waitMs: Math.ceil((1 - tokens) * refillMs) },
+  };
+}
+
+/**
+ * {@link RateLimiterStore} kept in process memory. Lets several limiter instances (for example,
+ * several clients) share a bucket within one process.
+ */
+export class MemoryRateLimiterStore implements RateLimiterStore {
+  private readonly buckets = new Map<string, TokenBucketState>();
+
+  async take(key: string, bucket: TokenBucketConfig): Promise<TokenTakeResult> {
+    const { state, result } = takeToken(this.buckets.get(key), bucket, Date.now());
+    this.buckets.set(key, state);
+    return result;
+  }
+}
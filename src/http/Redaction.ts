@@ -0,0 +1,94 @@
+/**
+ * Placeholder substituted for secret values before they are logged or serialized.
+ */
+export const REDACTED = "[REDACTED]";
+
+/** Header names (lower-cased) whose values are always redacted. */
+const SENSITIVE_HEADERS = new Set([
+  "authorization",
+  "proxy-authorization",
+  "cookie",
+  "set-cookie",
+]);
+
+/**
+ * Body and form field names whose values are always redacted: OAuth client secrets and tokens,
+ * webhook verification tokens, and user passwords.
+ */
+const SENSITIVE_FIELDS = new Set([
+  "client_secret",
+  "refresh_token",
+  "access_token",
+  "token",
+  "password",
+]);
+
+/**
+ * Copy a header map with credentials replaced by {@link REDACTED}.
+ *
+ * @param headers Request or response headers.
+ * @returns A plain object safe to log, or `undefined` when no headers were supplied.
+ */
+export function redactHeaders(
+  headers?: Record<string, unknown> | null
+): Record<string, unknown> | undefined {
+  if (!headers) {
+    return undefined;
+  }
+
+  const redacted: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(headers)) {
+    if (value === undefined || value === null) {
+      continue;
+    }
+    redacted[key] = SENSITIVE_HEADERS.has(key.toLowerCase()) ? REDACTED : value;
+  }
+  return redacted;
+}
+
+/**
+ * Deep-copy a request or response payload with secret fields replaced by {@link REDACTED}.
+ * `URLSearchParams` form bodies (as used by the OAuth helpers) are converted to plain objects.
+ *
+ * @param payload Arbitrary JSON-compatible payload.
+ * @returns A copy safe to log.
+ */
+export function redactPayload(payload: unknown): unknown {
+  if (payload instanceof URLSearchParams) {
+    const fields: Record<string, string> = {};
+    payload.forEach((value, key) => {
+      fields[key] = SENSITIVE_FIELDS.has(key) ? REDACTED : value;
+    });
+    return fields;
+  }
+
+  return redactValue(payload, new WeakSet());
+}
+
+/**
+ * @param ancestors Objects on the path from the root to `value`. Only these count as circular;
+ * an object shared by two branches is copied into both.
+ */
+function redactValue(value: unknown, ancestors: WeakSet<object>): unknown {
+  if (value === null || typeof value !== "object") {
+    return value;
+  }
+  if (ancestors.has(value)) {
+    return "[Circular]";
+  }
+  ancestors.add(value);
+
+  let redacted: unknown;
+  if (Array.isArray(value)) {
+    redacted = value.map((entry) => redactValue(entry, ancestors));
+  } else {
+    const fields: Record<string, unknown> = {};
+    for (const [key, entry] of Object.entries(value as Record<string, unknown>)) {
+      fields[key] = SENSITIVE_FIELDS.has(key) ? REDACTED : redactValue(entry, ancestors);
+    }
+    redacted = fields;
+  }
+
+  ancestors.delete(value);
+  return redacted;
+}
@@ -0,0 +1,295 @@
+import { connect } from "node:net";
+import type { Socket } from "node:net";
+import type {
+  RateLimiterStore,
+  TokenBucketConfig,
+  TokenTakeResult,
+} from "./RateLimiterStore.js";
+
+/**
+ * Anything able to run a raw Redis command, e.g. `{ send: (args) => redis.call(...args) }` for
+ * ioredis or `{ send: (args) => client.sendCommand(args) }` for node-redis.
+ */
+export interface RedisCommandClient {
+  send(args: string[]): Promise<unknown>;
+}
+
+/**
+ * Options accepted by {@link RedisRateLimiterStore}.
+ */
+export interface RedisRateLimiterStoreOptions {
+  /**
+   * Existing client to issue commands through. When omitted the store opens its own connection
+   * using `host`, `port`, `password`, and `db`.
+   */
+  client?: RedisCommandClient;
+  /** Defaults to `127.0.0.1`. */
+  host?: string;
+  /** Defaults to `6379`. */
+  port?: number;
+  password?: string;
+  db?: number;
+  /** Prefix for every key written by the store. Defaults to `companycam:ratelimit:`. */
+  keyPrefix?: string;
+}
+
+/**
+ * Token-bucket take run atomically on the server, the same arithmetic as `takeToken`. The clock
+ * is the server's `TIME`, so clock skew between hosts cannot corrupt the shared bucket. State is
+ * written by hand rather than with `cjson.encode`, which rounds epoch milliseconds, and the clock
+ * is kept in floating point because `%d` and integer arithmetic are 32-bit on some Lua builds.
+ *
+ * KEYS[1]: bucket state. ARGV: capacity, refill milliseconds, state TTL in milliseconds.
+ * Returns `{ granted (0 or 1), waitMs }`.
+ */
+const TAKE_SCRIPT = `
+if redis.replicate_commands then redis.replicate_commands() end
+local capacity = math.max(1, tonumber(ARGV[1]))
+local refill_ms = math.max(1, tonumber(ARGV[2]))
+local time = redis.call("TIME")
+local now = tonumber(time[1]) * 1000.0 + math.floor(tonumber(time[2]) / 1000)
+local tokens = capacity
+local raw = redis.call("GET", KEYS[1])
+if raw then
+  local state = cjson.decode(raw)
+  tokens = math.min(capacity, state.tokens + math.max(0, now - state.updatedAt) / refill_ms)
+end
+local granted = 0
+local wait_ms = 0
+if tokens >= 1 then
+  tokens = tokens - 1
+  granted = 1
+else
+  wait_ms = math.ceil((1 - tokens) * refill_ms)
+end
+local state = string.format('{"tokens":%.17g,"updatedAt":%.0f}', tokens, now)
+redis.call("SET", KEYS[1], state, "PX", ARGV[3])
+return { granted, wait_ms }
+`;
+
+/**
+ * {@link RateLimiterStore} shared by any number of hosts through Redis or a Redis-protocol
+ * compatible server with Lua scripting (Valkey, KeyDB, DragonflyDB, ...). Each take is a single
+ * `EVAL`, so it is atomic without locks and uses the server's clock rather than each host's.
+ */
+export class RedisRateLimiterStore implements RateLimiterStore {
+  private readonly client: RedisCommandClient;
+  private readonly connection?: RespConnection;
+  private readonly keyPrefix: string;
+
+  /**
+   * Create a store using an existing client or a new connection.
+   *
+   * @param options Connection details and key prefix.
+   */
+  constructor(options: RedisRateLimiterStoreOptions = {}) {
+    if (options.client) {
+      this.client = options.client;
+    } else {
+      this.connection = new RespConnection(options);
+      this.client = this.connection;
+    }
+    this.keyPrefix = options.keyPrefix ?? "companycam:ratelimit:";
+  }
+
+  async take(key: string, bucket: TokenBucketConfig): Promise<TokenTakeResult> {
+    // Idle buckets are full again after capacity * refillMs, so they can expire.
+    const ttlMs = Math.max(1, Math.ceil(bucket.capacity * bucket.refillMs));
+    const reply = await this.client.send([
+      "EVAL",
+      TAKE_SCRIPT,
+      "1",
+      `${this.keyPrefix}${key}`,
+      String(bucket.capacity),
+      String(bucket.refillMs),
+      String(ttlMs),
+    ]);
+    if (!Array.isArray(reply) || reply.length !== 2) {
+      throw new Error(`Unexpected reply from rate limiter script: ${JSON.stringify(reply)}`);
+    }
+    return { granted: Number(reply[0]) === 1, waitMs: Number(reply[1]) };
+  }
+
+  /**
+   * Close the connection opened by the store. Clients passed in `options.client` are left open.
+   */
+  dispose(): void {
+    this.connection?.close();
+  }
+}
+
+interface PendingReply {
+  resolve: (value: unknown) => void;
+  reject: (reason: unknown) => void;
+}
+
+/**
+ * Minimal RESP2 connection: pipelined commands, replies matched in order.
+ */
+class RespConnection implements RedisCommandClient {
+  private socket?: Socket;
+  private ready?: Promise<void>;
+  private buffer = Buffer.alloc(0);
+  private readonly pending: PendingReply[] = [];
+  private readonly options: RedisRateLimiterStoreOptions;
+
+  constructor(options: RedisRateLimiterStoreOptions) {
+    this.options = options;
+  }
+
+  async send(args: string[]): Promise<unknown> {
+    await this.connect();
+    return this.write(args);
+  }
+
+  close(): void {
+    this.socket?.end();
+    this.socket = undefined;
+    this.ready = undefined;
+    this.failPending(new Error("Redis connection closed"));
+  }
+
+  private connect(): Promise<void> {
+    if (!this.ready) {
+      this.ready = new Promise<void>((resolve, reject) => {
+        const socket = connect(
+          this.options.port ?? 6379,
+          this.options.host ?? "127.0.0.1"
+        );
+        this.socket = socket;
+        socket.once("connect", () => resolve());
+        socket.on("error", (error) => {
+          reject(error);
+          if (this.socket === socket) {
+            this.failPending(error);
+          }
+        });
+        socket.once("close", () => {
+          // Reconnect lazily on the next command.
+          if (this.socket === socket) {
+            this.socket = undefined;
+            this.ready = undefined;
+            this.buffer = Buffer.alloc(0);
+            this.failPending(new Error("Redis connection closed"));
+          }
+        });
+        socket.on("data", (chunk: Buffer) => this.onData(chunk));
+      }).then(async () => {
+        if (this.options.password) {
+          await this.write(["AUTH", this.options.password]);
+        }
+        if (this.options.db) {
+          await this.write(["SELECT", String(this.options.db)]);
+        }
+      });
+    }
+    return this.ready;
+  }
+
+  private write(args: string[]): Promise<unknown> {
+    const socket = this.socket;
+    if (!socket) {
+      return Promise.reject(new Error("Redis connection closed"));
+    }
+
+    return new Promise((resolve, reject) => {
+      this.pending.push({ resolve, reject });
+      socket.write(encodeCommand(args));
+    });
+  }
+
+  private onData(chunk: Buffer): void {
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+    for (;;) {
+      let parsed: ReturnType<typeof parseReply>;
+      try {
+        parsed = parseReply(this.buffer, 0);
+      } catch (error) {
+        // The stream is out of sync; nothing after this point can be trusted.
+        this.buffer = Buffer.alloc(0);
+        this.failPending(error);
+        this.close();
+        return;
+      }
+      if (!parsed) {
+        return;
+      }
+      this.buffer = this.buffer.subarray(parsed.end);
+      const reply = this.pending.shift();
+      if (parsed.value instanceof Error) {
+        reply?.reject(parsed.value);
+      } else {
+        reply?.resolve(parsed.value);
+      }
+    }
+  }
+
+  private failPending(error: unknown): void {
+    while (this.pending.length > 0) {
+      this.pending.shift()?.reject(error);
+    }
+  }
+}
+
+function encodeCommand(args: string[]): string {
+  let command = `*${args.length}\r\n`;
+  for (const arg of args) {
+    command += `$${Buffer.byteLength(arg)}\r\n${arg}\r\n`;
+  }
+  return command;
+}
+
+/**
+ * Parse one RESP2 reply starting at `offset`, or return `undefined` if more data is needed.
+ */
+function parseReply(
+  buffer: Buffer,
+  offset: number
+): { value: unknown; end: number } | undefined {
+  const lineEnd = buffer.indexOf("\r\n", offset);
+  if (lineEnd === -1) {
+    return undefined;
+  }
+
+  const type = String.fromCharCode(buffer[offset]!);
+  const line = buffer.toString("utf8", offset + 1, lineEnd);
+  const next = lineEnd + 2;
+
+  switch (type) {
+    case "+":
+      return { value: line, end: next };
+    case "-":
+      return { value: new Error(line), end: next };
+    case ":":
+      return { value: Number(line), end: next };
+    case "$": {
+      const length = Number(line);
+      if (length < 0) {
+        return { value: null, end: next };
+      }
+      if (buffer.length < next + length + 2) {
+        return undefined;
+      }
+      return { value: buffer.toString("utf8", next, next + length), end: next + length + 2 };
+    }
+    case "*": {
+      const count = Number(line);
+      if (count < 0) {
+        return { value: null, end: next };
+      }
+      const items: unknown[] = [];
+      let cursor = next;
+      for (let index = 0; index < count; index += 1) {
+        const item = parseReply(buffer, cursor);
+        if (!item) {
+          return undefined;
+        }
+        items.push(item.value);
+        cursor = item.end;
+      }
+      return { value: items, end: cursor };
+    }
+    default:
+      throw new Error(`Unexpected Redis reply type "${type}"`);
+  }
+}
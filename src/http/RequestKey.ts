@@ -0,0 +1,181 @@
+import type { AxiosRequestConfig } from "axios";
+import type { HttpRequestOptions } from "./HttpClient.js";
+
+/**
+ * Per-call options that decide how a shared request is scheduled and retried.
+ */
+export type CoalescingOptions = Pick<
+  HttpRequestOptions,
+  "priority" | "useRateLimiter" | "tenantKey" | "retry"
+>;
+
+/**
+ * Identity of a prepared request: method, URL, query parameters, bearer token, and
+ * `X-CompanyCam-User`. Two requests with the same key are interchangeable. Credentials are
+ * hashed so keys can be logged or persisted safely.
+ */
+export function requestKey(config: AxiosRequestConfig): string {
+  const headers = (config.headers ?? {}) as Record<string, unknown>;
+  const vary = [
+    headerValue(headers, "authorization"),
+    headerValue(headers, "x-companycam-user"),
+  ];
+  const params = Object.entries((config.params ?? {}) as Record<string, unknown>)
+    .filter(([, value]) => value !== undefined && value !== null)
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+
+  return `${(config.method ?? "GET").toUpperCase()} ${config.baseURL ?? ""}${requestPath(
+    config
+  )} ${sha256(JSON.stringify([params, vary]))}`;
+}
+
+/**
+ * Key under which concurrent GETs may share one network call: the {@link requestKey} plus the
+ * conditional headers, so a revalidation answered with `304 Not Modified` is only shared with
+ * other revalidations of the same entry, and the settings the shared call runs with (limiter
+ * lane and partition, timeout, and retries), so no caller inherits another's.
+ *
+ * @param config Prepared request.
+ * @param options Scheduling and retry options of the call.
+ * @returns `undefined` when the request must not be shared: a custom `validateStatus` on a plain
+ * request, or a per-call retry `policy` or `onRetry`, cannot be compared with another caller's.
+ */
+export function coalescingKey(
+  config: AxiosRequestConfig,
+  options: CoalescingOptions = {}
+): string | undefined {
+  const headers = (config.headers ?? {}) as Record<string, unknown>;
+  const conditions = [
+    headerValue(headers, "if-none-match"),
+    headerValue(headers, "if-modified-since"),
+  ];
+  const conditional = conditions.some((value) => value !== undefined);
+  const { retry } = options;
+  if ((config.validateStatus && !conditional) || retry?.policy || retry?.onRetry) {
+    return undefined;
+  }
+  const settings = JSON.stringify([
+    options.priority ?? "normal",
+    options.useRateLimiter ?? true,
+    options.tenantKey ?? null,
+    config.timeout ?? null,
+    retry
+      ? [
+          retry.retries ?? null,
+          retry.allowPostRetry ?? null,
+          retry.retryableStatuses ?? null,
+          retry.maxRetryAfterMs ?? null,
+        ]
+      : null,
+  ]);
+  return conditional
+    ? `${requestKey(config)} ${settings} ${JSON.stringify([
+        ...conditions,
+        Boolean(config.validateStatus),
+      ])}`
+    : `${requestKey(config)} ${settings}`;
+}
+
+/**
+ * Request URL without query string, fragment, or trailing slash.
+ */
+export function requestPath(config: AxiosRequestConfig): string {
+  const path = (config.url ?? "").split(/[?#]/)[0] ?? "";
+  return path.length > 1 ? path.replace(/\/+$/, "") : path;
+}
+
+/**
+ * Deep-copy a JSON response payload so callers sharing a response cannot affect each other.
+ */
+export function cloneData(data: unknown): unknown {
+  return data === undefined ? undefined : JSON.parse(JSON.stringify(data));
+}
+
+/**
+ * Hex-encoded SHA-256 digest, used to keep credentials out of keys and file names. Implemented in
+ * plain JavaScript because it runs synchronously on every request and Web Crypto's digest is
+ * asynchronous; `node:crypto` would tie the client to Node.js.
+ */
+export function sha256(value: string): string {
+  const bytes = new TextEncoder().encode(value);
+  // Pad to a multiple of 64 bytes: 0x80, zeros, then the message length in bits (big-endian).
+  const length = (((bytes.length + 8) >> 6) + 1) << 6;
+  const message = new Uint8Array(length);
+  message.set(bytes);
+  message[bytes.length] = 0x80;
+  const view = new DataView(message.buffer);
+  view.setUint32(length - 8, Math.floor(bytes.length / 0x20000000));
+  view.setUint32(length - 4, (bytes.length << 3) >>> 0);
+
+  const hash = [...SHA256_INITIAL];
+  const words = new Uint32Array(64);
+  for (let offset = 0; offset < length; offset += 64) {
+    for (let i = 0; i < 16; i++) {
+      words[i] = view.getUint32(offset + i * 4);
+    }
+    for (let i = 16; i < 64; i++) {
+      const w15 = words[i - 15]!;
+      const w2 = words[i - 2]!;
+      const s0 = rotateRight(w15, 7) ^ rotateRight(w15, 18) ^ (w15 >>> 3);
+      const s1 = rotateRight(w2, 17) ^ rotateRight(w2, 19) ^ (w2 >>> 10);
+      words[i] = (words[i - 16]! + s0 + words[i - 7]! + s1) >>> 0;
+    }
+
+    let [a, b, c, d, e, f, g, h] = hash as [
+      number, number, number, number, number, number, number, number,
+    ];
+    for (let i = 0; i < 64; i++) {
+      const s1 = rotateRight(e, 6) ^ rotateRight(e, 11) ^ rotateRight(e, 25);
+      const choice = (e & f) ^ (~e & g);
+      const t1 = (h + s1 + choice + SHA256_ROUND_CONSTANTS[i]! + words[i]!) >>> 0;
+      const s0 = rotateRight(a, 2) ^ rotateRight(a, 13) ^ rotateRight(a, 22);
+      const majority = (a & b) ^ (a & c) ^ (b & c);
+      const t2 = (s0 + majority) >>> 0;
+      h = g;
+      g = f;
+      f = e;
+      e = (d + t1) >>> 0;
+      d = c;
+      c = b;
+      b = a;
+      a = (t1 + t2) >>> 0;
+    }
+
+    [a, b, c, d, e, f, g, h].forEach((word, i) => {
+      hash[i] = (hash[i]! + word) >>> 0;
+    });
+  }
+
+  return hash.map((word) => word.toString(16).padStart(8, "0")).join("");
+}
+
+const SHA256_INITIAL = [
+  0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19,
+];
+
+const SHA256_ROUND_CONSTANTS = [
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+];
+
+function rotateRight(word: number, bits: number): number {
+  return (word >>> bits) | (word << (32 - bits));
+}
+
+function headerValue(
+  headers: Record<string, unknown>,
+  name: string
+): string | undefined {
+  for (const [key, value] of Object.entries(headers)) {
+    if (key.toLowerCase() === name && value !== undefined && value !== null) {
+      return String(value);
+    }
+  }
+  return undefined;
+}
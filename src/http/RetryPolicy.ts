@@ -0,0 +1,226 @@
+import type { AxiosError, AxiosRequestConfig } from "axios";
+
+/**
+ * Information passed to {@link RetryPolicy.nextDelay}.
+ */
+export interface RetryContext {
+  /** 1-based number of the retry about to happen. */
+  retryCount: number;
+  /** Failure of the previous attempt. */
+  error: AxiosError;
+  config: AxiosRequestConfig;
+  /** Delay applied before the previous retry, or `0` before the first one. */
+  previousDelayMs: number;
+}
+
+/**
+ * Backoff schedule between retries. Which failures are retryable and how many retries are
+ * allowed is decided by {@link RetryOptions}; the policy only picks the delay, or stops early.
+ */
+export interface RetryPolicy {
+  /**
+   * @returns Milliseconds to wait before the retry, or `null` to give up.
+   */
+  nextDelay(context: RetryContext): number | null;
+}
+
+/**
+ * Facts about a failed attempt that decide whether it may be retried.
+ */
+export interface RetryableFailure {
+  /** HTTP method of the request. */
+  method?: string;
+  /** Response status; absent when no response arrived. */
+  status?: number;
+  /** Whether the request carried an `Idempotency-Key`, which makes POSTs safe to retry. */
+  hasIdempotencyKey?: boolean;
+  /** Whether the attempt failed with a transient network error such as a reset connection. */
+  networkError?: boolean;
+  /** Whether the attempt exceeded its per-request `timeout` before a response arrived. */
+  timeout?: boolean;
+}
+
+/**
+ * Client settings that widen or narrow {@link isRetryableFailure}.
+ */
+export interface RetryRules {
+  allowPostRetry?: boolean;
+  /** Replaces the default retryable statuses (408, 429, and 5xx). */
+  retryableStatuses?: readonly number[];
+}
+
+const IDEMPOTENT_METHODS = new Set(["GET", "PUT", "PATCH", "DELETE"]);
+
+/**
+ * Retry rules applied by {@link HttpClient} and reported by `APIError.isRetryable`: idempotent
+ * methods (and POSTs with an idempotency key) are retried on 408, 429, 5xx, network errors, and
+ * timeouts.
+ *
+ * @param failure Method, status, and transport outcome of the attempt.
+ * @param rules Client settings; defaults match a client without retry overrides.
+ */
+export function isRetryableFailure(
+  failure: RetryableFailure,
+  rules: RetryRules = {}
+): boolean {
+  const method = failure.method?.toUpperCase();
+  const isMethodRetryable =
+    !method ||
+    IDEMPOTENT_METHODS.has(method) ||
+    (method === "POST" && (rules.allowPostRetry || failure.hasIdempotencyKey === true));
+  if (!isMethodRetryable) {
+    return false;
+  }
+
+  const { status } = failure;
+  if (status !== undefined) {
+    if (rules.retryableStatuses) {
+      return rules.retryableStatuses.includes(status);
+    }
+    if (status === 408 || status === 429 || status >= 500) {
+      return true;
+    }
+  }
+
+  return failure.networkError === true || failure.timeout === true;
+}
+
+/**
+ * Options accepted by {@link exponentialBackoff}.
+ */
+export interface ExponentialBackoffOptions {
+  /** Delay before the first retry, before jitter. Defaults to 200 ms. */
+  baseDelayMs?: number;
+  /** Upper bound for any delay. Defaults to 8 seconds. */
+  maxDelayMs?: number;
+  /**
+   * How randomness is applied:
+   * - `"proportional"` (default): the exponential delay plus up to 20% extra.
+   * - `"full"`: a random delay between 0 and the exponential delay.
+   * - `"decorrelated"`: a random delay between `baseDelayMs` and three times the previous delay.
+   * - `"none"`: the plain exponential delay.
+   */
+  jitter?: "proportional" | "full" | "decorrelated" | "none";
+}
+
+/**
+ * Exponential backoff doubling from `baseDelayMs` up to `maxDelayMs`. This is the default
+ * policy of {@link HttpClient}.
+ */
+export function exponentialBackoff(
+  options: ExponentialBackoffOptions = {}
+): RetryPolicy {
+  const baseDelayMs = Math.max(0, options.baseDelayMs ?? 200);
+  const maxDelayMs = Math.max(baseDelayMs, options.maxDelayMs ?? 8_000);
+  const jitter = options.jitter ?? "proportional";
+
+  return {
+    nextDelay({ retryCount, previousDelayMs }) {
+      if (jitter === "decorrelated") {
+        const upper = Math.max(baseDelayMs, previousDelayMs * 3);
+        return Math.min(
+          maxDelayMs,
+          baseDelayMs + Math.random() * (upper - baseDelayMs)
+        );
+      }
+
+      const exponential = Math.min(
+        maxDelayMs,
+        baseDelayMs * 2 ** Math.max(0, retryCount - 1)
+      );
+      switch (jitter) {
+        case "full":
+          return Math.random() * exponential;
+        case "none":
+          return exponential;
+        default:
+          return exponential + Math.random() * exponential * 0.2;
+      }
+    },
+  };
+}
+
+/**
+ * Wait the same `delayMs` before every retry.
+ */
+export function fixedBackoff(delayMs: number): RetryPolicy {
+  const delay = Math.max(0, delayMs);
+  return { nextDelay: () => delay };
+}
+
+/**
+ * Never retry.
+ */
+export function noRetry(): RetryPolicy {
+  return { nextDelay: () => null };
+}
+
+/**
+ * Options accepted by {@link RetryBudget}.
+ */
+export interface RetryBudgetOptions {
+  /** Retries allowed as a share of requests started in the window. Defaults to 0.1 (10%). */
+  ratio?: number;
+  /** Retries always allowed per window, so low-traffic clients can still retry. Defaults to 10. */
+  minRetries?: number;
+  /** Length of the sliding window in milliseconds. Defaults to 10 seconds. */
+  windowMs?: number;
+}
+
+/**
+ * Caps retries to a share of traffic so that an outage does not multiply the load on the API.
+ * Share one instance between clients to budget a whole process.
+ */
+export class RetryBudget {
+  private readonly ratio: number;
+  private readonly minRetries: number;
+  private readonly windowMs: number;
+  private requests: number[] = [];
+  private retries: number[] = [];
+
+  /**
+   * Create a budget with an empty window.
+   *
+   * @param options Ratio, floor, and window overrides.
+   */
+  constructor(options: RetryBudgetOptions = {}) {
+    this.ratio = Math.max(0, options.ratio ?? 0.1);
+    this.minRetries = Math.max(0, options.minRetries ?? 10);
+    this.windowMs = Math.max(1, options.windowMs ?? 10_000);
+  }
+
+  /**
+   * Count a request entering the client. Retries are not counted here.
+   */
+  recordRequest(): void {
+    const now = Date.now();
+    this.prune(now);
+    this.requests.push(now);
+  }
+
+  /**
+   * Spend one retry if the budget allows it.
+   *
+   * @returns Whether the retry may proceed.
+   */
+  tryRetry(): boolean {
+    const now = Date.now();
+    this.prune(now);
+    const allowed = Math.max(this.minRetries, this.requests.length * this.ratio);
+    if (this.retries.length >= allowed) {
+      return false;
+    }
+    this.retries.push(now);
+    return true;
+  }
+
+  private prune(now: number): void {
+    const cutoff = now - this.windowMs;
+    while (this.requests.length > 0 && this.requests[0]! <= cutoff) {
+      this.requests.shift();
+    }
+    while (this.retries.length > 0 && this.retries[0]! <= cutoff) {
+      this.retries.shift();
+    }
+  }
+}
@@ -0,0 +1,249 @@
+import {
+  QUERY_PARAMETER_SCHEMAS,
+  REQUEST_BODY_SCHEMAS,
+  RESPONSE_SCHEMAS,
+  payloadWrapper,
+  resolveSchema,
+} from "../schemas.js";
+import type { Schema } from "../schemas.js";
+import { ValidationError } from "./Errors.js";
+import { BASE_FIELD_ERRORS } from "./FieldErrors.js";
+import type { FieldErrors } from "./FieldErrors.js";
+
+/**
+ * Part of the request, or the response, a {@link SchemaViolation} was found in.
+ */
+export type SchemaViolationLocation = "body" | "query" | "response";
+
+/**
+ * One way a value fails its schema.
+ */
+export interface SchemaViolation {
+  location: SchemaViolationLocation;
+  /**
+   * Path of the offending value, e.g. `photo.captured_at`, `photo.tags[1]`, `[0].coordinates`, or
+   * the name of a query parameter. Empty when the body itself is wrong.
+   */
+  path: string;
+  /** What is wrong, e.g. `is required`, `must be a number`, or `is not in the spec`. */
+  message: string;
+}
+
+/**
+ * Request parts checked by {@link validateRequest}.
+ */
+export interface ValidatedRequest {
+  params?: unknown;
+  data?: unknown;
+}
+
+/**
+ * Check a request's query parameters and JSON body against the schemas the spec declares for
+ * `operationId`. Types, `required`, `nullable`, and `enum` are enforced; properties the spec does
+ * not declare are allowed. Query parameters may also be given as strings, as they are sent.
+ *
+ * @param operationId OpenAPI operation the request targets.
+ * @param request Query parameters and body.
+ * @returns Every violation found; empty when the request is valid or the operation is unknown.
+ */
+export function validateRequest(
+  operationId: string,
+  request: ValidatedRequest
+): SchemaViolation[] {
+  const violations: SchemaViolation[] = [];
+  const query = QUERY_PARAMETER_SCHEMAS[operationId];
+  if (query && request.params !== undefined && request.params !== null) {
+    checkValue(request.params, query, "", {
+      coerceStrings: true,
+      reportUnknown: false,
+      missing: "is required",
+      report: (path, message) => violations.push({ location: "query", path, message }),
+    });
+  }
+  const body = REQUEST_BODY_SCHEMAS[operationId];
+  if (body && request.data !== undefined) {
+    checkValue(request.data, body, "", {
+      coerceStrings: false,
+      reportUnknown: false,
+      missing: "is required",
+      report: (path, message) => violations.push({ location: "body", path, message }),
+    });
+  }
+  return violations;
+}
+
+/**
+ * Compare a success response body with the schema the spec declares for `operationId`. Besides
+ * type, `nullable`, and `enum` mismatches, required fields that are missing and fields the spec
+ * does not declare are reported, as both indicate the API and the SDK have drifted apart.
+ *
+ * @param operationId OpenAPI operation that produced the response.
+ * @param data Parsed response body.
+ * @returns Every violation found; empty when the body matches or the operation has no schema.
+ */
+export function validateResponse(operationId: string, data: unknown): SchemaViolation[] {
+  const schema = RESPONSE_SCHEMAS[operationId];
+  const violations: SchemaViolation[] = [];
+  if (schema) {
+    checkValue(data, schema, "", {
+      coerceStrings: false,
+      reportUnknown: true,
+      missing: "is missing",
+      report: (path, message) => violations.push({ location: "response", path, message }),
+    });
+  }
+  return violations;
+}
+
+/**
+ * Throw a {@link ValidationError} listing every violation when a request does not match the spec.
+ *
+ * @param operationId OpenAPI operation the request targets.
+ * @param request Query parameters, body, and the method and URL reported on the error.
+ * @throws {ValidationError} When {@link validateRequest} finds violations. The error has no
+ * `status`; it carries `violations` and `fieldErrors` keyed like the API's own validation errors.
+ */
+export function assertValidRequest(
+  operationId: string,
+  request: ValidatedRequest & { method?: string; url?: string }
+): void {
+  const violations = validateRequest(operationId, request);
+  if (violations.length === 0) {
+    return;
+  }
+  const details = violations.map(describeViolation);
+  throw new ValidationError(`Invalid ${operationId} request: ${details.join("; ")}`, {
+    method: request.method?.toUpperCase(),
+    url: request.url,
+    violations,
+    fieldErrors: toFieldErrors(operationId, violations),
+  });
+}
+
+interface CheckContext {
+  /** Accept the string forms of numbers and booleans, as sent in query strings. */
+  coerceStrings: boolean;
+  /** Report properties the schema does not declare. */
+  reportUnknown: boolean;
+  /** Message for absent required properties. */
+  missing: string;
+  report: (path: string, message: string) => void;
+}
+
+function checkValue(value: unknown, schema: Schema, path: string, context: CheckContext): void {
+  const resolved = resolveSchema(schema);
+  if (value === null) {
+    if (!resolved.nullable) {
+      context.report(path, "must not be null");
+    }
+    return;
+  }
+  if (resolved.enum && !resolved.enum.includes(value)) {
+    const allowed = resolved.enum.map((option) => JSON.stringify(option)).join(", ");
+    context.report(path, `must be one of ${allowed}`);
+    return;
+  }
+
+  switch (resolved.type) {
+    case "object":
+      if (!isPlainObject(value)) {
+        context.report(path, "must be an object");
+        return;
+      }
+      for (const name of resolved.required ?? []) {
+        if (value[name] === undefined) {
+          context.report(joinPath(path, name), context.missing);
+        }
+      }
+      for (const [name, property] of Object.entries(resolved.properties ?? {})) {
+        if (value[name] !== undefined) {
+          checkValue(value[name], property, joinPath(path, name), context);
+        }
+      }
+      if (context.reportUnknown && resolved.properties) {
+        for (const name of Object.keys(value)) {
+          if (!Object.prototype.hasOwnProperty.call(resolved.properties, name)) {
+            context.report(joinPath(path, name), "is not in the spec");
+          }
+        }
+      }
+      return;
+    case "array":
+      if (!Array.isArray(value)) {
+        context.report(path, "must be an array");
+        return;
+      }
+      if (resolved.items) {
+        const items = resolved.items;
+        value.forEach((item, index) => checkValue(item, items, `${path}[${index}]`, context));
+      }
+      return;
+    case "string":
+      if (typeof value !== "string") {
+        context.report(path, "must be a string");
+      }
+      return;
+    case "integer":
+      if (!Number.isInteger(toNumber(value, context))) {
+        context.report(path, "must be an integer");
+      }
+      return;
+    case "number":
+      if (!Number.isFinite(toNumber(value, context))) {
+        context.report(path, "must be a number");
+      }
+      return;
+    case "boolean":
+      if (
+        typeof value !== "boolean" &&
+        !(context.coerceStrings && (value === "true" || value === "false"))
+      ) {
+        context.report(path, "must be a boolean");
+      }
+      return;
+  }
+}
+
+function toNumber(value: unknown, context: CheckContext): unknown {
+  if (context.coerceStrings && typeof value === "string" && value.trim() !== "") {
+    return Number(value);
+  }
+  return value;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    return false;
+  }
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
+
+function joinPath(path: string, name: string): string {
+  return path ? `${path}.${name}` : name;
+}
+
+function describeViolation(violation: SchemaViolation): string {
+  const subject = violation.path || violation.location;
+  return violation.location === "query"
+    ? `query parameter ${subject} ${violation.message}`
+    : `${subject} ${violation.message}`;
+}
+
+/**
+ * Group violations the way API validation messages are grouped: body paths relative to the
+ * unwrapped payload, array indexes dropped, and query parameters under their own names.
+ */
+function toFieldErrors(operationId: string, violations: SchemaViolation[]): FieldErrors {
+  const body = REQUEST_BODY_SCHEMAS[operationId];
+  const wrapper = body ? payloadWrapper(body) : undefined;
+  const fieldErrors: FieldErrors = {};
+  for (const violation of violations) {
+    let path = violation.path.replace(/\[\d+\]/g, "");
+    if (violation.location === "body" && wrapper) {
+      path = path === wrapper ? "" : path.replace(new RegExp(`^${wrapper}\\.`), "");
+    }
+    (fieldErrors[path || BASE_FIELD_ERRORS] ??= []).push(describeViolation(violation));
+  }
+  return fieldErrors;
+}
@@ -0,0 +1,30 @@
+import type { SpanKind, SpanStatusCode, Tracer } from "@opentelemetry/api";
+
+// `@opentelemetry/api` is an optional peer dependency: only its types are imported statically,
+// and the enum values used at runtime are spelled out.
+
+/** `SpanKind.CLIENT`. */
+export const SPAN_KIND_CLIENT = 2 as SpanKind.CLIENT;
+
+/** `SpanStatusCode.ERROR`. */
+export const SPAN_STATUS_ERROR = 2 as SpanStatusCode.ERROR;
+
+let loadedTracer: Tracer | null | undefined;
+
+// Started on import, like the static import it replaces, so it has usually settled before the
+// first request and requests do not wait for it.
+const loadingTracer: Promise<Tracer | null> = import("@opentelemetry/api").then(
+  ({ trace }) => (loadedTracer = trace.getTracer("companycam")),
+  () => (loadedTracer = null)
+);
+
+/**
+ * The `companycam` tracer of the application's globally registered provider, which is a no-op
+ * until an SDK is installed.
+ *
+ * @returns The tracer, or a promise of it while `@opentelemetry/api` is still loading; `null` when
+ * the package is not installed.
+ */
+export function loadDefaultTracer(): Tracer | null | Promise<Tracer | null> {
+  return loadedTracer !== undefined ? loadedTracer : loadingTracer;
+}
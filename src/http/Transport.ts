@@ -0,0 +1,92 @@
+import type { AxiosRequestConfig, AxiosResponse } from "axios";
+
+/**
+ * Sends a single HTTP request on behalf of {@link HttpClient}. Retries, rate limiting,
+ * middleware, and error wrapping all live in the client, so transports only perform one attempt.
+ *
+ * Transports speak the axios request/response shapes (type-only) so every implementation behaves
+ * the same from the client's point of view:
+ * - `config.baseURL`, `config.params`, `config.timeout`, and `config.signal` must be honoured.
+ * - Non-2xx responses, network failures, timeouts, and cancellations must reject with an
+ *   axios-compatible error (see {@link TransportError}) so {@link APIError.fromAxios} can map them.
+ */
+export interface Transport {
+  /**
+   * Perform one HTTP request.
+   *
+   * @param config Fully prepared request configuration (headers already merged by the client).
+   * @returns The response with its parsed payload.
+   */
+  send<T = unknown, D = unknown>(
+    config: AxiosRequestConfig<D>
+  ): Promise<AxiosResponse<T>>;
+  /**
+   * Release resources held by the transport, if any.
+   */
+  dispose?(): void;
+}
+
+/**
+ * Error codes shared with axios so both transports classify failures identically.
+ */
+export const TransportErrorCode = {
+  /** The request exceeded `config.timeout`. */
+  Timeout: "ECONNABORTED",
+  /** The caller aborted the request via `config.signal`. */
+  Canceled: "ERR_CANCELED",
+  /** The request never produced an HTTP response. */
+  Network: "ERR_NETWORK",
+  /** The server answered with a 4xx status. */
+  BadRequest: "ERR_BAD_REQUEST",
+  /** The server answered with a 5xx status. */
+  BadResponse: "ERR_BAD_RESPONSE",
+} as const;
+
+/**
+ * Axios-compatible error raised by non-axios transports. It carries `isAxiosError`, `code`,
+ * `config`, and `response`, so retry classification and {@link APIError.fromAxios} treat it
+ * exactly like an `AxiosError`.
+ */
+export class TransportError<T = unknown, D = unknown> extends Error {
+  readonly isAxiosError = true;
+  readonly code: string;
+  readonly config: AxiosRequestConfig<D>;
+  readonly response?: AxiosResponse<T>;
+  readonly status?: number;
+
+  /**
+   * Describe a failed transport attempt.
+   */
+  constructor(
+    message: string,
+    code: string,
+    config: AxiosRequestConfig<D>,
+    response?: AxiosResponse<T>,
+    cause?: unknown
+  ) {
+    super(message);
+    this.name =
+      code === TransportErrorCode.Canceled ? "CanceledError" : "TransportError";
+    this.code = code;
+    this.config = config;
+    this.response = response;
+    this.status = response?.status;
+    if (cause) {
+      (this as unknown as { cause?: unknown }).cause = cause;
+    }
+  }
+
+  /**
+   * Serialize the error without the response payload, mirroring `AxiosError#toJSON`.
+   */
+  toJSON(): Record<string, unknown> {
+    return {
+      name: this.name,
+      message: this.message,
+      code: this.code,
+      status: this.status,
+      method: this.config.method,
+      url: this.config.url,
+    };
+  }
+}
@@ -1,9 +1,31 @@
 // Public entrypoint for the CompanyCam SDK.
 export * from "./client.js";
 export * from "./interfaces.js";
+export * from "./operations.js";
+export * from "./schemas.js";
 export * from "./http/Errors.js";
+export * from "./http/FieldErrors.js";
+export * from "./http/SchemaValidation.js";
 export * from "./http/RateLimiter.js";
+export * from "./http/RateLimiterStore.js";
+export * from "./http/DistributedRateLimiter.js";
+export * from "./http/PartitionedRateLimiter.js";
+export * from "./http/ConcurrencyLimiter.js";
 export * from "./http/HttpClient.js";
+export * from "./http/Middleware.js";
+export * from "./http/Logger.js";
+export * from "./http/Metrics.js";
+export * from "./http/Cache.js";
+export * from "./http/CircuitBreaker.js";
+export * from "./http/RetryPolicy.js";
+export * from "./http/Idempotency.js";
+export * from "./http/Outbox.js";
+export * from "./http/OutboxStore.js";
+export * from "./http/Emitter.js";
+export * from "./http/Redaction.js";
+export * from "./http/Transport.js";
+export * from "./http/AxiosTransport.js";
+export * from "./http/FetchTransport.js";
 export * from "./resources/Checklists.js";
 export * from "./resources/Company.js";
 export * from "./resources/Groups.js";
@@ -14,4 +36,6 @@ export * from "./resources/Templates.js";
 export * from "./resources/Users.js";
 export * from "./resources/Webhooks.js";
 export * from "./resources/utils.js";
+export * from "./resources/pagination.js";
+export * from "./resources/response.js";
 export * from "./oauth.js";
@@ -0,0 +1,6 @@
+// Node.js-only entrypoint (`companycam/node`): stores backed by the file system or raw TCP
+// sockets. Kept out of the main entry so it runs on Workers, Deno, Bun, and browsers.
+export * from "./http/FileCacheStore.js";
+export * from "./http/FileRateLimiterStore.js";
+export * from "./http/FileOutboxStore.js";
+export * from "./http/RedisRateLimiterStore.js";
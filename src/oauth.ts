@@ -160,6 +160,8 @@ function getTokenHttpClient(): HttpClient {
   if (!tokenHttpClient) {
     tokenHttpClient = new HttpClient({
       baseURL: TOKEN_URL.origin,
+      // The token endpoint does not honour idempotency keys; authorization codes are single-use.
+      autoIdempotencyKeys: false,
     });
   }
   return tokenHttpClient;
@@ -0,0 +1,115 @@
+/**
+ * Operations declared in `companycam-openapi-spec.yaml`, in document order. Used to attribute
+ * requests to their OpenAPI `operationId` for tracing, metrics, and validation.
+ */
+
+/**
+ * HTTP verbs used by the CompanyCam API.
+ */
+export type OperationMethod = "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+
+/**
+ * A single OpenAPI operation: its identifier plus the method and templated path it serves.
+ */
+export interface OperationDescriptor {
+  operationId: string;
+  method: OperationMethod;
+  /** Path template relative to the API base URL, e.g. `/projects/{project_id}/photos`. */
+  path: string;
+}
+
+export const OPERATIONS: readonly OperationDescriptor[] = [
+  { operationId: "listChecklists", method: "GET", path: "/checklists" },
+  { operationId: "getCurrentCompany", method: "GET", path: "/company" },
+  { operationId: "getCurrentUser", method: "GET", path: "/users/current" },
+  { operationId: "listUsers", method: "GET", path: "/users" },
+  { operationId: "createUser", method: "POST", path: "/users" },
+  { operationId: "getUser", method: "GET", path: "/users/{id}" },
+  { operationId: "updateUser", method: "PUT", path: "/users/{id}" },
+  { operationId: "deleteUser", method: "DELETE", path: "/users/{id}" },
+  { operationId: "listProjects", method: "GET", path: "/projects" },
+  { operationId: "createProject", method: "POST", path: "/projects" },
+  { operationId: "getProject", method: "GET", path: "/projects/{id}" },
+  { operationId: "updateProject", method: "PUT", path: "/projects/{id}" },
+  { operationId: "deleteProject", method: "DELETE", path: "/projects/{id}" },
+  { operationId: "archiveProject", method: "PATCH", path: "/projects/{id}/archive" },
+  { operationId: "restoreProject", method: "PUT", path: "/projects/{id}/restore" },
+  { operationId: "listProjectPhotos", method: "GET", path: "/projects/{project_id}/photos" },
+  { operationId: "createProjectPhoto", method: "POST", path: "/projects/{project_id}/photos" },
+  { operationId: "listProjectAssignedUsers", method: "GET", path: "/projects/{project_id}/assigned_users" },
+  { operationId: "assignUserToProject", method: "PUT", path: "/projects/{project_id}/assigned_users/{user_id}" },
+  { operationId: "removeUserFromProject", method: "DELETE", path: "/projects/{project_id}/assigned_users/{user_id}" },
+  { operationId: "updateProjectNotepad", method: "PUT", path: "/projects/{project_id}/notepad" },
+  { operationId: "listProjectCollaborators", method: "GET", path: "/projects/{project_id}/collaborators" },
+  { operationId: "listProjectInvitations", method: "GET", path: "/projects/{project_id}/invitations" },
+  { operationId: "createInvitation", method: "POST", path: "/projects/{project_id}/invitations" },
+  { operationId: "listProjectLabels", method: "GET", path: "/projects/{project_id}/labels" },
+  { operationId: "createProjectLabels", method: "POST", path: "/projects/{project_id}/labels" },
+  { operationId: "deleteProjectLabel", method: "DELETE", path: "/projects/{project_id}/labels/{id}" },
+  { operationId: "listProjectDocuments", method: "GET", path: "/projects/{project_id}/documents" },
+  { operationId: "createProjectDocument", method: "POST", path: "/projects/{project_id}/documents" },
+  { operationId: "listProjectComments", method: "GET", path: "/projects/{project_id}/comments" },
+  { operationId: "createProjectComment", method: "POST", path: "/projects/{project_id}/comments" },
+  { operationId: "listProjectChecklists", method: "GET", path: "/projects/{project_id}/checklists" },
+  { operationId: "createProjectChecklist", method: "POST", path: "/projects/{project_id}/checklists" },
+  { operationId: "getProjectChecklist", method: "GET", path: "/projects/{project_id}/checklists/{id}" },
+  { operationId: "listPhotos", method: "GET", path: "/photos" },
+  { operationId: "getPhoto", method: "GET", path: "/photos/{id}" },
+  { operationId: "updatePhoto", method: "PUT", path: "/photos/{id}" },
+  { operationId: "deletePhoto", method: "DELETE", path: "/photos/{id}" },
+  { operationId: "listPhotoTags", method: "GET", path: "/photos/{photo_id}/tags" },
+  { operationId: "createPhotoTags", method: "POST", path: "/photos/{photo_id}/tags" },
+  { operationId: "listPhotoComments", method: "GET", path: "/photos/{photo_id}/comments" },
+  { operationId: "createPhotoComment", method: "POST", path: "/photos/{photo_id}/comments" },
+  { operationId: "updatePhotoDescription", method: "POST", path: "/photos/{photo_id}/descriptions" },
+  { operationId: "listTags", method: "GET", path: "/tags" },
+  { operationId: "createTag", method: "POST", path: "/tags" },
+  { operationId: "getTag", method: "GET", path: "/tags/{id}" },
+  { operationId: "updateTag", method: "PUT", path: "/tags/{id}" },
+  { operationId: "deleteTag", method: "DELETE", path: "/tags/{id}" },
+  { operationId: "listChecklistTemplates", method: "GET", path: "/templates/checklists" },
+  { operationId: "listGroups", method: "GET", path: "/groups" },
+  { operationId: "createGroup", method: "POST", path: "/groups" },
+  { operationId: "getGroup", method: "GET", path: "/groups/{id}" },
+  { operationId: "updateGroup", method: "PUT", path: "/groups/{id}" },
+  { operationId: "deleteGroup", method: "DELETE", path: "/groups/{id}" },
+  { operationId: "listWebhooks", method: "GET", path: "/webhooks" },
+  { operationId: "createWebhook", method: "POST", path: "/webhooks" },
+  { operationId: "getWebhook", method: "GET", path: "/webhooks/{id}" },
+  { operationId: "updateWebhook", method: "PUT", path: "/webhooks/{id}" },
+  { operationId: "deleteWebhook", method: "DELETE", path: "/webhooks/{id}" },
+];
+
+const OPERATION_MATCHERS = OPERATIONS.map((operation) => ({
+  operation,
+  pattern: new RegExp(
+    `^${operation.path.replace(/\{[^}]+\}/g, "[^/]+")}/?$`
+  ),
+}));
+
+/**
+ * Find the OpenAPI operation served by a request.
+ *
+ * @param method HTTP method of the request (any casing).
+ * @param url Request path relative to the base URL; query strings and absolute URLs are tolerated.
+ * @returns The matching {@link OperationDescriptor}, or `undefined` for requests outside the spec.
+ */
+export function resolveOperation(
+  method: string | undefined,
+  url: string | undefined
+): OperationDescriptor | undefined {
+  if (!url) {
+    return undefined;
+  }
+
+  const verb = (method ?? "GET").toUpperCase();
+  const path = url
+    .replace(/^[a-z][a-z\d+\-.]*:\/\/[^/]+/i, "")
+    .replace(/\/v2(?=\/)/, "")
+    .split(/[?#]/)[0];
+
+  return OPERATION_MATCHERS.find(
+    ({ operation, pattern }) =>
+      operation.method === verb && pattern.test(path)
+  )?.operation;
+}
@@ -1,6 +1,11 @@
 import type { Checklist, ListChecklistsQueryParams } from "../interfaces.js";
 import type { HttpClient } from "../http/HttpClient.js";
 import { buildRequestConfig, cleanQueryParameters, RequestOptions } from "./utils.js";
+import {
+  collectPages,
+  paginate,
+  PaginatedRequestOptions,
+} from "./pagination.js";
 
 /**
  * Resource providing access to checklist level operations that are not scoped to a project.
@@ -30,4 +35,38 @@ export class ChecklistsResource {
 
     return response.data;
   }
+
+  /**
+   * Iterate over all company-wide checklists, requesting successive pages on demand.
+   *
+   * @param query Optional query; `page` sets the starting page and `per_page` the page size.
+   * @param options Optional request overrides plus `maxItems` / `maxPages` caps.
+   * @returns Async iterable yielding {@link Checklist} records until a short page is returned.
+   * @throws {APIError} When the API responds with an error status.
+   */
+  iterate(
+    query?: ListChecklistsQueryParams,
+    options?: PaginatedRequestOptions
+  ): AsyncIterable<Checklist> {
+    return paginate(
+      (pagination) => this.list({ ...query, ...pagination }, options),
+      query,
+      options
+    );
+  }
+
+  /**
+   * Collect all company-wide checklists across every page.
+   *
+   * @param query Optional query; `page` sets the starting page and `per_page` the page size.
+   * @param options Optional request overrides plus `maxItems` / `maxPages` caps.
+   * @returns Array of {@link Checklist} records gathered from every page.
+   * @throws {APIError} When the API responds with an error status.
+   */
+  async listAll(
+    query?: ListChecklistsQueryParams,
+    options?: PaginatedRequestOptions
+  ): Promise<Checklist[]> {
+    return collectPages(this.iterate(query, options));
+  }
 }
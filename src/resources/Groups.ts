@@ -8,6 +8,11 @@ import {
   splitUserScopedOptions,
   UserScopedRequestOptions,
 } from "./utils.js";
+import {
+  collectPages,
+  paginate,
+  PaginatedRequestOptions,
+} from "./pagination.js";
 
 /**
  * Resource for managing user groups. Offers helpers for listing, creating, updating,
@@ -38,6 +43,40 @@ export class GroupsResource {
     return response.data;
   }
 
+  /**
+   * Iterate over all groups defined within the company, requesting successive pages on demand.
+   *
+   * @param query Optional query; `page` sets the starting page and `per_page` the page size.
+   * @param options Optional request overrides plus `maxItems` / `maxPages` caps.
+   * @returns Async iterable yielding {@link Group} records until a short page is returned.
+   * @throws {APIError} When the API responds with an error status.
+   */
+  iterate(
+    query?: PaginationQueryParams,
+    options?: PaginatedRequestOptions
+  ): AsyncIterable<Group> {
+    return paginate(
+      (pagination) => this.list({ ...query, ...pagination }, options),
+      query,
+      options
+    );
+  }
+
+  /**
+   * Collect all groups defined within the company across every page.
+   *
+   * @param query Optional query; `page` sets the starting page and `per_page` the page size.
+   * @param options Optional request overrides plus `maxItems` / `maxPages` caps.
+   * @returns Array of {@link Group} records gathered from every page.
+   * @throws {APIError} When the API responds with an error status.
+   */
+  async listAll(
+    query?: PaginationQueryParams,
+    options?: PaginatedRequestOptions
+  ): Promise<Group[]> {
+    return collectPages(this.iterate(query, options));
+  }
+
   /**
    * Create a new group.
    *
@@ -14,6 +14,11 @@ import {
   splitUserScopedOptions,
   UserScopedRequestOptions,
 } from "./utils.js";
+import {
+  collectPages,
+  paginate,
+  PaginatedRequestOptions,
+} from "./pagination.js";
 
 /**
  * Resource for working with photos and their nested relationships. Provides access to nested
@@ -52,6 +57,40 @@ export class PhotosResource {
     return response.data;
   }
 
+  /**
+   * Iterate over all photos matching the filters, requesting successive pages on demand.
+   *
+   * @param query Optional query; `page` sets the starting page and `per_page` the page size.
+   * @param options Optional request overrides plus `maxItems` / `maxPages` caps.
+   * @returns Async iterable yielding {@link Photo} records until a short page is returned.
+   * @throws {APIError} When the API responds with an error status.
+   */
+  iterate(
+    query?: ListPhotosQueryParams,
+    options?: PaginatedRequestOptions
+  ): AsyncIterable<Photo> {
+    return paginate(
+      (pagination) => this.list({ ...query, ...pagination }, options),
+      query,
+      options
+    );
+  }
+
+  /**
+   * Collect all photos matching the filters across every page.
+   *
+   * @param query Optional query; `page` sets the starting page and `per_page` the page size.
+   * @param options Optional request overrides plus `maxItems` / `maxPages` caps.
+   * @returns Array of {@link Photo} records gathered from every page.
+   * @throws {APIError} When the API responds with an error status.
+   */
+  async listAll(
+    query?: ListPhotosQueryParams,
+    options?: PaginatedRequestOptions
+  ): Promise<Photo[]> {
+    return collectPages(this.iterate(query, options));
+  }
+
   /**
    * Retrieve a single photo by identifier.
    *
@@ -195,6 +234,44 @@ export class PhotoCommentsResource {
     return response.data;
   }
 
+  /**
+   * Iterate over all comments attached to the photo, requesting successive pages on demand.
+   *
+   * @param photoId Identifier of the photo to inspect.
+   * @param query Optional query; `page` sets the starting page and `per_page` the page size.
+   * @param options Optional request overrides plus `maxItems` / `maxPages` caps.
+   * @returns Async iterable yielding {@link Comment} records until a short page is returned.
+   * @throws {APIError} When the API responds with an error status.
+   */
+  iterate(
+    photoId: string,
+    query?: PaginationQueryParams,
+    options?: PaginatedRequestOptions
+  ): AsyncIterable<Comment> {
+    return paginate(
+      (pagination) => this.list(photoId, { ...query, ...pagination }, options),
+      query,
+      options
+    );
+  }
+
+  /**
+   * Collect all comments attached to the photo across every page.
+   *
+   * @param photoId Identifier of the photo to inspect.
+   * @param query Optional query; `page` sets the starting page and `per_page` the page size.
+   * @param options Optional request overrides plus `maxItems` / `maxPages` caps.
+   * @returns Array of {@link Comment} records gathered from every page.
+   * @throws {APIError} When the API responds with an error status.
+   */
+  async listAll(
+    photoId: string,
+    query?: PaginationQueryParams,
+    options?: PaginatedRequestOptions
+  ): Promise<Comment[]> {
+    return collectPages(this.iterate(photoId, query, options));
+  }
+
   /**
    * Create a comment on the photo.
    *
@@ -26,6 +26,11 @@ import {
   splitUserScopedOptions,
   UserScopedRequestOptions,
 } from "./utils.js";
+import {
+  collectPages,
+  paginate,
+  PaginatedRequestOptions,
+} from "./pagination.js";
 
 /**
  * Resource handling operations on projects and their associated sub-resources.
@@ -77,6 +82,40 @@ export class ProjectsResource {
     return response.data;
   }
 
+  /**
+   * Iterate over all projects for the company, requesting successive pages on demand.
+   *
+   * @param query Optional query; `page` sets the starting page and `per_page` the page size.
+   * @param options Optional request overrides plus `maxItems` / `maxPages` caps.
+   * @returns Async iterable yielding {@link Project} records until a short page is returned.
+   * @throws {APIError} When the API responds with an error status.
+   */
+  iterate(
+    query?: ListProjectsQueryParams,
+    options?: PaginatedRequestOptions
+  ): AsyncIterable<Project> {
+    return paginate(
+      (pagination) => this.list({ ...query, ...pagination }, options),
+      query,
+      options
+    );
+  }
+
+  /**
+   * Collect all projects for the company across every page.
+   *
+   * @param query Optional query; `page` sets the starting page and `per_page` the page size.
+   * @param options Optional request overrides plus `maxItems` / `maxPages` caps.
+   * @returns Array of {@link Project} records gathered from every page.
+   * @throws {APIError} When the API responds with an error status.
+   */
+  async listAll(
+    query?: ListProjectsQueryParams,
+    options?: PaginatedRequestOptions
+  ): Promise<Project[]> {
+    return collectPages(this.iterate(query, options));
+  }
+
   /**
    * Create a new project.
    *
@@ -230,6 +269,44 @@ export class ProjectPhotosResource {
     return response.data;
   }
 
+  /**
+   * Iterate over all photos associated with a project, requesting successive pages on demand.
+   *
+   * @param projectId Identifier of the project whose photos are requested.
+   * @param query Optional query; `page` sets the starting page and `per_page` the page size.
+   * @param options Optional request overrides plus `maxItems` / `maxPages` caps.
+   * @returns Async iterable yielding {@link Photo} records until a short page is returned.
+   * @throws {APIError} When the API responds with an error status.
+   */
+  iterate(
+    projectId: string,
+    query?: ListProjectPhotosQueryParams,
+    options?: PaginatedRequestOptions
+  ): AsyncIterable<Photo> {
+    return paginate(
+      (pagination) => this.list(projectId, { ...query, ...pagination }, options),
+      query,
+      options
+    );
+  }
+
+  /**
+   * Collect all photos associated with a project across every page.
+   *
+   * @param projectId Identifier of the project whose photos are requested.
+   * @param query Optional query; `page` sets the starting page and `per_page` the page size.
+   * @param options Optional request overrides plus `maxItems` / `maxPages` caps.
+   * @returns Array of {@link Photo} records gathered from every page.
+   * @throws {APIError} When the API responds with an error status.
+   */
+  async listAll(
+    projectId: string,
+    query?: ListProjectPhotosQueryParams,
+    options?: PaginatedRequestOptions
+  ): Promise<Photo[]> {
+    return collectPages(this.iterate(projectId, query, options));
+  }
+
   /**
    * Upload a new project photo via URI payload.
    *
@@ -287,6 +364,44 @@ export class ProjectAssigneesResource {
     return response.data;
   }
 
+  /**
+   * Iterate over all users assigned to a project, requesting successive pages on demand.
+   *
+   * @param projectId Identifier of the project to inspect.
+   * @param query Optional query; `page` sets the starting page and `per_page` the page size.
+   * @param options Optional request overrides plus `maxItems` / `maxPages` caps.
+   * @returns Async iterable yielding {@link User} records until a short page is returned.
+   * @throws {APIError} When the API responds with an error status.
+   */
+  iterate(
+    projectId: string,
+    query?: PaginationQueryParams,
+    options?: PaginatedRequestOptions
+  ): AsyncIterable<User> {
+    return paginate(
+      (pagination) => this.list(projectId, { ...query, ...pagination }, options),
+      query,
+      options
+    );
+  }
+
+  /**
+   * Collect all users assigned to a project across every page.
+   *
+   * @param projectId Identifier of the project to inspect.
+   * @param query Optional query; `page` sets the starting page and `per_page` the page size.
+   * @param options Optional request overrides plus `maxItems` / `maxPages` caps.
+   * @returns Array of {@link User} records gathered from every page.
+   * @throws {APIError} When the API responds with an error status.
+   */
+  async listAll(
+    projectId: string,
+    query?: PaginationQueryParams,
+    options?: PaginatedRequestOptions
+  ): Promise<User[]> {
+    return collectPages(this.iterate(projectId, query, options));
+  }
+
   /**
    * Assign a user to the project.
    *
@@ -400,6 +515,44 @@ export class ProjectCollaboratorsResource {
 
     return response.data;
   }
+
+  /**
+   * Iterate over all collaborators invited to the project, requesting successive pages on demand.
+   *
+   * @param projectId Identifier of the project to inspect.
+   * @param query Optional query; `page` sets the starting page and `per_page` the page size.
+   * @param options Optional request overrides plus `maxItems` / `maxPages` caps.
+   * @returns Async iterable yielding {@link ProjectCollaborator} records until a short page is returned.
+   * @throws {APIError} When the API responds with an error status.
+   */
+  iterate(
+    projectId: string,
+    query?: PaginationQueryParams,
+    options?: PaginatedRequestOptions
+  ): AsyncIterable<ProjectCollaborator> {
+    return paginate(
+      (pagination) => this.list(projectId, { ...query, ...pagination }, options),
+      query,
+      options
+    );
+  }
+
+  /**
+   * Collect all collaborators invited to the project across every page.
+   *
+   * @param projectId Identifier of the project to inspect.
+   * @param query Optional query; `page` sets the starting page and `per_page` the page size.
+   * @param options Optional request overrides plus `maxItems` / `maxPages` caps.
+   * @returns Array of {@link ProjectCollaborator} records gathered from every page.
+   * @throws {APIError} When the API responds with an error status.
+   */
+  async listAll(
+    projectId: string,
+    query?: PaginationQueryParams,
+    options?: PaginatedRequestOptions
+  ): Promise<ProjectCollaborator[]> {
+    return collectPages(this.iterate(projectId, query, options));
+  }
 }
 
 /**
@@ -432,6 +585,44 @@ export class ProjectInvitationsResource {
     return response.data;
   }
 
+  /**
+   * Iterate over all invitations issued for the project, requesting successive pages on demand.
+   *
+   * @param projectId Identifier of the project to inspect.
+   * @param query Optional query; `page` sets the starting page and `per_page` the page size.
+   * @param options Optional request overrides plus `maxItems` / `maxPages` caps.
+   * @returns Async iterable yielding {@link ProjectInvitation} records until a short page is returned.
+   * @throws {APIError} When the API responds with an error status.
+   */
+  iterate(
+    projectId: string,
+    query?: PaginationQueryParams,
+    options?: PaginatedRequestOptions
+  ): AsyncIterable<ProjectInvitation> {
+    return paginate(
+      (pagination) => this.list(projectId, { ...query, ...pagination }, options),
+      query,
+      options
+    );
+  }
+
+  /**
+   * Collect all invitations issued for the project across every page.
+   *
+   * @param projectId Identifier of the project to inspect.
+   * @param query Optional query; `page` sets the starting page and `per_page` the page size.
+   * @param options Optional request overrides plus `maxItems` / `maxPages` caps.
+   * @returns Array of {@link ProjectInvitation} records gathered from every page.
+   * @throws {APIError} When the API responds with an error status.
+   */
+  async listAll(
+    projectId: string,
+    query?: PaginationQueryParams,
+    options?: PaginatedRequestOptions
+  ): Promise<ProjectInvitation[]> {
+    return collectPages(this.iterate(projectId, query, options));
+  }
+
   /**
    * Issue a new project invitation.
    *
@@ -486,6 +677,44 @@ export class ProjectLabelsResource {
     return response.data;
   }
 
+  /**
+   * Iterate over all labels applied to the project, requesting successive pages on demand.
+   *
+   * @param projectId Identifier of the project to inspect.
+   * @param query Optional query; `page` sets the starting page and `per_page` the page size.
+   * @param options Optional request overrides plus `maxItems` / `maxPages` caps.
+   * @returns Async iterable yielding {@link Tag} records until a short page is returned.
+   * @throws {APIError} When the API responds with an error status.
+   */
+  iterate(
+    projectId: string,
+    query?: PaginationQueryParams,
+    options?: PaginatedRequestOptions
+  ): AsyncIterable<Tag> {
+    return paginate(
+      (pagination) => this.list(projectId, { ...query, ...pagination }, options),
+      query,
+      options
+    );
+  }
+
+  /**
+   * Collect all labels applied to the project across every page.
+   *
+   * @param projectId Identifier of the project to inspect.
+   * @param query Optional query; `page` sets the starting page and `per_page` the page size.
+   * @param options Optional request overrides plus `maxItems` / `maxPages` caps.
+   * @returns Array of {@link Tag} records gathered from every page.
+   * @throws {APIError} When the API responds with an error status.
+   */
+  async listAll(
+    projectId: string,
+    query?: PaginationQueryParams,
+    options?: PaginatedRequestOptions
+  ): Promise<Tag[]> {
+    return collectPages(this.iterate(projectId, query, options));
+  }
+
   /**
    * Apply new labels to the project.
    *
@@ -564,6 +793,44 @@ export class ProjectDocumentsResource {
     return response.data;
   }
 
+  /**
+   * Iterate over all documents uploaded to the project, requesting successive pages on demand.
+   *
+   * @param projectId Identifier of the project to inspect.
+   * @param query Optional query; `page` sets the starting page and `per_page` the page size.
+   * @param options Optional request overrides plus `maxItems` / `maxPages` caps.
+   * @returns Async iterable yielding {@link Document} records until a short page is returned.
+   * @throws {APIError} When the API responds with an error status.
+   */
+  iterate(
+    projectId: string,
+    query?: PaginationQueryParams,
+    options?: PaginatedRequestOptions
+  ): AsyncIterable<Document> {
+    return paginate(
+      (pagination) => this.list(projectId, { ...query, ...pagination }, options),
+      query,
+      options
+    );
+  }
+
+  /**
+   * Collect all documents uploaded to the project across every page.
+   *
+   * @param projectId Identifier of the project to inspect.
+   * @param query Optional query; `page` sets the starting page and `per_page` the page size.
+   * @param options Optional request overrides plus `maxItems` / `maxPages` caps.
+   * @returns Array of {@link Document} records gathered from every page.
+   * @throws {APIError} When the API responds with an error status.
+   */
+  async listAll(
+    projectId: string,
+    query?: PaginationQueryParams,
+    options?: PaginatedRequestOptions
+  ): Promise<Document[]> {
+    return collectPages(this.iterate(projectId, query, options));
+  }
+
   /**
    * Upload a new document to the project.
    *
@@ -624,6 +891,44 @@ export class ProjectCommentsResource {
     return response.data;
   }
 
+  /**
+   * Iterate over all comments recorded on the project, requesting successive pages on demand.
+   *
+   * @param projectId Identifier of the project to inspect.
+   * @param query Optional query; `page` sets the starting page and `per_page` the page size.
+   * @param options Optional request overrides plus `maxItems` / `maxPages` caps.
+   * @returns Async iterable yielding {@link Comment} records until a short page is returned.
+   * @throws {APIError} When the API responds with an error status.
+   */
+  iterate(
+    projectId: string,
+    query?: PaginationQueryParams,
+    options?: PaginatedRequestOptions
+  ): AsyncIterable<Comment> {
+    return paginate(
+      (pagination) => this.list(projectId, { ...query, ...pagination }, options),
+      query,
+      options
+    );
+  }
+
+  /**
+   * Collect all comments recorded on the project across every page.
+   *
+   * @param projectId Identifier of the project to inspect.
+   * @param query Optional query; `page` sets the starting page and `per_page` the page size.
+   * @param options Optional request overrides plus `maxItems` / `maxPages` caps.
+   * @returns Array of {@link Comment} records gathered from every page.
+   * @throws {APIError} When the API responds with an error status.
+   */
+  async listAll(
+    projectId: string,
+    query?: PaginationQueryParams,
+    options?: PaginatedRequestOptions
+  ): Promise<Comment[]> {
+    return collectPages(this.iterate(projectId, query, options));
+  }
+
   /**
    * Add a comment to the project discussion.
    *
@@ -13,6 +13,11 @@ import {
   splitUserScopedOptions,
   UserScopedRequestOptions,
 } from "./utils.js";
+import {
+  collectPages,
+  paginate,
+  PaginatedRequestOptions,
+} from "./pagination.js";
 
 /**
  * Resource covering all user lifecycle operations.
@@ -59,6 +64,40 @@ export class UsersResource {
     return response.data;
   }
 
+  /**
+   * Iterate over all users in the current company, requesting successive pages on demand.
+   *
+   * @param query Optional query; `page` sets the starting page and `per_page` the page size.
+   * @param options Optional request overrides plus `maxItems` / `maxPages` caps.
+   * @returns Async iterable yielding {@link User} records until a short page is returned.
+   * @throws {APIError} When the API responds with an error status.
+   */
+  iterate(
+    query?: PaginationQueryParams,
+    options?: PaginatedRequestOptions
+  ): AsyncIterable<User> {
+    return paginate(
+      (pagination) => this.list({ ...query, ...pagination }, options),
+      query,
+      options
+    );
+  }
+
+  /**
+   * Collect all users in the current company across every page.
+   *
+   * @param query Optional query; `page` sets the starting page and `per_page` the page size.
+   * @param options Optional request overrides plus `maxItems` / `maxPages` caps.
+   * @returns Array of {@link User} records gathered from every page.
+   * @throws {APIError} When the API responds with an error status.
+   */
+  async listAll(
+    query?: PaginationQueryParams,
+    options?: PaginatedRequestOptions
+  ): Promise<User[]> {
+    return collectPages(this.iterate(query, options));
+  }
+
   /**
    * Create a new user within the company.
    *
@@ -10,6 +10,11 @@ import {
   encodePathParam,
   RequestOptions,
 } from "./utils.js";
+import {
+  collectPages,
+  paginate,
+  PaginatedRequestOptions,
+} from "./pagination.js";
 
 /**
  * Resource for managing webhook registrations.
@@ -39,6 +44,40 @@ export class WebhooksResource {
     return response.data;
   }
 
+  /**
+   * Iterate over all registered webhooks, requesting successive pages on demand.
+   *
+   * @param query Optional query; `page` sets the starting page and `per_page` the page size.
+   * @param options Optional request overrides plus `maxItems` / `maxPages` caps.
+   * @returns Async iterable yielding {@link Webhook} records until a short page is returned.
+   * @throws {APIError} When the API responds with an error status.
+   */
+  iterate(
+    query?: PaginationQueryParams,
+    options?: PaginatedRequestOptions
+  ): AsyncIterable<Webhook> {
+    return paginate(
+      (pagination) => this.list({ ...query, ...pagination }, options),
+      query,
+      options
+    );
+  }
+
+  /**
+   * Collect all registered webhooks across every page.
+   *
+   * @param query Optional query; `page` sets the starting page and `per_page` the page size.
+   * @param options Optional request overrides plus `maxItems` / `maxPages` caps.
+   * @returns Array of {@link Webhook} records gathered from every page.
+   * @throws {APIError} When the API responds with an error status.
+   */
+  async listAll(
+    query?: PaginationQueryParams,
+    options?: PaginatedRequestOptions
+  ): Promise<Webhook[]> {
+    return collectPages(this.iterate(query, options));
+  }
+
   /**
    * Create a webhook subscription.
    *
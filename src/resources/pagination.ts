@@ -0,0 +1,96 @@
+import { createAbortError } from "../http/RateLimiter.js";
+import type { PaginationQueryParams } from "../interfaces.js";
+import type { RequestOptions } from "./utils.js";
+
+/**
+ * Page size requested by the auto-pagination helpers when the caller does not supply `per_page`.
+ */
+export const DEFAULT_PAGE_SIZE = 50;
+
+/**
+ * Caps applied by the auto-pagination helpers (`iterate` / `listAll`).
+ */
+export interface PaginationOptions {
+  /**
+   * Stop after yielding this many items, even when more pages remain.
+   */
+  maxItems?: number;
+  /**
+   * Stop after requesting this many pages, even when the last page was full.
+   */
+  maxPages?: number;
+}
+
+/**
+ * Request options accepted by the auto-pagination helpers. Every page is requested with the
+ * same overrides, so each page acquires its own token from the shared rate limiter.
+ */
+export type PaginatedRequestOptions = RequestOptions & PaginationOptions;
+
+/**
+ * Callback used by {@link paginate} to fetch a single page.
+ */
+export type PageFetcher<T> = (
+  pagination: Required<PaginationQueryParams>
+) => Promise<T[]>;
+
+/**
+ * Lazily walk a paginated list endpoint, yielding items until the API returns a short page or
+ * one of the configured caps is reached.
+ *
+ * @param fetchPage Callback that requests a single page using the supplied `page` / `per_page`.
+ * @param query Optional caller query; `page` sets the starting page and `per_page` the page size.
+ * @param options Optional abort signal plus `maxItems` / `maxPages` caps.
+ * @returns Async iterable yielding every item across pages.
+ * @throws {Error} Rejects with an `AbortError` if the signal aborts between pages.
+ */
+export async function* paginate<T>(
+  fetchPage: PageFetcher<T>,
+  query?: PaginationQueryParams,
+  options: PaginatedRequestOptions = {}
+): AsyncGenerator<T, void, undefined> {
+  const perPage = Math.max(1, query?.per_page ?? DEFAULT_PAGE_SIZE);
+  const maxItems = options.maxItems ?? Number.POSITIVE_INFINITY;
+  const maxPages = options.maxPages ?? Number.POSITIVE_INFINITY;
+
+  let page = Math.max(1, query?.page ?? 1);
+  let pagesFetched = 0;
+  let itemsYielded = 0;
+
+  while (pagesFetched < maxPages && itemsYielded < maxItems) {
+    if (options.signal?.aborted) {
+      throw createAbortError();
+    }
+
+    const items = await fetchPage({ page, per_page: perPage });
+    pagesFetched += 1;
+
+    for (const item of items) {
+      if (itemsYielded >= maxItems) {
+        return;
+      }
+      itemsYielded += 1;
+      yield item;
+    }
+
+    // A short page means the API has no further records to return.
+    if (items.length < perPage) {
+      return;
+    }
+    page += 1;
+  }
+}
+
+/**
+ * Drain an async iterable produced by {@link paginate} into an array.
+ *
+ * @param iterable Async iterable to consume.
+ * @returns Every yielded item in order.
+ */
+export async function collectPages<T>(iterable: AsyncIterable<T>): Promise<T[]> {
+  const items: T[] = [];
+  for await (const item of iterable) {
+    items.push(item);
+  }
+  return items;
+}
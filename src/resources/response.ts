@@ -0,0 +1,127 @@
+import type { AxiosResponse } from "axios";
+import type { HttpClient } from "../http/HttpClient.js";
+import { extractRequestId } from "../http/Errors.js";
+import { extractIdempotencyKey } from "../http/Idempotency.js";
+
+/**
+ * Envelope returned by resource methods accessed through {@link withResponse}, exposing the
+ * transport metadata that the plain helpers discard.
+ */
+export interface APIResponse<T> {
+  /** Parsed response payload, identical to what the plain resource method resolves with. */
+  data: T;
+  /** HTTP status code of the final response. */
+  status: number;
+  /** Response headers, including rate-limit headers when the API sends them. */
+  headers: Record<string, unknown>;
+  /** Value of the `x-request-id` header when present. */
+  requestId?: string;
+  /** `Idempotency-Key` sent with the request, including keys generated for creates. */
+  idempotencyKey?: string;
+  /** Wall-clock time spent in {@link HttpClient.request}, including rate limiting and retries. */
+  durationMs: number;
+}
+
+/**
+ * Methods that span several requests and are therefore exposed unchanged on the envelope view.
+ */
+type MultiRequestMethod = "iterate" | "listAll";
+
+/**
+ * Resource view whose async methods resolve with an {@link APIResponse} envelope instead of the
+ * bare payload. Nested sub-resources (for example `projects.photos`) are mapped recursively.
+ */
+export type WithResponse<R> = {
+  readonly [K in keyof R]: K extends MultiRequestMethod
+    ? R[K]
+    : R[K] extends (...args: infer A) => Promise<infer T>
+    ? (...args: A) => Promise<APIResponse<T>>
+    : R[K] extends (...args: never[]) => unknown
+    ? R[K]
+    : R[K] extends object
+    ? WithResponse<R[K]>
+    : R[K];
+};
+
+const MULTI_REQUEST_METHODS = new Set<string>(["iterate", "listAll"]);
+
+/**
+ * Create a view over one or more resources whose methods resolve with {@link APIResponse}
+ * envelopes. Each call runs against a freshly built resource bound to a recording client, so
+ * concurrent calls never observe each other's responses.
+ *
+ * @param http Shared HTTP client that performs the underlying requests.
+ * @param create Factory building the resource (or resource map) against a given client.
+ * @returns Strongly typed envelope view of the resource.
+ */
+export function withResponse<R extends object>(
+  http: HttpClient,
+  create: (http: HttpClient) => R
+): WithResponse<R> {
+  return wrapResource(http, create(http), create);
+}
+
+function wrapResource<R extends object>(
+  http: HttpClient,
+  target: R,
+  rebuild: (http: HttpClient) => R
+): WithResponse<R> {
+  return new Proxy(target, {
+    get(resource, property) {
+      const value = Reflect.get(resource, property) as unknown;
+      if (typeof property !== "string") {
+        return value;
+      }
+
+      if (typeof value === "function") {
+        if (MULTI_REQUEST_METHODS.has(property)) {
+          return value.bind(resource);
+        }
+        return (...args: unknown[]) =>
+          invokeWithResponse(http, (recorder) => {
+            const scoped = rebuild(recorder) as Record<string, unknown>;
+            const method = scoped[property] as (...params: unknown[]) => unknown;
+            return method.apply(scoped, args);
+          });
+      }
+
+      if (value !== null && typeof value === "object") {
+        return wrapResource(
+          http,
+          value,
+          (recorder) => (rebuild(recorder) as Record<string, unknown>)[property] as object
+        );
+      }
+
+      return value;
+    },
+  }) as WithResponse<R>;
+}
+
+async function invokeWithResponse<T>(
+  http: HttpClient,
+  call: (recorder: HttpClient) => T | Promise<T>
+): Promise<APIResponse<T>> {
+  let last: { response: AxiosResponse; durationMs: number } | undefined;
+
+  // Inherit every HttpClient member but capture the response of each request made by the call.
+  const recorder = Object.create(http) as HttpClient;
+  recorder.request = (async (options: Parameters<HttpClient["request"]>[0]) => {
+    const startedAt = Date.now();
+    const response = await http.request(options);
+    last = { response, durationMs: Date.now() - startedAt };
+    return response;
+  }) as HttpClient["request"];
+
+  const data = await call(recorder);
+  const headers = (last?.response.headers ?? {}) as Record<string, unknown>;
+
+  return {
+    data,
+    status: last?.response.status ?? 0,
+    headers,
+    requestId: extractRequestId(headers),
+    idempotencyKey: extractIdempotencyKey(last?.response.config?.headers),
+    durationMs: last?.durationMs ?? 0,
+  };
+}
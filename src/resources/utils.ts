@@ -1,4 +1,8 @@
-import type { HttpRequestOptions } from "../http/HttpClient.js";
+import type {
+  HttpRequestOptions,
+  RequestRetryOptions,
+} from "../http/HttpClient.js";
+import type { RequestPriority } from "../http/RateLimiter.js";
 import type { UserContextHeaderParams } from "../interfaces.js";
 
 /**
@@ -21,6 +25,34 @@ export interface RequestOptions {
    * Enables callers to opt in or out of the built-in rate limiting logic.
    */
   useRateLimiter?: boolean;
+  /**
+   * Rate-limiter lane: `interactive` calls are served ahead of `normal` and `background` ones
+   * when requests are queued.
+   */
+  priority?: RequestPriority;
+  /**
+   * Tenant whose rate-limit bucket this call draws from when the client uses a
+   * `PartitionedRateLimiter`. Defaults to the bearer token.
+   */
+  tenantKey?: string;
+  /**
+   * Override the client's retry settings (count, backoff policy, retryable statuses, `Retry-After`
+   * cap) for this call.
+   */
+  retry?: RequestRetryOptions;
+  /**
+   * Set to `false` to bypass the client's response cache for this call.
+   */
+  cache?: boolean;
+  /**
+   * Time (a `Date` or epoch milliseconds) by which the call must settle, retries and rate-limiter
+   * waits included. Rejects with `DeadlineExceededError` once it passes.
+   */
+  deadline?: Date | number;
+  /**
+   * Total time budget for the call in milliseconds, retries and rate-limiter waits included.
+   */
+  totalTimeoutMs?: number;
 }
 
 /**
@@ -28,20 +60,31 @@ export interface RequestOptions {
  */
 export type UserScopedRequestOptions = RequestOptions & UserContextHeaderParams;
 
+type ForwardedRequestOptions = Pick<
+  HttpRequestOptions,
+  | "signal"
+  | "authToken"
+  | "idempotencyKey"
+  | "useRateLimiter"
+  | "priority"
+  | "tenantKey"
+  | "retry"
+  | "cache"
+  | "deadline"
+  | "totalTimeoutMs"
+>;
+
 /**
  * Create a request configuration for the HTTP client that only contains supported options.
  */
 export function buildRequestConfig(
   options?: RequestOptions
-): Pick<HttpRequestOptions, "signal" | "authToken" | "idempotencyKey" | "useRateLimiter"> {
+): ForwardedRequestOptions {
   if (!options) {
     return {};
   }
 
-  const config: Pick<
-    HttpRequestOptions,
-    "signal" | "authToken" | "idempotencyKey" | "useRateLimiter"
-  > = {};
+  const config: ForwardedRequestOptions = {};
 
   if (options.signal) {
     config.signal = options.signal;
@@ -55,6 +98,24 @@ export function buildRequestConfig(
   if (options.useRateLimiter !== undefined) {
     config.useRateLimiter = options.useRateLimiter;
   }
+  if (options.priority) {
+    config.priority = options.priority;
+  }
+  if (options.tenantKey) {
+    config.tenantKey = options.tenantKey;
+  }
+  if (options.retry) {
+    config.retry = options.retry;
+  }
+  if (options.cache !== undefined) {
+    config.cache = options.cache;
+  }
+  if (options.deadline !== undefined) {
+    config.deadline = options.deadline;
+  }
+  if (options.totalTimeoutMs !== undefined) {
+    config.totalTimeoutMs = options.totalTimeoutMs;
+  }
 
   return config;
 }
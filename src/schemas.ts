@@ -0,0 +1,771 @@
+/**
+ * Schemas declared in `companycam-openapi-spec.yaml`, reduced to the keywords the SDK relies on.
+ * Used to map API validation messages onto payload fields and to validate requests and responses
+ * locally.
+ */
+
+/**
+ * Subset of an OpenAPI schema object.
+ */
+export interface Schema {
+  type?: "object" | "array" | "string" | "number" | "integer" | "boolean";
+  nullable?: boolean;
+  enum?: readonly unknown[];
+  required?: readonly string[];
+  /** Name of an entry in {@link COMPONENT_SCHEMAS}. */
+  $ref?: string;
+  items?: Schema;
+  properties?: Readonly<Record<string, Schema>>;
+}
+
+/**
+ * Component schemas referenced by the tables below, keyed by name.
+ */
+export const COMPONENT_SCHEMAS: Readonly<Record<string, Schema>> = {
+  Company: {
+    type: "object",
+    required: ["id", "name"],
+    properties: {
+      id: { type: "string" },
+      name: { type: "string" },
+      status: { type: "string", enum: ["active", "cancelled", "deleted"] },
+      address: { type: "string", $ref: "Address" },
+      logo: { type: "array", items: { $ref: "ImageURI" } },
+    },
+  },
+  User: {
+    type: "object",
+    required: ["id"],
+    properties: {
+      id: { type: "string" },
+      company_id: { type: "string" },
+      email_address: { type: "string" },
+      status: { type: "string", enum: ["active", "deleted"] },
+      first_name: { type: "string" },
+      last_name: { type: "string" },
+      profile_image: { type: "array", items: { $ref: "ImageURI" } },
+      phone_number: { type: "string", nullable: true },
+      created_at: { type: "integer" },
+      updated_at: { type: "integer" },
+      user_url: { type: "string" },
+    },
+  },
+  Project: {
+    type: "object",
+    required: ["id"],
+    properties: {
+      id: { type: "string" },
+      company_id: { type: "string" },
+      creator_id: { type: "string" },
+      creator_type: { type: "string" },
+      creator_name: { type: "string" },
+      status: { type: "string", enum: ["active", "deleted"] },
+      archived: { type: "boolean" },
+      name: { type: "string", nullable: true },
+      address: { $ref: "Address" },
+      coordinates: { $ref: "Coordinate" },
+      featured_image: { type: "array", items: { $ref: "ImageURI" } },
+      project_url: { type: "string" },
+      embedded_project_url: { type: "string" },
+      integrations: { type: "array", items: { $ref: "ProjectIntegration" } },
+      slug: { type: "string" },
+      public: { type: "boolean" },
+      geofence: { type: "array", items: { $ref: "Coordinate" } },
+      primary_contact: { $ref: "ProjectContactResponse" },
+      notepad: { type: "string" },
+      created_at: { type: "integer" },
+      updated_at: { type: "integer" },
+    },
+  },
+  Photo: {
+    type: "object",
+    required: ["id"],
+    properties: {
+      id: { type: "string" },
+      company_id: { type: "string" },
+      creator_id: { type: "string" },
+      creator_type: { type: "string" },
+      creator_name: { type: "string" },
+      project_id: { type: "string" },
+      processing_status: {
+        type: "string",
+        enum: ["pending", "processing", "processed", "processing_error", "duplicate"],
+      },
+      coordinates: { type: "array", items: { $ref: "Coordinate" } },
+      uris: { type: "array", items: { $ref: "ImageURI" } },
+      hash: { type: "string" },
+      description: { type: "string" },
+      internal: { type: "boolean" },
+      photo_url: { type: "string" },
+      captured_at: { type: "integer" },
+      created_at: { type: "integer" },
+      updated_at: { type: "integer" },
+    },
+  },
+  Tag: {
+    type: "object",
+    required: ["id"],
+    properties: {
+      id: { type: "string" },
+      company_id: { type: "string" },
+      display_value: { type: "string" },
+      value: { type: "string" },
+      created_at: { type: "integer" },
+      updated_at: { type: "integer" },
+    },
+  },
+  Group: {
+    type: "object",
+    required: ["id"],
+    properties: {
+      id: { type: "string" },
+      company_id: { type: "string" },
+      name: { type: "string" },
+      users: { type: "array", items: { $ref: "User" } },
+      status: { type: "string", enum: ["active", "deleted"] },
+      group_url: { type: "string" },
+      created_at: { type: "integer" },
+      updated_at: { type: "integer" },
+    },
+  },
+  Webhook: {
+    type: "object",
+    required: ["id"],
+    properties: {
+      id: { type: "string" },
+      company_id: { type: "string" },
+      url: { type: "string" },
+      scopes: { type: "array", items: { type: "string" } },
+      token: { type: "string" },
+      enabled: { type: "boolean" },
+      created_at: { type: "integer" },
+      updated_at: { type: "integer" },
+    },
+  },
+  ImageURI: {
+    type: "object",
+    required: ["type", "uri"],
+    properties: {
+      type: { type: "string" },
+      uri: { type: "string" },
+      url: { type: "string" },
+    },
+  },
+  Address: {
+    type: "object",
+    properties: {
+      street_address_1: { type: "string", nullable: true },
+      street_address_2: { type: "string", nullable: true },
+      city: { type: "string", nullable: true },
+      state: { type: "string", nullable: true },
+      postal_code: { type: "string", nullable: true },
+      country: { type: "string", nullable: true },
+    },
+  },
+  Checklist: {
+    type: "object",
+    properties: {
+      id: { type: "string" },
+      company_id: { type: "string" },
+      project_id: { type: "string" },
+      name: { type: "string" },
+      created_at: { type: "integer" },
+      updated_at: { type: "integer" },
+      completed_at: { type: "integer", nullable: true },
+      creator_id: { type: "string" },
+      checklist_template_id: { type: "string", nullable: true },
+      is_populating: { type: "boolean" },
+      sectionless_tasks: { type: "array", items: { $ref: "Task" } },
+      sections: { type: "array", items: { $ref: "ChecklistSection" } },
+    },
+  },
+  ChecklistSection: {
+    type: "object",
+    properties: {
+      id: { type: "string" },
+      todo_list_id: { type: "string" },
+      creator_id: { type: "string" },
+      creator_type: { type: "string" },
+      creator_name: { type: "string" },
+      title: { type: "string" },
+      position: { type: "integer" },
+      tasks: { type: "array", items: { $ref: "Task" } },
+    },
+  },
+  Task: {
+    type: "object",
+    properties: {
+      id: { type: "string" },
+      completed_at: { type: "integer" },
+      completed_by_id: { type: "string" },
+      completed_by_type: { type: "string" },
+      created_at: { type: "integer" },
+      creator_id: { type: "string" },
+      creator_type: { type: "string" },
+      details: { type: "string" },
+      photo_capture_required: { type: "boolean" },
+      position: { type: "integer" },
+      todo_list_id: { type: "string" },
+      todo_list_section_id: { type: "string", nullable: true },
+      title: { type: "string" },
+      updated_at: { type: "integer" },
+      sub_tasks: { type: "array", items: { $ref: "SubTask" } },
+      photos: { type: "array", items: { $ref: "Photo" } },
+    },
+  },
+  SubTask: {
+    type: "object",
+    properties: {
+      id: { type: "string" },
+      label: { type: "string" },
+      answer_type: { type: "string", enum: ["open_text", "multiple_choice", "yes_no"] },
+      answer_choices: { type: "array" },
+      answer_options: { type: "array", items: { type: "string" } },
+      position: { type: "integer" },
+      task_id: { type: "string" },
+      answer_text: { type: "string" },
+    },
+  },
+  ChecklistTemplate: {
+    type: "object",
+    properties: {
+      id: { type: "string" },
+      company_id: { type: "string" },
+      name: { type: "string" },
+      description: { type: "string" },
+      created_at: { type: "integer" },
+      updated_at: { type: "integer" },
+    },
+  },
+  Coordinate: {
+    type: "object",
+    required: ["lat", "lon"],
+    properties: {
+      lat: { type: "number" },
+      lon: { type: "number" },
+    },
+  },
+  ProjectIntegration: {
+    type: "object",
+    required: ["type", "relation_id"],
+    properties: {
+      type: { type: "string" },
+      relation_id: { type: "string" },
+    },
+  },
+  Comment: {
+    type: "object",
+    required: ["id"],
+    properties: {
+      id: { type: "string" },
+      creator_id: { type: "string" },
+      creator_type: { type: "string" },
+      creator_name: { type: "string" },
+      commentable_id: { type: "string" },
+      commentable_type: { type: "string" },
+      status: { type: "string" },
+      content: { type: "string" },
+      created_at: { type: "integer" },
+      updated_at: { type: "integer" },
+    },
+  },
+  Document: {
+    type: "object",
+    required: ["id"],
+    properties: {
+      id: { type: "string" },
+      creator_id: { type: "string" },
+      creator_type: { type: "string" },
+      creator_name: { type: "string" },
+      project_id: { type: "string" },
+      name: { type: "string" },
+      url: { type: "string" },
+      content_type: { type: "string" },
+      byte_size: { type: "integer" },
+      created_at: { type: "integer" },
+      updated_at: { type: "integer" },
+    },
+  },
+  ProjectContactResponse: {
+    type: "object",
+    properties: {
+      id: { type: "string" },
+      project_id: { type: "string" },
+      name: { type: "string" },
+      email: { type: "string" },
+      phone_number: { type: "string" },
+      created_at: { type: "integer" },
+      updated_at: { type: "integer" },
+    },
+  },
+  ProjectContactRequest: {
+    type: "object",
+    required: ["name"],
+    properties: {
+      name: { type: "string" },
+      email: { type: "string" },
+      phone_number: { type: "string" },
+    },
+  },
+  ProjectNotepad: {
+    type: "object",
+    required: ["notepad"],
+    properties: {
+      notepad: { type: "string" },
+    },
+  },
+  ProjectCollaborator: {
+    type: "object",
+    properties: {
+      id: { type: "string" },
+      company_id: { type: "string" },
+      project_id: { type: "string" },
+      project_invitation_id: { type: "string" },
+      accepted_at: { type: "integer" },
+      created_at: { type: "integer" },
+      updated_at: { type: "integer" },
+    },
+  },
+  ProjectInvitation: {
+    type: "object",
+    properties: {
+      id: { type: "string" },
+      project_id: { type: "string" },
+      invite_url: { type: "string" },
+      status: { type: "string", enum: ["accepted", "expired", "pending"] },
+      accepted_at: { type: "integer" },
+      accepted_by_id: { type: "string" },
+      expires_at: { type: "integer" },
+      creator_id: { type: "string" },
+      created_at: { type: "integer" },
+      updated_at: { type: "integer" },
+    },
+  },
+};
+
+/**
+ * JSON request body of each operation, keyed by `operationId`.
+ */
+export const REQUEST_BODY_SCHEMAS: Readonly<Record<string, Schema>> = {
+  createUser: {
+    type: "object",
+    properties: {
+      user: {
+        type: "object",
+        properties: {
+          first_name: { type: "string" },
+          last_name: { type: "string" },
+          email_address: { type: "string" },
+          phone_number: { type: "string" },
+          password: { type: "string" },
+          user_role: { type: "string" },
+        },
+      },
+    },
+  },
+  updateUser: {
+    type: "object",
+    properties: {
+      first_name: { type: "string" },
+      last_name: { type: "string" },
+      email_address: { type: "string" },
+      phone_number: { type: "string" },
+      password: { type: "string" },
+    },
+  },
+  createProject: {
+    type: "object",
+    properties: {
+      name: { type: "string" },
+      address: { $ref: "Address" },
+      coordinates: { $ref: "Coordinate" },
+      geofence: { type: "array", items: { $ref: "Coordinate" } },
+      primary_contact: { $ref: "ProjectContactRequest" },
+    },
+  },
+  updateProject: {
+    type: "object",
+    properties: {
+      name: { type: "string" },
+      address: { $ref: "Address" },
+      coordinates: { $ref: "Coordinate" },
+      geofence: { type: "array", items: { $ref: "Coordinate" } },
+    },
+  },
+  createProjectPhoto: {
+    type: "object",
+    required: ["photo"],
+    properties: {
+      photo: {
+        type: "object",
+        required: ["uri", "captured_at"],
+        properties: {
+          coordinates: { $ref: "Coordinate" },
+          uri: { type: "string" },
+          captured_at: { type: "integer" },
+          description: { type: "string" },
+          tags: { type: "array", items: { type: "string" } },
+        },
+      },
+    },
+  },
+  updateProjectNotepad: {
+    type: "object",
+    required: ["notepad"],
+    properties: {
+      notepad: { type: "string" },
+    },
+  },
+  createProjectLabels: {
+    type: "object",
+    properties: {
+      project: {
+        type: "object",
+        properties: {
+          labels: { type: "array", items: { type: "string" } },
+        },
+      },
+    },
+  },
+  createProjectDocument: {
+    type: "object",
+    properties: {
+      document: {
+        type: "object",
+        properties: {
+          name: { type: "string" },
+          attachment: { type: "string" },
+        },
+      },
+    },
+  },
+  createProjectComment: {
+    type: "object",
+    properties: {
+      comment: {
+        type: "object",
+        properties: {
+          content: { type: "string" },
+        },
+      },
+    },
+  },
+  createProjectChecklist: {
+    type: "object",
+    properties: {
+      checklist_template_id: { type: "string" },
+    },
+  },
+  updatePhoto: {
+    type: "object",
+    properties: {
+      photo: {
+        type: "object",
+        properties: {
+          internal: { type: "boolean" },
+        },
+      },
+    },
+  },
+  createPhotoTags: {
+    type: "object",
+    properties: {
+      tags: { type: "array", items: { type: "string" } },
+    },
+  },
+  createPhotoComment: {
+    type: "object",
+    properties: {
+      comment: {
+        type: "object",
+        properties: {
+          content: { type: "string" },
+        },
+      },
+    },
+  },
+  updatePhotoDescription: {
+    type: "object",
+    properties: {
+      description: { type: "string" },
+    },
+  },
+  createTag: {
+    type: "object",
+    properties: {
+      tag: {
+        type: "object",
+        properties: {
+          display_value: { type: "string" },
+        },
+      },
+    },
+  },
+  updateTag: {
+    type: "object",
+    properties: {
+      tag: {
+        type: "object",
+        properties: {
+          display_value: { type: "string" },
+        },
+      },
+    },
+  },
+  createGroup: {
+    type: "object",
+    properties: {
+      group: {
+        type: "object",
+        properties: {
+          name: { type: "string" },
+          users: { type: "array", items: { type: "string" } },
+        },
+      },
+    },
+  },
+  updateGroup: {
+    type: "object",
+    properties: {
+      group: {
+        type: "object",
+        properties: {
+          name: { type: "string" },
+          users: { type: "array", items: { type: "string" } },
+        },
+      },
+    },
+  },
+  createWebhook: {
+    type: "object",
+    properties: {
+      url: { type: "string" },
+      scopes: { type: "array", items: { type: "string" } },
+      enabled: { type: "boolean" },
+      token: { type: "string" },
+    },
+  },
+  updateWebhook: {
+    type: "object",
+    properties: {
+      url: { type: "string" },
+      scopes: { type: "array", items: { type: "string" } },
+      enabled: { type: "boolean" },
+      token: { type: "string" },
+    },
+  },
+};
+
+/**
+ * Query parameters of each operation, as an object schema keyed by parameter name.
+ */
+export const QUERY_PARAMETER_SCHEMAS: Readonly<Record<string, Schema>> = {
+  listChecklists: {
+    type: "object",
+    properties: {
+      page: { type: "integer" },
+      per_page: { type: "integer" },
+      completed: { type: "boolean" },
+    },
+  },
+  listUsers: {
+    type: "object",
+    properties: {
+      page: { type: "integer" },
+      per_page: { type: "integer" },
+    },
+  },
+  listProjects: {
+    type: "object",
+    properties: {
+      page: { type: "integer" },
+      per_page: { type: "integer" },
+      query: { type: "string" },
+      modified_since: { type: "string" },
+    },
+  },
+  listProjectPhotos: {
+    type: "object",
+    properties: {
+      page: { type: "integer" },
+      per_page: { type: "integer" },
+      start_date: { type: "string" },
+      end_date: { type: "string" },
+      user_ids: { type: "array", items: { type: "integer" } },
+      group_ids: { type: "array", items: { type: "integer" } },
+      tag_ids: { type: "array", items: { type: "integer" } },
+    },
+  },
+  listProjectAssignedUsers: {
+    type: "object",
+    properties: {
+      page: { type: "integer" },
+      per_page: { type: "integer" },
+    },
+  },
+  listProjectCollaborators: {
+    type: "object",
+    properties: {
+      page: { type: "integer" },
+      per_page: { type: "integer" },
+    },
+  },
+  listProjectInvitations: {
+    type: "object",
+    properties: {
+      page: { type: "integer" },
+      per_page: { type: "integer" },
+    },
+  },
+  listProjectLabels: {
+    type: "object",
+    properties: {
+      page: { type: "integer" },
+      per_page: { type: "integer" },
+    },
+  },
+  listProjectDocuments: {
+    type: "object",
+    properties: {
+      page: { type: "integer" },
+      per_page: { type: "integer" },
+    },
+  },
+  listProjectComments: {
+    type: "object",
+    properties: {
+      page: { type: "integer" },
+      per_page: { type: "integer" },
+    },
+  },
+  listPhotos: {
+    type: "object",
+    properties: {
+      page: { type: "integer" },
+      per_page: { type: "integer" },
+      start_date: { type: "string" },
+      end_date: { type: "string" },
+      user_ids: { type: "array", items: { type: "integer" } },
+      group_ids: { type: "array", items: { type: "integer" } },
+      tag_ids: { type: "array", items: { type: "integer" } },
+    },
+  },
+  listPhotoTags: {
+    type: "object",
+    properties: {
+      page: { type: "integer" },
+      per_page: { type: "integer" },
+    },
+  },
+  listPhotoComments: {
+    type: "object",
+    properties: {
+      page: { type: "integer" },
+      per_page: { type: "integer" },
+    },
+  },
+  listTags: {
+    type: "object",
+    properties: {
+      page: { type: "integer" },
+      per_page: { type: "integer" },
+    },
+  },
+  listGroups: {
+    type: "object",
+    properties: {
+      page: { type: "integer" },
+      per_page: { type: "integer" },
+    },
+  },
+  listWebhooks: {
+    type: "object",
+    properties: {
+      page: { type: "integer" },
+      per_page: { type: "integer" },
+    },
+  },
+};
+
+/**
+ * JSON body of each operation's success response, keyed by `operationId`. Operations answering
+ * `204 No Content` have no entry.
+ */
+export const RESPONSE_SCHEMAS: Readonly<Record<string, Schema>> = {
+  listChecklists: { type: "array", items: { $ref: "Checklist" } },
+  getCurrentCompany: { $ref: "Company" },
+  getCurrentUser: { $ref: "User" },
+  listUsers: { type: "array", items: { $ref: "User" } },
+  createUser: { $ref: "User" },
+  getUser: { $ref: "User" },
+  updateUser: { $ref: "User" },
+  listProjects: { type: "array", items: { $ref: "Project" } },
+  createProject: { $ref: "Project" },
+  getProject: { $ref: "Project" },
+  updateProject: { $ref: "Project" },
+  archiveProject: { $ref: "Project" },
+  restoreProject: { $ref: "Project" },
+  listProjectPhotos: { type: "array", items: { $ref: "Photo" } },
+  createProjectPhoto: { $ref: "Photo" },
+  listProjectAssignedUsers: { type: "array", items: { $ref: "User" } },
+  assignUserToProject: { $ref: "User" },
+  updateProjectNotepad: { $ref: "ProjectNotepad" },
+  listProjectCollaborators: { type: "array", items: { $ref: "ProjectCollaborator" } },
+  listProjectInvitations: { type: "array", items: { $ref: "ProjectInvitation" } },
+  createInvitation: { $ref: "ProjectInvitation" },
+  listProjectLabels: { type: "array", items: { $ref: "Tag" } },
+  createProjectLabels: { $ref: "Tag" },
+  listProjectDocuments: { type: "array", items: { $ref: "Document" } },
+  createProjectDocument: { $ref: "Document" },
+  listProjectComments: { type: "array", items: { $ref: "Comment" } },
+  createProjectComment: { $ref: "Comment" },
+  listProjectChecklists: { type: "array", items: { $ref: "Checklist" } },
+  createProjectChecklist: { $ref: "Checklist" },
+  getProjectChecklist: { $ref: "Checklist" },
+  listPhotos: { type: "array", items: { $ref: "Photo" } },
+  getPhoto: { $ref: "Photo" },
+  updatePhoto: { $ref: "Photo" },
+  listPhotoTags: { type: "array", items: { $ref: "Tag" } },
+  createPhotoTags: { $ref: "Tag" },
+  listPhotoComments: { type: "array", items: { $ref: "Comment" } },
+  createPhotoComment: { $ref: "Comment" },
+  updatePhotoDescription: { $ref: "Photo" },
+  listTags: { type: "array", items: { $ref: "Tag" } },
+  createTag: { $ref: "Tag" },
+  getTag: { $ref: "Tag" },
+  updateTag: { $ref: "Tag" },
+  listChecklistTemplates: { type: "array", items: { $ref: "ChecklistTemplate" } },
+  listGroups: { type: "array", items: { $ref: "Group" } },
+  createGroup: { $ref: "Group" },
+  getGroup: { $ref: "Group" },
+  updateGroup: { $ref: "Group" },
+  listWebhooks: { type: "array", items: { $ref: "Webhook" } },
+  createWebhook: { $ref: "Webhook" },
+  getWebhook: { $ref: "Webhook" },
+  updateWebhook: { $ref: "Webhook" },
+};
+
+/**
+ * Follow a `$ref` to its component schema.
+ *
+ * @param schema Inline schema or reference.
+ * @returns The referenced schema, or `schema` itself when it is not a reference.
+ */
+export function resolveSchema(schema: Schema): Schema {
+  return schema.$ref ? COMPONENT_SCHEMAS[schema.$ref] ?? {} : schema;
+}
+
+/**
+ * Name of the property wrapping a request payload, e.g. `user` for `{ user: { ... } }` bodies.
+ *
+ * @param body Request body schema.
+ * @returns The wrapper property, or `undefined` when the payload is the body itself.
+ */
+export function payloadWrapper(body: Schema): string | undefined {
+  const names = Object.keys(body.properties ?? {});
+  if (names.length !== 1) {
+    return undefined;
+  }
+  const inner = resolveSchema(body.properties![names[0]!]!);
+  return inner.properties ? names[0] : undefined;
+}
@@ -37,8 +37,8 @@ describe("createClient", () => {
   it("defaults the HttpClient base URL to the spec-defined endpoint", () => {
     const client = createClient();
 
-    // Accessing the axios instance allows us to inspect the derived base URL.
-    const axiosInstance = (client.http as unknown as { axiosInstance: { defaults: { baseURL?: string } } }).axiosInstance;
+    // Accessing the default transport's axios instance allows us to inspect the derived base URL.
+    const axiosInstance = (client.http as unknown as { transport: { axiosInstance: { defaults: { baseURL?: string } } } }).transport.axiosInstance;
     expect(axiosInstance.defaults.baseURL).toBe(BASE_CLIENT_URL);
   });
 
@@ -46,7 +46,30 @@ describe("createClient", () => {
     const customBaseURL = "https://example.com/custom";
     const client = createClient({ baseURL: customBaseURL });
 
-    const axiosInstance = (client.http as unknown as { axiosInstance: { defaults: { baseURL?: string } } }).axiosInstance;
+    const axiosInstance = (client.http as unknown as { transport: { axiosInstance: { defaults: { baseURL?: string } } } }).transport.axiosInstance;
     expect(axiosInstance.defaults.baseURL).toBe(customBaseURL);
   });
+
+  it("exposes an envelope view that shares the client's HttpClient", async () => {
+    const client = createClient();
+    const requestSpy = vi.spyOn(client.http, "request").mockResolvedValue({
+      data: { id: "company-1" },
+      status: 200,
+      statusText: "OK",
+      headers: { "x-request-id": "req-42" },
+      config: { headers: {} as any },
+    });
+
+    // The envelope view should route through the same HttpClient and surface response metadata.
+    const result = await client.withResponse().company.retrieve();
+
+    expect(requestSpy).toHaveBeenCalledTimes(1);
+    expect(result).toMatchObject({
+      data: { id: "company-1" },
+      status: 200,
+      requestId: "req-42",
+    });
+    client.dispose();
+  });
 });
+
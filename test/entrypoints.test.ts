@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { readFileSync } from "node:fs";
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+
+const SOURCE_ROOT = join(dirname(fileURLToPath(import.meta.url)), "..", "src");
+
+/**
+ * Collect every module specifier reachable through static and dynamic imports from `entry`.
+ */
+function reachableImports(entry: string): Set<string> {
+  const specifiers = new Set<string>();
+  const visited = new Set<string>();
+  const visit = (file: string) => {
+    if (visited.has(file)) {
+      return;
+    }
+    visited.add(file);
+    const source = readFileSync(file, "utf8");
+    for (const match of source.matchAll(/(?:from|import)\s*\(?\s*"([^"]+)"/g)) {
+      const specifier = match[1]!;
+      if (specifier.startsWith(".")) {
+        visit(join(dirname(file), specifier.replace(/\.js$/, ".ts")));
+      } else {
+        specifiers.add(specifier);
+      }
+    }
+  };
+  visit(join(SOURCE_ROOT, entry));
+  return specifiers;
+}
+
+describe("entrypoints", () => {
+  it("keeps Node.js built-ins out of the main entry", () => {
+    const builtins = [...reachableImports("index.ts")].filter((specifier) =>
+      specifier.startsWith("node:")
+    );
+
+    expect(builtins).toEqual([]);
+  });
+
+  it("exposes the Node.js-only stores from the node entry", async () => {
+    const node = await import("../src/node.js");
+
+    expect(Object.keys(node).sort()).toEqual([
+      "FileCacheStore",
+      "FileOutboxStore",
+      "FileRateLimiterStore",
+      "RedisRateLimiterStore",
+    ]);
+  });
+});
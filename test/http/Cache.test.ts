@@ -0,0 +1,142 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { mkdtemp, readdir, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { AxiosRequestConfig, AxiosResponse } from "axios";
+import { HttpClient } from "../../src/http/HttpClient.js";
+import { MemoryCacheStore } from "../../src/http/Cache.js";
+import type { CacheEntry } from "../../src/http/Cache.js";
+import { FileCacheStore } from "../../src/http/FileCacheStore.js";
+
+/**
+ * The response cache sits inside HttpClient, so it is verified through the client with a
+ * scripted transport that records every outgoing attempt.
+ */
+
+function response(
+  status: number,
+  data: unknown,
+  headers: Record<string, string> = {}
+): AxiosResponse {
+  return { status, statusText: "", data, headers, config: {} } as AxiosResponse;
+}
+
+function entry(path: string): CacheEntry {
+  return { path, status: 200, headers: {}, data: { path }, expiresAt: Date.now() + 1000 };
+}
+
+describe("HttpClient response cache", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("serves fresh GETs from the cache and invalidates them after mutations", async () => {
+    // Arrange: every call returns a new project name.
+    let version = 0;
+    const send = vi.fn(async (config: AxiosRequestConfig) =>
+      response(200, { id: "1", name: `v${++version}`, method: config.method })
+    );
+    const client = new HttpClient({
+      transport: { send },
+      rateLimiter: null,
+      tracer: null,
+      cache: { ttlMs: 60_000 },
+    });
+
+    // Act: read twice, update, then read again.
+    const first = await client.request({ method: "GET", url: "/projects/1" });
+    const second = await client.request({ method: "GET", url: "/projects/1" });
+    await client.request({ method: "PUT", url: "/projects/1", data: { name: "x" } });
+    const third = await client.request({ method: "GET", url: "/projects/1" });
+
+    // Assert: the second read never reached the transport and the update busted the entry.
+    expect(first.data).toMatchObject({ name: "v1" });
+    expect(second.data).toEqual(first.data);
+    expect(second.data).not.toBe(first.data);
+    expect(third.data).toMatchObject({ name: "v3" });
+    expect(send).toHaveBeenCalledTimes(3);
+  });
+
+  it("revalidates stale entries with If-None-Match and reuses them on 304", async () => {
+    // Arrange: the first response carries an ETag and expires immediately.
+    vi.useFakeTimers();
+    const send = vi
+      .fn<(config: AxiosRequestConfig) => Promise<AxiosResponse>>()
+      .mockResolvedValueOnce(
+        response(200, { name: "Acme" }, { etag: '"abc"', "cache-control": "max-age=1" })
+      )
+      .mockResolvedValueOnce(response(304, "", { etag: '"abc"' }));
+    const client = new HttpClient({
+      transport: { send },
+      rateLimiter: null,
+      tracer: null,
+      cache: {},
+    });
+
+    // Act: fetch, let the entry go stale, then fetch again.
+    await client.request({ method: "GET", url: "/company" });
+    vi.advanceTimersByTime(1_500);
+    const revalidated = await client.request({ method: "GET", url: "/company" });
+
+    // Assert: the conditional request accepted 304 and the cached payload was returned.
+    const conditional = send.mock.calls[1]![0];
+    expect(conditional.headers).toMatchObject({ "If-None-Match": '"abc"' });
+    expect(conditional.validateStatus?.(304)).toBe(true);
+    expect(revalidated).toMatchObject({ status: 200, data: { name: "Acme" } });
+  });
+
+  it("keeps entries per credential and skips no-store responses", async () => {
+    // Arrange
+    const send = vi
+      .fn<(config: AxiosRequestConfig) => Promise<AxiosResponse>>()
+      .mockImplementation(async () => response(200, { id: "u" }));
+    const client = new HttpClient({
+      transport: { send },
+      rateLimiter: null,
+      tracer: null,
+      cache: {},
+    });
+
+    // Act: the same URL with two tokens, then a no-store response fetched twice.
+    await client.request({ method: "GET", url: "/users/current", authToken: "a" });
+    await client.request({ method: "GET", url: "/users/current", authToken: "b" });
+    await client.request({ method: "GET", url: "/users/current", authToken: "a" });
+    send.mockImplementation(async () =>
+      response(200, [], { "cache-control": "no-store" })
+    );
+    await client.request({ method: "GET", url: "/tags" });
+    await client.request({ method: "GET", url: "/tags" });
+
+    // Assert
+    expect(send).toHaveBeenCalledTimes(4);
+  });
+});
+
+describe("cache stores", () => {
+  it("evicts the least recently used memory entry", async () => {
+    const store = new MemoryCacheStore({ maxEntries: 2 });
+    await store.set("a", entry("/a"));
+    await store.set("b", entry("/b"));
+    await store.get("a");
+    await store.set("c", entry("/c"));
+
+    expect((await store.entries()).map(([key]) => key)).toEqual(["a", "c"]);
+  });
+
+  it("persists entries as files without exposing keys in file names", async () => {
+    const directory = await mkdtemp(join(tmpdir(), "companycam-cache-"));
+    try {
+      const store = new FileCacheStore({ directory });
+      await store.set("GET /projects/1 secret", entry("/projects/1"));
+
+      expect(await new FileCacheStore({ directory }).get("GET /projects/1 secret")).toMatchObject({
+        path: "/projects/1",
+      });
+      expect((await readdir(directory)).join()).not.toContain("secret");
+      await store.delete("GET /projects/1 secret");
+      expect(await store.entries()).toEqual([]);
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,103 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { AxiosRequestConfig } from "axios";
+import { CircuitBreaker } from "../../src/http/CircuitBreaker.js";
+import type { CircuitStateChange } from "../../src/http/CircuitBreaker.js";
+import { CircuitOpenError } from "../../src/http/Errors.js";
+import { HttpClient } from "../../src/http/HttpClient.js";
+import { TransportError, TransportErrorCode } from "../../src/http/Transport.js";
+
+/**
+ * The breaker is exercised directly for its state machine and through HttpClient to confirm
+ * that open circuits fail fast without touching the transport.
+ */
+describe("CircuitBreaker", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("opens at the failure-rate threshold, probes when half-open, and closes on success", () => {
+    // Arrange
+    vi.useFakeTimers();
+    const breaker = new CircuitBreaker({
+      failureRateThreshold: 0.5,
+      minimumRequests: 4,
+      openMs: 1_000,
+    });
+    const changes: CircuitStateChange[] = [];
+    breaker.on("stateChange", (change) => changes.push(change));
+
+    // Act: two successes and two failures reach the 50% threshold.
+    breaker.recordSuccess();
+    breaker.recordSuccess();
+    breaker.recordFailure();
+    expect(breaker.state).toBe("closed");
+    breaker.recordFailure();
+
+    // Assert: open circuits reject until the open period has elapsed.
+    expect(breaker.state).toBe("open");
+    expect(() => breaker.acquire()).toThrow(CircuitOpenError);
+    vi.advanceTimersByTime(1_000);
+    expect(breaker.state).toBe("half-open");
+    breaker.acquire();
+    expect(() => breaker.acquire()).toThrow(CircuitOpenError);
+    breaker.recordSuccess();
+    expect(breaker.state).toBe("closed");
+    expect(changes.map(({ from, to }) => `${from}->${to}`)).toEqual([
+      "closed->open",
+      "open->half-open",
+      "half-open->closed",
+    ]);
+    expect(changes[0]?.failureRate).toBe(0.5);
+  });
+
+  it("reopens when a half-open probe fails and ignores failures outside the window", () => {
+    // Arrange
+    vi.useFakeTimers();
+    const breaker = new CircuitBreaker({ minimumRequests: 3, windowMs: 1_000, openMs: 500 });
+
+    // Act & Assert: an old failure expires before the next one is recorded.
+    breaker.recordFailure();
+    vi.advanceTimersByTime(1_001);
+    breaker.recordSuccess();
+    breaker.recordFailure();
+    expect(breaker.state).toBe("closed");
+    breaker.recordFailure();
+    expect(breaker.state).toBe("open");
+
+    vi.advanceTimersByTime(500);
+    breaker.acquire();
+    breaker.recordFailure();
+    expect(breaker.state).toBe("open");
+  });
+
+  it("makes HttpClient fail fast while open", async () => {
+    // Arrange: the API is down and answers every attempt with 503.
+    const send = vi.fn(async (config: AxiosRequestConfig) => {
+      throw new TransportError("Service Unavailable", TransportErrorCode.BadResponse, config, {
+        status: 503,
+        statusText: "Service Unavailable",
+        data: {},
+        headers: { "retry-after": "0" },
+        config: config as never,
+      });
+    });
+    const circuitBreaker = new CircuitBreaker({ minimumRequests: 3 });
+    const client = new HttpClient({
+      transport: { send },
+      rateLimiter: null,
+      tracer: null,
+      circuitBreaker,
+    });
+
+    // Act: the first request's retries trip the breaker; the second never reaches the transport.
+    const first = await client.request({ method: "GET", url: "/tags" }).catch((err: unknown) => err);
+    const second = await client.request({ method: "GET", url: "/tags" }).catch((err: unknown) => err);
+
+    // Assert
+    expect(first).toBeInstanceOf(CircuitOpenError);
+    expect(send).toHaveBeenCalledTimes(3);
+    expect(second).toBeInstanceOf(CircuitOpenError);
+    expect((second as CircuitOpenError).retryAfterMs).toBeGreaterThan(0);
+    expect(circuitBreaker.state).toBe("open");
+  });
+});
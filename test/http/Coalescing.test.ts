@@ -0,0 +1,180 @@
+import { describe, expect, it, vi } from "vitest";
+import type { AxiosRequestConfig, AxiosResponse } from "axios";
+import { HttpClient } from "../../src/http/HttpClient.js";
+import { RateLimiter } from "../../src/http/RateLimiter.js";
+import { TransportError, TransportErrorCode } from "../../src/http/Transport.js";
+
+/**
+ * Concurrent identical GETs must share one transport call and one limiter token while each
+ * caller keeps control over its own cancellation.
+ */
+
+function deferredTransport() {
+  const calls: Array<{
+    config: AxiosRequestConfig;
+    resolve: (response: AxiosResponse) => void;
+  }> = [];
+  const send = vi.fn(
+    (config: AxiosRequestConfig) =>
+      new Promise<AxiosResponse>((resolve, reject) => {
+        calls.push({ config, resolve });
+        config.signal?.addEventListener?.("abort", () =>
+          reject(new TransportError("canceled", TransportErrorCode.Canceled, config))
+        );
+      })
+  );
+  return { send, calls };
+}
+
+function ok(data: unknown): AxiosResponse {
+  return { status: 200, statusText: "OK", data, headers: {}, config: {} } as AxiosResponse;
+}
+
+describe("HttpClient request coalescing", () => {
+  it("shares one call and one limiter token between identical concurrent GETs", async () => {
+    // Arrange
+    const { send, calls } = deferredTransport();
+    const rateLimiter = new RateLimiter();
+    const acquire = vi.spyOn(rateLimiter, "acquire");
+    const client = new HttpClient({ transport: { send }, rateLimiter, tracer: null });
+
+    // Act: two identical reads, one with different params, one as another user.
+    const first = client.request({ method: "GET", url: "/tags", params: { page: 1 } });
+    const second = client.request({ method: "get", url: "/tags", params: { page: 1 } });
+    const otherPage = client.request({ method: "GET", url: "/tags", params: { page: 2 } });
+    const otherUser = client.request({
+      method: "GET",
+      url: "/tags",
+      params: { page: 1 },
+      headers: { "X-CompanyCam-User": "someone@example.com" },
+    });
+    await vi.waitFor(() => expect(calls).toHaveLength(3));
+    for (const call of calls) {
+      call.resolve(ok([{ id: "t-1" }]));
+    }
+    const [a, b] = await Promise.all([first, second, otherPage, otherUser]);
+    rateLimiter.dispose();
+
+    // Assert: identical calls shared a transport call and token but got independent payloads.
+    expect(send).toHaveBeenCalledTimes(3);
+    expect(acquire).toHaveBeenCalledTimes(3);
+    expect(a.data).toEqual(b.data);
+    expect(a.data).not.toBe(b.data);
+  });
+
+  it("lets one caller abort without cancelling the shared request for others", async () => {
+    // Arrange
+    const { send, calls } = deferredTransport();
+    const client = new HttpClient({ transport: { send }, rateLimiter: null, tracer: null });
+    const controller = new AbortController();
+
+    // Act: the first caller gives up before the response arrives.
+    const aborted = client
+      .request({ method: "GET", url: "/users/1", signal: controller.signal })
+      .catch((err: unknown) => err);
+    const survivor = client.request({ method: "GET", url: "/users/1" });
+    await vi.waitFor(() => expect(calls).toHaveLength(1));
+    controller.abort();
+    expect(await aborted).toMatchObject({ name: "AbortError" });
+    calls[0]!.resolve(ok({ id: "1" }));
+
+    // Assert: the remaining caller still receives the response.
+    await expect(survivor).resolves.toMatchObject({ data: { id: "1" } });
+    expect(calls[0]!.config.signal?.aborted).toBe(false);
+  });
+
+  it("cancels the shared request once every caller has aborted", async () => {
+    // Arrange
+    const { send, calls } = deferredTransport();
+    const client = new HttpClient({ transport: { send }, rateLimiter: null, tracer: null });
+    const first = new AbortController();
+    const second = new AbortController();
+
+    // Act
+    const results = [
+      client.request({ method: "GET", url: "/company", signal: first.signal }).catch((err: unknown) => err),
+      client.request({ method: "GET", url: "/company", signal: second.signal }).catch((err: unknown) => err),
+    ];
+    await vi.waitFor(() => expect(calls).toHaveLength(1));
+    first.abort();
+    second.abort();
+
+    // Assert: the transport call was cancelled and a new request starts from scratch.
+    const [, last] = await Promise.all(results);
+    expect(calls[0]!.config.signal?.aborted).toBe(true);
+    expect(last).toMatchObject({ message: "canceled" });
+    const next = client.request({ method: "GET", url: "/company" });
+    await vi.waitFor(() => expect(calls).toHaveLength(2));
+    calls[1]!.resolve(ok({ name: "Acme" }));
+    await expect(next).resolves.toMatchObject({ data: { name: "Acme" } });
+  });
+
+  it("does not share a cache revalidation with a plain GET of the same URL", async () => {
+    // Arrange: cache an entry that is stale straight away.
+    const { send, calls } = deferredTransport();
+    const client = new HttpClient({
+      transport: { send },
+      rateLimiter: null,
+      tracer: null,
+      cache: {},
+    });
+    const initial = client.request({ method: "GET", url: "/company" });
+    await vi.waitFor(() => expect(calls).toHaveLength(1));
+    calls[0]!.resolve({
+      ...ok({ name: "Acme" }),
+      headers: { etag: '"abc"', "cache-control": "max-age=0" },
+    });
+    await initial;
+
+    // Act: a revalidation is in flight when an uncached read of the same URL starts.
+    const revalidation = client.request({ method: "GET", url: "/company" });
+    await vi.waitFor(() => expect(calls).toHaveLength(2));
+    const plain = client.request({ method: "GET", url: "/company", cache: false });
+    await vi.waitFor(() => expect(calls).toHaveLength(3));
+    calls[1]!.resolve({ ...ok(""), status: 304, headers: { etag: '"abc"' } });
+    calls[2]!.resolve(ok({ name: "Acme Roofing" }));
+
+    // Assert: each caller got the body meant for it.
+    expect(calls[1]!.config.headers).toMatchObject({ "If-None-Match": '"abc"' });
+    expect(calls[2]!.config.headers).not.toHaveProperty("If-None-Match");
+    await expect(revalidation).resolves.toMatchObject({ status: 200, data: { name: "Acme" } });
+    await expect(plain).resolves.toMatchObject({ status: 200, data: { name: "Acme Roofing" } });
+  });
+
+  it("does not let an interactive read join a background read still queued in the limiter", async () => {
+    vi.useFakeTimers();
+    try {
+      // Arrange: a drained one-token bucket with a background read waiting for the next token.
+      const { send, calls } = deferredTransport();
+      const rateLimiter = new RateLimiter({ tokensPerInterval: 1, intervalMs: 1_000 });
+      const client = new HttpClient({ transport: { send }, rateLimiter, tracer: null });
+      rateLimiter.tryAcquire();
+      let backgroundSettled = false;
+      const background = client
+        .request({ method: "GET", url: "/tags", priority: "background" })
+        .finally(() => {
+          backgroundSettled = true;
+        });
+
+      // Act: the same read is made interactively, then one token is released.
+      const interactive = client.request({ method: "GET", url: "/tags", priority: "interactive" });
+      await vi.advanceTimersByTimeAsync(0);
+      const queued = rateLimiter.snapshot().queued;
+      await vi.advanceTimersByTimeAsync(1_000);
+      calls[0]!.resolve(ok([{ id: "t-1" }]));
+
+      // Assert: the interactive read waited in its own lane and went first.
+      expect(queued).toEqual({ interactive: 1, normal: 0, background: 1 });
+      await expect(interactive).resolves.toMatchObject({ status: 200 });
+      expect(calls).toHaveLength(1);
+      expect(backgroundSettled).toBe(false);
+
+      await vi.advanceTimersByTimeAsync(1_000);
+      calls[1]!.resolve(ok([{ id: "t-1" }]));
+      await expect(background).resolves.toMatchObject({ status: 200 });
+      rateLimiter.dispose();
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
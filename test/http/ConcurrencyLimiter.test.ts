@@ -0,0 +1,100 @@
+import { describe, expect, it, vi } from "vitest";
+import type { AxiosResponse } from "axios";
+import { ConcurrencyLimiter } from "../../src/http/ConcurrencyLimiter.js";
+import type { ReleaseSlot } from "../../src/http/ConcurrencyLimiter.js";
+import { HttpClient } from "../../src/http/HttpClient.js";
+import type { AbortSignalLike } from "../../src/http/RateLimiter.js";
+
+describe("ConcurrencyLimiter", () => {
+  it("hands freed slots to waiting callers by priority", async () => {
+    // Arrange: occupy the only slot and queue callers in different lanes.
+    const limiter = new ConcurrencyLimiter({ maxConcurrent: 1 });
+    const first = await limiter.acquire();
+
+    const order: string[] = [];
+    const background = limiter
+      .acquire(undefined, { priority: "background" })
+      .then((release) => {
+        order.push("background");
+        return release;
+      });
+    const interactive = limiter
+      .acquire(undefined, { priority: "interactive" })
+      .then((release) => {
+        order.push("interactive");
+        return release;
+      });
+    expect(limiter.snapshot()).toMatchObject({
+      inFlight: 1,
+      queueLength: 2,
+      queued: { interactive: 1, normal: 0, background: 1 },
+    });
+
+    // Act: release slots one by one.
+    first();
+    first();
+    (await interactive)();
+    (await background)();
+
+    // Assert: the interactive caller went first and double releases were ignored.
+    expect(order).toEqual(["interactive", "background"]);
+    expect(limiter.inFlight).toBe(0);
+  });
+
+  it("removes aborted waiters without consuming a slot", async () => {
+    const limiter = new ConcurrencyLimiter({ maxConcurrent: 1 });
+    const release = limiter.tryAcquire() as ReleaseSlot;
+    expect(limiter.tryAcquire()).toBeUndefined();
+
+    const controller = new AbortController();
+    const waiting = limiter.acquire(controller.signal as unknown as AbortSignalLike);
+    controller.abort();
+
+    await expect(waiting).rejects.toMatchObject({ name: "AbortError" });
+    expect(limiter.snapshot().queueLength).toBe(0);
+    release();
+    expect(limiter.inFlight).toBe(0);
+  });
+
+  it("caps the attempts HttpClient has in flight", async () => {
+    // Arrange: a transport that stays pending until the test resolves it.
+    const pending: Array<() => void> = [];
+    let active = 0;
+    let peak = 0;
+    const send = vi.fn(
+      () =>
+        new Promise<AxiosResponse>((resolve) => {
+          active += 1;
+          peak = Math.max(peak, active);
+          pending.push(() => {
+            active -= 1;
+            resolve({ status: 200, data: {}, headers: {} } as AxiosResponse);
+          });
+        })
+    );
+    const client = new HttpClient({
+      transport: { send },
+      rateLimiter: null,
+      maxConcurrent: 2,
+      coalesceRequests: false,
+    });
+
+    // Act: start five requests and complete them as slots free up.
+    const requests = Array.from({ length: 5 }, (_, index) =>
+      client.request({ method: "GET", url: `/photos/${index}` })
+    );
+    await vi.waitFor(() => expect(send).toHaveBeenCalledTimes(2));
+    expect(client.concurrency()).toMatchObject({ inFlight: 2, queueLength: 3 });
+    while (send.mock.calls.length < 5 || pending.length > 0) {
+      await vi.waitFor(() => expect(pending.length).toBeGreaterThan(0));
+      pending.shift()?.();
+      await Promise.resolve();
+    }
+    await Promise.all(requests);
+
+    // Assert: never more than two attempts were in flight.
+    expect(peak).toBe(2);
+    expect(client.concurrency()?.inFlight).toBe(0);
+    client.dispose();
+  });
+});
@@ -0,0 +1,105 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { AxiosRequestConfig, AxiosResponse } from "axios";
+import { APIError, DeadlineExceededError } from "../../src/http/Errors.js";
+import { HttpClient } from "../../src/http/HttpClient.js";
+import { RateLimiter } from "../../src/http/RateLimiter.js";
+import { TransportError, TransportErrorCode } from "../../src/http/Transport.js";
+
+function ok(config: AxiosRequestConfig): AxiosResponse {
+  return { status: 200, statusText: "OK", data: {}, headers: {}, config } as AxiosResponse;
+}
+
+/**
+ * Transport whose attempts never complete until their signal aborts.
+ */
+async function hang(config: AxiosRequestConfig): Promise<AxiosResponse> {
+  return new Promise((_, reject) => {
+    config.signal?.addEventListener?.("abort", () => {
+      reject(new TransportError("canceled", TransportErrorCode.Canceled, config));
+    });
+  });
+}
+
+describe("request deadlines", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("counts rate-limiter queueing against the deadline", async () => {
+    // Arrange: one token per minute, already spent by the first call.
+    const send = vi.fn(async (config: AxiosRequestConfig) => ok(config));
+    const rateLimiter = new RateLimiter({ tokensPerInterval: 1, intervalMs: 60_000 });
+    const client = new HttpClient({ transport: { send }, rateLimiter });
+    await client.request({ method: "GET", url: "/projects" });
+
+    // Act: the second call would wait a minute for its token.
+    const pending = client.request({ method: "GET", url: "/tags", totalTimeoutMs: 1_000 });
+    const assertion = expect(pending).rejects.toBeInstanceOf(DeadlineExceededError);
+    await vi.advanceTimersByTimeAsync(1_000);
+
+    // Assert: it gave up in the queue without reaching the transport.
+    await assertion;
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(rateLimiter.snapshot().queueLength).toBe(0);
+    rateLimiter.dispose();
+  });
+
+  it("aborts the in-flight attempt when an absolute deadline passes", async () => {
+    const send = vi.fn(hang);
+    const client = new HttpClient({ transport: { send }, rateLimiter: null });
+
+    const pending = client.request({
+      method: "GET",
+      url: "/projects",
+      deadline: new Date(Date.now() + 2_000),
+    });
+    const failure = pending.catch((error: unknown) => error);
+    await vi.advanceTimersByTimeAsync(2_000);
+
+    const error = await failure;
+    expect(error).toBeInstanceOf(DeadlineExceededError);
+    expect((error as DeadlineExceededError).timeoutMs).toBe(2_000);
+    expect((error as { cause?: unknown }).cause).toBeInstanceOf(APIError);
+  });
+
+  it("fails without sleeping when the next backoff would outlast the deadline", async () => {
+    const send = vi.fn(async (config: AxiosRequestConfig): Promise<AxiosResponse> => {
+      throw new TransportError("unavailable", TransportErrorCode.BadResponse, config, {
+        ...ok(config),
+        status: 503,
+        headers: { "retry-after": "5" },
+      });
+    });
+    const client = new HttpClient({ transport: { send }, rateLimiter: null });
+
+    const error = await client
+      .request({ method: "PUT", url: "/projects/1", data: {}, totalTimeoutMs: 3_000 })
+      .catch((failure: unknown) => failure);
+
+    expect(error).toBeInstanceOf(DeadlineExceededError);
+    expect((error as { cause?: APIError }).cause?.status).toBe(503);
+    expect(send).toHaveBeenCalledTimes(1);
+  });
+
+  it("reports caller aborts as cancellations, not deadline failures", async () => {
+    const client = new HttpClient({ transport: { send: hang }, rateLimiter: null });
+    const controller = new AbortController();
+
+    const pending = client.request({
+      method: "GET",
+      url: "/projects",
+      signal: controller.signal,
+      totalTimeoutMs: 10_000,
+    });
+    const failure = pending.catch((error: unknown) => error);
+    controller.abort();
+
+    const error = await failure;
+    expect(error).not.toBeInstanceOf(DeadlineExceededError);
+    expect((error as { cause?: unknown }).cause).toMatchObject({ code: "ERR_CANCELED" });
+  });
+});
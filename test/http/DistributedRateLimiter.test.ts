@@ -0,0 +1,434 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import fengari from "fengari";
+import { mkdtemp, rm } from "node:fs/promises";
+import { createServer } from "node:net";
+import type { AddressInfo, Server } from "node:net";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { DistributedRateLimiter } from "../../src/http/DistributedRateLimiter.js";
+import { FileRateLimiterStore } from "../../src/http/FileRateLimiterStore.js";
+import type { AbortSignalLike } from "../../src/http/RateLimiter.js";
+import { MemoryRateLimiterStore, takeToken } from "../../src/http/RateLimiterStore.js";
+import type { TokenBucketState, TokenTakeResult } from "../../src/http/RateLimiterStore.js";
+import { RedisRateLimiterStore } from "../../src/http/RedisRateLimiterStore.js";
+
+const { lauxlib, lua, lualib, to_luastring } = fengari;
+
+/**
+ * Each store is exercised through DistributedRateLimiter. The Redis store talks to a tiny
+ * in-test server that speaks just enough RESP to stand in for Redis, and runs the store's `EVAL`
+ * scripts in a real Lua interpreter with Redis's `redis.call` and `cjson.decode`.
+ */
+
+type RedisReply = string | number | null | { ok: string } | RedisReply[];
+
+/**
+ * Run a script the way Redis does: `KEYS`, `ARGV`, `redis.call`, and `cjson.decode` as globals,
+ * and values converted between Lua and Redis by Redis's rules (numbers replied as truncated
+ * integers, `false` as nil, tables as arrays up to the first nil). fengari implements Lua 5.3;
+ * Redis embeds 5.1, where every number is a double, so fengari is the stricter of the two
+ * about formatting non-integral numbers with `%d`.
+ */
+function runScript(
+  script: string,
+  keys: string[],
+  argv: string[],
+  call: (args: string[]) => RedisReply
+): RedisReply {
+  const L = lauxlib.luaL_newstate();
+  lualib.luaL_openlibs(L);
+  pushReply(L, keys);
+  lua.lua_setglobal(L, to_luastring("KEYS"));
+  pushReply(L, argv);
+  lua.lua_setglobal(L, to_luastring("ARGV"));
+
+  lua.lua_createtable(L, 0, 1);
+  lua.lua_pushjsfunction(L, (state: unknown) => {
+    const args: string[] = [];
+    for (let index = 1; index <= lua.lua_gettop(state); index += 1) {
+      args.push(lua.lua_tojsstring(state, index));
+    }
+    let reply: RedisReply;
+    try {
+      reply = call(args);
+    } catch (error) {
+      return lauxlib.luaL_error(state, to_luastring((error as Error).message));
+    }
+    pushReply(state, reply);
+    return 1;
+  });
+  lua.lua_setfield(L, -2, to_luastring("call"));
+  lua.lua_setglobal(L, to_luastring("redis"));
+
+  lua.lua_createtable(L, 0, 1);
+  lua.lua_pushjsfunction(L, (state: unknown) => {
+    pushJson(state, JSON.parse(lua.lua_tojsstring(state, 1)));
+    return 1;
+  });
+  lua.lua_setfield(L, -2, to_luastring("decode"));
+  lua.lua_setglobal(L, to_luastring("cjson"));
+
+  if (
+    lauxlib.luaL_loadstring(L, to_luastring(script)) !== lua.LUA_OK ||
+    lua.lua_pcall(L, 0, 1, 0) !== lua.LUA_OK
+  ) {
+    throw new Error(lua.lua_tojsstring(L, -1));
+  }
+  return readReply(L, lua.lua_gettop(L));
+}
+
+function pushReply(L: unknown, reply: RedisReply): void {
+  if (reply === null) {
+    lua.lua_pushboolean(L, false);
+  } else if (typeof reply === "number") {
+    lua.lua_pushnumber(L, reply);
+  } else if (typeof reply === "string") {
+    lua.lua_pushstring(L, to_luastring(reply));
+  } else if (Array.isArray(reply)) {
+    lua.lua_createtable(L, reply.length, 0);
+    reply.forEach((item, index) => {
+      pushReply(L, item);
+      lua.lua_rawseti(L, -2, index + 1);
+    });
+  } else {
+    lua.lua_createtable(L, 0, 1);
+    lua.lua_pushstring(L, to_luastring(reply.ok));
+    lua.lua_setfield(L, -2, to_luastring("ok"));
+  }
+}
+
+function pushJson(L: unknown, value: unknown): void {
+  if (value === null || typeof value !== "object") {
+    if (typeof value === "boolean") {
+      lua.lua_pushboolean(L, value);
+    } else if (typeof value === "number") {
+      lua.lua_pushnumber(L, value);
+    } else if (typeof value === "string") {
+      lua.lua_pushstring(L, to_luastring(value));
+    } else {
+      lua.lua_pushnil(L);
+    }
+    return;
+  }
+  const entries = Array.isArray(value)
+    ? value.map((item, index) => [index + 1, item] as const)
+    : Object.entries(value);
+  lua.lua_createtable(L, 0, entries.length);
+  for (const [key, item] of entries) {
+    pushJson(L, item);
+    if (typeof key === "number") {
+      lua.lua_rawseti(L, -2, key);
+    } else {
+      lua.lua_setfield(L, -2, to_luastring(key));
+    }
+  }
+}
+
+function readReply(L: unknown, index: number): RedisReply {
+  switch (lua.lua_type(L, index)) {
+    case lua.LUA_TNUMBER:
+      return Math.trunc(lua.lua_tonumber(L, index));
+    case lua.LUA_TSTRING:
+      return lua.lua_tojsstring(L, index);
+    case lua.LUA_TBOOLEAN:
+      return lua.lua_toboolean(L, index) ? 1 : null;
+    case lua.LUA_TTABLE: {
+      if (lua.lua_getfield(L, index, to_luastring("ok")) === lua.LUA_TSTRING) {
+        const ok = lua.lua_tojsstring(L, -1);
+        lua.lua_pop(L, 1);
+        return { ok };
+      }
+      lua.lua_pop(L, 1);
+      const items: RedisReply[] = [];
+      for (let position = 1; lua.lua_rawgeti(L, index, position) !== lua.LUA_TNIL; position += 1) {
+        items.push(readReply(L, lua.lua_gettop(L)));
+        lua.lua_pop(L, 1);
+      }
+      lua.lua_pop(L, 1);
+      return items;
+    }
+    default:
+      return null;
+  }
+}
+
+function encodeReply(reply: RedisReply): string {
+  if (reply === null) {
+    return "$-1\r\n";
+  }
+  if (typeof reply === "number") {
+    return `:${reply}\r\n`;
+  }
+  if (typeof reply === "string") {
+    return `$${Buffer.byteLength(reply)}\r\n${reply}\r\n`;
+  }
+  if (Array.isArray(reply)) {
+    return `*${reply.length}\r\n${reply.map(encodeReply).join("")}`;
+  }
+  return `+${reply.ok}\r\n`;
+}
+
+interface RedisStandIn {
+  server: Server;
+  port: number;
+  /** Commands received over the connection. */
+  commands: string[][];
+  /** Commands issued by scripts through `redis.call`. */
+  scripted: string[][];
+  values: Map<string, { value: string; expiresAt?: number }>;
+}
+
+function startRedisStandIn(): Promise<RedisStandIn> {
+  const values = new Map<string, { value: string; expiresAt?: number }>();
+  const commands: string[][] = [];
+  const scripted: string[][] = [];
+
+  const read = (key: string) => {
+    const entry = values.get(key);
+    if (entry?.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+      values.delete(key);
+      return undefined;
+    }
+    return entry?.value;
+  };
+
+  const execute = (args: string[]): RedisReply => {
+    const [name, key = "", value = ""] = args;
+    switch (name?.toUpperCase()) {
+      case "GET":
+        return read(key) ?? null;
+      case "SET": {
+        const options = args.slice(3).map((option) => option.toUpperCase());
+        if (options.includes("NX") && read(key) !== undefined) {
+          return null;
+        }
+        const px = options.indexOf("PX");
+        const ttl = px >= 0 ? Number(args[3 + px + 1]) : undefined;
+        if (ttl !== undefined && !(Number.isInteger(ttl) && ttl > 0)) {
+          throw new Error("ERR invalid expire time in 'set' command");
+        }
+        values.set(key, { value, expiresAt: ttl === undefined ? undefined : Date.now() + ttl });
+        return { ok: "OK" };
+      }
+      case "DEL":
+        return values.delete(key) ? 1 : 0;
+      case "TIME": {
+        const now = Date.now();
+        return [String(Math.floor(now / 1000)), String((now % 1000) * 1000)];
+      }
+      case "EVAL": {
+        const [, script = "", keyCount = "0", ...rest] = args;
+        const count = Number(keyCount);
+        return runScript(script, rest.slice(0, count), rest.slice(count), (call) => {
+          scripted.push(call);
+          return execute(call);
+        });
+      }
+      default:
+        throw new Error(`ERR unknown command '${name}'`);
+    }
+  };
+
+  const server = createServer((socket) => {
+    let buffer = "";
+    socket.on("data", (chunk) => {
+      buffer += chunk.toString("utf8");
+      // Commands arrive as RESP arrays of bulk strings: *N\r\n($len\r\nvalue\r\n)*N
+      for (;;) {
+        const match = /^\*(\d+)\r\n/.exec(buffer);
+        if (!match) {
+          return;
+        }
+        let cursor = match[0].length;
+        const args: string[] = [];
+        for (let index = 0; index < Number(match[1]); index += 1) {
+          const header = /^\$(\d+)\r\n/.exec(buffer.slice(cursor));
+          if (!header || buffer.length < cursor + header[0].length + Number(header[1]) + 2) {
+            return;
+          }
+          cursor += header[0].length;
+          args.push(buffer.slice(cursor, cursor + Number(header[1])));
+          cursor += Number(header[1]) + 2;
+        }
+        buffer = buffer.slice(cursor);
+        commands.push(args);
+        try {
+          socket.write(encodeReply(execute(args)));
+        } catch (error) {
+          socket.write(`-${(error as Error).message.replace(/\r?\n/g, " ")}\r\n`);
+        }
+      }
+    });
+  });
+
+  return new Promise((resolve) => {
+    server.listen(0, "127.0.0.1", () =>
+      resolve({
+        server,
+        port: (server.address() as AddressInfo).port,
+        commands,
+        scripted,
+        values,
+      })
+    );
+  });
+}
+
+describe("DistributedRateLimiter", () => {
+  const cleanups: Array<() => Promise<void> | void> = [];
+
+  afterEach(async () => {
+    while (cleanups.length > 0) {
+      await cleanups.pop()?.();
+    }
+  });
+
+  it("refills the shared bucket according to elapsed time", () => {
+    const bucket = { capacity: 2, refillMs: 100 };
+    const first = takeToken(undefined, bucket, 0);
+    const second = takeToken(first.state, bucket, 0);
+    const third = takeToken(second.state, bucket, 50);
+    const fourth = takeToken(third.state, bucket, 100);
+
+    expect([first, second, third, fourth].map(({ result }) => result)).toEqual([
+      { granted: true, waitMs: 0 },
+      { granted: true, waitMs: 0 },
+      { granted: false, waitMs: 50 },
+      { granted: true, waitMs: 0 },
+    ]);
+  });
+
+  it("shares one quota between limiters using the same store", async () => {
+    // Arrange: two "processes" with a two-token bucket refilling every 50ms.
+    const store = new MemoryRateLimiterStore();
+    const options = { store, tokensPerInterval: 2, intervalMs: 100 };
+    const workerA = new DistributedRateLimiter(options);
+    const workerB = new DistributedRateLimiter(options);
+
+    // Act
+    const startedAt = Date.now();
+    await workerA.acquire();
+    await workerB.acquire();
+    await workerA.acquire();
+
+    // Assert: the third token had to wait for a refill.
+    expect(Date.now() - startedAt).toBeGreaterThanOrEqual(40);
+  });
+
+  it("honours abort signals and disposal while waiting", async () => {
+    // Arrange: an exhausted bucket that refills very slowly.
+    const limiter = new DistributedRateLimiter({
+      store: new MemoryRateLimiterStore(),
+      tokensPerInterval: 1,
+      intervalMs: 60_000,
+    });
+    await limiter.acquire();
+    const controller = new AbortController();
+
+    // Act
+    const aborted = limiter
+      .acquire(controller.signal as unknown as AbortSignalLike)
+      .catch((err: unknown) => err);
+    const disposed = limiter.acquire().catch((err: unknown) => err);
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    controller.abort();
+    limiter.dispose();
+
+    // Assert
+    expect(await aborted).toMatchObject({ name: "AbortError" });
+    expect(await disposed).toMatchObject({ message: "Rate limiter disposed" });
+  });
+
+  it("coordinates through a lock file", async () => {
+    // Arrange
+    const directory = await mkdtemp(join(tmpdir(), "companycam-limiter-"));
+    cleanups.push(() => rm(directory, { recursive: true, force: true }));
+    const path = join(directory, "bucket.json");
+    const limiters = [0, 1, 2].map(
+      () =>
+        new DistributedRateLimiter({
+          store: new FileRateLimiterStore({ path }),
+          tokensPerInterval: 3,
+          intervalMs: 60_000,
+        })
+    );
+
+    // Act: three concurrent acquisitions drain the bucket; a fourth cannot get a token.
+    await Promise.all(limiters.map((limiter) => limiter.acquire()));
+    const result = await new FileRateLimiterStore({ path }).take("default", {
+      capacity: 3,
+      refillMs: 20_000,
+    });
+
+    // Assert
+    expect(result.granted).toBe(false);
+    expect(result.waitMs).toBeGreaterThan(19_000);
+  });
+
+  it("speaks the Redis protocol to a compatible server", async () => {
+    // Arrange
+    const { server, port, commands, scripted } = await startRedisStandIn();
+    cleanups.push(() => new Promise<void>((resolve) => server.close(() => resolve())));
+    const store = new RedisRateLimiterStore({ port, keyPrefix: "test:" });
+    cleanups.push(() => store.dispose());
+    const workers = [0, 1].map(
+      () => new DistributedRateLimiter({ store, key: "acct", tokensPerInterval: 2, intervalMs: 60_000 })
+    );
+
+    // Act: both workers take a token, leaving the shared bucket empty.
+    await Promise.all(workers.map((worker) => worker.acquire()));
+    const result = await store.take("acct", { capacity: 2, refillMs: 30_000 });
+
+    // Assert: every take was one atomic script call timed by the server, with no locks.
+    expect(result).toEqual({ granted: false, waitMs: expect.any(Number) });
+    expect(commands).toHaveLength(3);
+    for (const [name, , keyCount, key] of commands) {
+      expect([name, keyCount, key]).toEqual(["EVAL", "1", "test:acct"]);
+    }
+    expect(scripted.slice(0, 3)).toEqual([
+      ["TIME"],
+      ["GET", "test:acct"],
+      ["SET", "test:acct", expect.any(String), "PX", "60000"],
+    ]);
+  });
+
+  it("runs the Redis script with fractional refill rates on the server clock", async () => {
+    // Arrange: three tokens per second, i.e. one every 333.33 ms, on a controllable clock.
+    vi.useFakeTimers({ toFake: ["Date"] });
+    cleanups.push(() => vi.useRealTimers());
+    const startedAt = 1_700_000_000_123;
+    vi.setSystemTime(startedAt);
+    const { server, port, values } = await startRedisStandIn();
+    cleanups.push(() => new Promise<void>((resolve) => server.close(() => resolve())));
+    const store = new RedisRateLimiterStore({ port, keyPrefix: "test:" });
+    cleanups.push(() => store.dispose());
+    const bucket = { capacity: 3, refillMs: 1000 / 3 };
+
+    // Act: drain the bucket, then take at uneven offsets, mirroring each take in takeToken.
+    let expected: ReturnType<typeof takeToken> | undefined;
+    const results: TokenTakeResult[] = [];
+    const expectedResults: TokenTakeResult[] = [];
+    for (const offsetMs of [0, 0, 0, 0, 100, 250, 251, 500, 2_750]) {
+      vi.setSystemTime(startedAt + offsetMs);
+      results.push(await store.take("frac", bucket));
+      expected = takeToken(expected?.state, bucket, startedAt + offsetMs);
+      expectedResults.push(expected.result);
+    }
+
+    // Assert: the script agrees with takeToken, replies whole milliseconds, and keeps its state.
+    expect(results).toEqual(expectedResults);
+    expect(results.slice(3, 6)).toEqual([
+      { granted: false, waitMs: 334 },
+      { granted: false, waitMs: 234 },
+      { granted: false, waitMs: 84 },
+    ]);
+    for (const { waitMs } of results) {
+      expect(Number.isInteger(waitMs)).toBe(true);
+    }
+    const stored = values.get("test:frac");
+    const state = JSON.parse(stored!.value) as TokenBucketState;
+    expect(state.updatedAt).toBe(startedAt + 2_750);
+    expect(state.tokens).toBeCloseTo(expected!.state.tokens, 12);
+    expect(stored!.expiresAt).toBe(startedAt + 2_750 + 1_000);
+  });
+});
@@ -1,6 +1,32 @@
 import { describe, expect, it } from 'vitest';
 import type { AxiosError } from 'axios';
-import { APIError } from '../../src/http/Errors.js';
+import {
+  APIError,
+  AuthenticationError,
+  NetworkError,
+  NotFoundError,
+  PermissionError,
+  RateLimitError,
+  ServerError,
+  TimeoutError,
+  ValidationError,
+} from '../../src/http/Errors.js';
+
+function axiosFailure(
+  status?: number,
+  headers: Record<string, string> = {},
+  code?: string
+): AxiosError {
+  return {
+    isAxiosError: true,
+    message: status ? `Request failed with status code ${status}` : 'socket hang up',
+    code,
+    response: status ? { status, statusText: '', data: {}, headers } : undefined,
+    config: { method: 'get', url: '/projects' },
+    toJSON: () => ({}),
+    name: 'AxiosError',
+  } as unknown as AxiosError;
+}
 
 /**
  * The API error helper exposes a constructor plus a static factory that unwraps
@@ -71,4 +97,104 @@ describe('APIError', () => {
     expect(apiError.method).toBe('POST');
     expect(apiError.url).toBe('/projects');
   });
+
+  it('maps well-known failures to APIError subclasses', () => {
+    // Arrange: one failure per mapped status or transport error code.
+    const cases: Array<[AxiosError, typeof APIError, string]> = [
+      [axiosFailure(400), ValidationError, 'ValidationError'],
+      [axiosFailure(401), AuthenticationError, 'AuthenticationError'],
+      [axiosFailure(403), PermissionError, 'PermissionError'],
+      [axiosFailure(404), NotFoundError, 'NotFoundError'],
+      [axiosFailure(422), ValidationError, 'ValidationError'],
+      [axiosFailure(429), RateLimitError, 'RateLimitError'],
+      [axiosFailure(503), ServerError, 'ServerError'],
+      [axiosFailure(undefined, {}, 'ECONNABORTED'), TimeoutError, 'TimeoutError'],
+      [axiosFailure(undefined, {}, 'ERR_NETWORK'), NetworkError, 'NetworkError'],
+    ];
+
+    for (const [failure, type, name] of cases) {
+      // Act
+      const error = APIError.fromAxios(failure);
+
+      // Assert: the subclass is still an APIError with the usual metadata.
+      expect(error).toBeInstanceOf(type);
+      expect(error).toBeInstanceOf(APIError);
+      expect(error).toBeInstanceOf(Error);
+      expect(error.name).toBe(name);
+      expect(error.url).toBe('/projects');
+    }
+  });
+
+  it('keeps generic APIErrors for unmapped statuses and cancellations', () => {
+    const conflict = APIError.fromAxios(axiosFailure(409));
+    const canceled = APIError.fromAxios(axiosFailure(undefined, {}, 'ERR_CANCELED'));
+
+    expect(conflict.constructor).toBe(APIError);
+    expect(conflict.status).toBe(409);
+    expect(canceled.constructor).toBe(APIError);
+  });
+
+  it('parses Retry-After into retryAfterMs on rate limit errors', () => {
+    const seconds = APIError.fromAxios(axiosFailure(429, { 'retry-after': '7' }));
+    const missing = APIError.fromAxios(axiosFailure(429));
+
+    expect((seconds as RateLimitError).retryAfterMs).toBe(7000);
+    expect((missing as RateLimitError).retryAfterMs).toBeUndefined();
+  });
+
+  it('classifies retryability with the client retry rules', () => {
+    const get503 = APIError.fromAxios(axiosFailure(503, { 'retry-after': '2' }));
+    const get404 = APIError.fromAxios(axiosFailure(404));
+    const network = APIError.fromAxios(axiosFailure(undefined, {}, 'ECONNRESET'));
+    const timeout = APIError.fromAxios(axiosFailure(undefined, {}, 'ECONNABORTED'));
+    const post = new APIError('Unavailable', { status: 503, method: 'POST' });
+    const keyedPost = new APIError('Unavailable', {
+      status: 503,
+      method: 'POST',
+      idempotencyKey: 'k-1',
+    });
+
+    expect(get503.isRetryable).toBe(true);
+    expect(get503.retryAfterMs).toBe(2000);
+    expect(get404.isRetryable).toBe(false);
+    expect(network.isRetryable).toBe(true);
+    expect(timeout.isRetryable).toBe(true);
+    expect(post.isRetryable).toBe(false);
+    expect(keyedPost.isRetryable).toBe(true);
+  });
+
+  it('serializes without credentials or circular transport state', () => {
+    // Arrange: a cause that references itself and carries the bearer token, as axios errors do.
+    const cause = Object.assign(new Error('Request failed'), {
+      code: 'ERR_BAD_REQUEST',
+      config: { headers: { Authorization: 'Bearer secret' } },
+    });
+    (cause as unknown as { self: unknown }).self = cause;
+    const error = new NotFoundError('Project not found', {
+      status: 404,
+      method: 'GET',
+      url: '/projects/1',
+      requestId: 'req-1',
+      headers: { 'set-cookie': 'session=abc', 'x-request-id': 'req-1' },
+      problem: { errors: ['Project not found'], token: 'hook-secret' },
+      cause,
+    });
+
+    // Act
+    const json = JSON.stringify(error);
+
+    // Assert: secrets are redacted and the cause is summarized.
+    expect(json).not.toContain('secret');
+    expect(json).not.toContain('session=abc');
+    expect(JSON.parse(json)).toMatchObject({
+      name: 'NotFoundError',
+      status: 404,
+      isRetryable: false,
+      cause: { name: 'Error', message: 'Request failed', code: 'ERR_BAD_REQUEST' },
+    });
+    expect(Object.keys(error)).not.toContain('cause');
+    expect(String(error)).toBe(
+      'NotFoundError: Project not found (404 GET /projects/1, request req-1)'
+    );
+  });
 });
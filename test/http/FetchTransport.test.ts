@@ -0,0 +1,147 @@
+import { describe, expect, it, vi } from "vitest";
+import { FetchTransport } from "../../src/http/FetchTransport.js";
+import { HttpClient } from "../../src/http/HttpClient.js";
+import { APIError } from "../../src/http/Errors.js";
+import { TransportError } from "../../src/http/Transport.js";
+
+/**
+ * The fetch transport must behave like the axios one from the HttpClient's point of view.
+ * A stubbed fetch implementation lets us inspect the outgoing request and script responses.
+ */
+
+function jsonResponse(body: unknown, init: ResponseInit = {}): Response {
+  return new Response(JSON.stringify(body), {
+    status: 200,
+    ...init,
+    headers: { "content-type": "application/json", ...(init.headers ?? {}) },
+  });
+}
+
+describe("FetchTransport", () => {
+  it("builds URLs, serializes bodies, and parses JSON like axios", async () => {
+    // Arrange: capture the request handed to fetch.
+    const fetchMock = vi.fn(async (_url: string, _init?: RequestInit) =>
+      jsonResponse({ id: "p-1" }, { status: 201, headers: { "X-Request-Id": "req-1" } })
+    );
+    const transport = new FetchTransport({ fetch: fetchMock as unknown as typeof fetch });
+
+    // Act: send a JSON POST with array and scalar query parameters.
+    const response = await transport.send({
+      baseURL: "https://api.companycam.com/v2/",
+      url: "/projects",
+      method: "post",
+      params: { query: "roof repair", user_ids: [1, 2], skip: undefined },
+      headers: { Authorization: "Bearer token" },
+      data: { name: "Garage" },
+    });
+
+    // Assert: the request matches axios' conventions and the response is axios-shaped.
+    const [url, init] = fetchMock.mock.calls[0]!;
+    expect(url).toBe(
+      "https://api.companycam.com/v2/projects?query=roof+repair&user_ids[]=1&user_ids[]=2"
+    );
+    expect(init?.method).toBe("POST");
+    expect(init?.body).toBe(JSON.stringify({ name: "Garage" }));
+    const headers = init?.headers as Headers;
+    expect(headers.get("authorization")).toBe("Bearer token");
+    expect(headers.get("content-type")).toBe("application/json");
+    expect(response).toMatchObject({
+      status: 201,
+      data: { id: "p-1" },
+      headers: { "x-request-id": "req-1" },
+    });
+  });
+
+  it("rejects non-2xx responses with errors APIError.fromAxios understands", async () => {
+    // Arrange: the API answers with the spec-defined problem document.
+    const fetchMock = vi.fn(async () =>
+      jsonResponse(
+        { errors: ["Name is required"] },
+        { status: 422, statusText: "Unprocessable Entity", headers: { "x-request-id": "req-9" } }
+      )
+    );
+    const transport = new FetchTransport({ fetch: fetchMock as unknown as typeof fetch });
+
+    // Act: capture the transport error.
+    const error = await transport
+      .send({ url: "https://example.com/projects", method: "post" })
+      .catch((err: unknown) => err);
+
+    // Assert: the error is axios-compatible and maps to the same APIError metadata.
+    expect(error).toBeInstanceOf(TransportError);
+    expect(error).toMatchObject({ isAxiosError: true, code: "ERR_BAD_REQUEST" });
+    const apiError = APIError.fromAxios(error as TransportError as never);
+    expect(apiError).toMatchObject({
+      message: "Name is required",
+      status: 422,
+      requestId: "req-9",
+      method: "POST",
+      url: "https://example.com/projects",
+    });
+  });
+
+  it("classifies timeouts, cancellations, and network failures with axios codes", async () => {
+    // Arrange: fetch never settles on its own but honours the abort signal.
+    const hangingFetch = vi.fn(
+      (_url: string, init?: RequestInit) =>
+        new Promise<Response>((_resolve, reject) => {
+          init?.signal?.addEventListener("abort", () =>
+            reject(new DOMException("aborted", "AbortError"))
+          );
+        })
+    );
+    const transport = new FetchTransport({ fetch: hangingFetch as unknown as typeof fetch });
+    const controller = new AbortController();
+
+    // Act: trigger a timeout, a caller abort, and a low-level network failure.
+    const timeout = transport
+      .send({ url: "https://example.com", timeout: 5 })
+      .catch((err: unknown) => err);
+    const canceled = transport
+      .send({ url: "https://example.com", signal: controller.signal })
+      .catch((err: unknown) => err);
+    controller.abort();
+    const network = await new FetchTransport({
+      fetch: (async () => {
+        throw new TypeError("fetch failed");
+      }) as unknown as typeof fetch,
+    })
+      .send({ url: "https://example.com" })
+      .catch((err: unknown) => err);
+
+    // Assert: each failure mirrors the code axios would have produced.
+    expect(await timeout).toMatchObject({
+      code: "ECONNABORTED",
+      message: "timeout of 5ms exceeded",
+    });
+    expect(await canceled).toMatchObject({ code: "ERR_CANCELED", name: "CanceledError" });
+    expect(network).toMatchObject({ code: "ERR_NETWORK", message: "Network Error" });
+  });
+
+  it("plugs into HttpClient with the shared retry and Retry-After handling", async () => {
+    // Arrange: the first attempt is throttled, the second succeeds.
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(jsonResponse({ errors: ["Slow down"] }, { status: 429, headers: { "retry-after": "0" } }))
+      .mockResolvedValueOnce(jsonResponse([{ id: "t-1" }]));
+    const onRetry = vi.fn();
+    const client = new HttpClient({
+      baseURL: "https://api.companycam.com/v2",
+      authToken: "token",
+      rateLimiter: null,
+      retry: { onRetry },
+      transport: new FetchTransport({ fetch: fetchMock as unknown as typeof fetch }),
+    });
+
+    // Act: issue a GET through the full client stack.
+    const response = await client.request({ method: "GET", url: "/tags" });
+
+    // Assert: the throttled attempt was retried once with the same prepared request.
+    expect(response.data).toEqual([{ id: "t-1" }]);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(onRetry).toHaveBeenCalledTimes(1);
+    expect(onRetry.mock.calls[0]?.[0]).toBe(1);
+    expect(fetchMock.mock.calls[1]?.[0]).toBe("https://api.companycam.com/v2/tags");
+    expect((fetchMock.mock.calls[1]?.[1] as RequestInit).headers).toBeInstanceOf(Headers);
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+import type { AxiosError } from "axios";
+import { APIError } from "../../src/http/Errors.js";
+import { parseFieldErrors } from "../../src/http/FieldErrors.js";
+
+describe("parseFieldErrors", () => {
+  it("maps messages to wrapped payload fields", () => {
+    // Arrange: createUser wraps its payload in `{ user: ... }`.
+    const messages = [
+      "Email address has already been taken",
+      "First name can't be blank",
+      "Seats are exhausted for this plan",
+    ];
+
+    // Act
+    const fieldErrors = parseFieldErrors(messages, "createUser");
+
+    // Assert: paths are relative to the unwrapped payload; unknown messages go to `base`.
+    expect(fieldErrors).toEqual({
+      email_address: ["Email address has already been taken"],
+      first_name: ["First name can't be blank"],
+      base: ["Seats are exhausted for this plan"],
+    });
+  });
+
+  it("maps nested fields by full path or by their own name", () => {
+    const fieldErrors = parseFieldErrors(
+      [
+        "Primary contact email is invalid",
+        "Primary_contact.phone_number is too long",
+        "Postal code is invalid",
+        "Name can't be blank",
+      ],
+      "createProject"
+    );
+
+    expect(fieldErrors).toEqual({
+      "primary_contact.email": ["Primary contact email is invalid"],
+      "primary_contact.phone_number": ["Primary_contact.phone_number is too long"],
+      "address.postal_code": ["Postal code is invalid"],
+      name: ["Name can't be blank"],
+    });
+  });
+
+  it("puts every message under base when the operation is unknown", () => {
+    expect(parseFieldErrors(["Name can't be blank"])).toEqual({
+      base: ["Name can't be blank"],
+    });
+  });
+
+  it("is exposed on API errors for failed requests", () => {
+    const error = APIError.fromAxios({
+      isAxiosError: true,
+      message: "Request failed with status code 422",
+      response: {
+        status: 422,
+        statusText: "Unprocessable Entity",
+        data: { errors: ["Email address has already been taken"] },
+        headers: {},
+      },
+      config: { method: "post", url: "/users" },
+      toJSON: () => ({}),
+      name: "AxiosError",
+    } as unknown as AxiosError);
+
+    expect(error.fieldErrors).toEqual({
+      email_address: ["Email address has already been taken"],
+    });
+    expect(error.toJSON()).toMatchObject({ fieldErrors: error.fieldErrors });
+  });
+});
@@ -344,4 +344,168 @@ describe("HttpClient", () => {
 
     mathRandomSpy.mockRestore();
   });
+
+  it("runs middleware in order with access to SDK options and the final response", async () => {
+    // Arrange: register one middleware via config and one via use() to confirm ordering.
+    const acquire = vi.fn(() => Promise.resolve());
+    const limiter = { acquire, dispose: vi.fn() } as unknown as RateLimiter;
+    const response = {
+      status: 200,
+      data: { id: "1" },
+      headers: {},
+      statusText: "OK",
+    } as unknown as AxiosResponse;
+    axiosRequest.mockResolvedValue(response);
+
+    const events: string[] = [];
+    const client = new HttpClient({
+      rateLimiter: limiter,
+      middleware: [
+        async (ctx, next) => {
+          events.push(`outer:${ctx.options.authToken}`);
+          ctx.options = { ...ctx.options, authToken: "from-middleware" };
+          const result = await next();
+          events.push(`outer:${ctx.response?.status}`);
+          return result;
+        },
+      ],
+    });
+    client.use(async (ctx, next) => {
+      events.push(`inner:${ctx.options.authToken}`);
+      ctx.options.useRateLimiter = false;
+      return next();
+    });
+
+    // Act: issue a request with its own auth token override.
+    const result = await client.request({
+      method: "get",
+      url: "/projects",
+      authToken: "caller-token",
+    });
+
+    // Assert: middleware saw and rewrote the SDK options before the limiter and axios ran.
+    expect(result).toBe(response);
+    expect(events).toEqual([
+      "outer:caller-token",
+      "inner:from-middleware",
+      "outer:200",
+    ]);
+    expect(acquire).not.toHaveBeenCalled();
+    const [config] = axiosRequest.mock.calls[0];
+    expect((config as any)?.headers.Authorization).toBe("Bearer from-middleware");
+  });
+
+  it("lets middleware short-circuit requests and observe APIError failures", async () => {
+    // Arrange: a caching middleware answers GETs itself while a logger captures errors.
+    const acquire = vi.fn(() => Promise.resolve());
+    const limiter = { acquire, dispose: vi.fn() } as unknown as RateLimiter;
+    const cached = { status: 200, data: "cached" } as unknown as AxiosResponse;
+    const seenErrors: unknown[] = [];
+    const client = new HttpClient({ rateLimiter: limiter, retry: { retries: 0 } });
+    client
+      .use(async (ctx, next) => {
+        try {
+          return await next();
+        } finally {
+          if (ctx.error) {
+            seenErrors.push(ctx.error);
+          }
+        }
+      })
+      .use(async (ctx, next) =>
+        ctx.options.method === "get" ? cached : next()
+      );
+
+    axiosRequest.mockRejectedValue({
+      isAxiosError: true,
+      message: "Request failed",
+      response: { status: 404, statusText: "Not Found", data: {}, headers: {} },
+      config: { method: "delete", url: "/projects/1" },
+    });
+    isAxiosErrorMock.mockImplementation((error: unknown) =>
+      Boolean((error as { isAxiosError?: boolean })?.isAxiosError)
+    );
+
+    // Act: the GET never reaches the limiter or axios; the DELETE fails downstream.
+    await expect(client.request({ method: "get", url: "/projects/1" })).resolves.toBe(cached);
+    await expect(
+      client.request({ method: "delete", url: "/projects/1" })
+    ).rejects.toBeInstanceOf(APIError);
+
+    // Assert: only the DELETE consumed a token and its APIError was visible to middleware.
+    expect(acquire).toHaveBeenCalledTimes(1);
+    expect(seenErrors).toHaveLength(1);
+    expect(seenErrors[0]).toBeInstanceOf(APIError);
+    expect((seenErrors[0] as APIError).status).toBe(404);
+  });
+
+  it("emits redacted structured log events for requests, retries, and failures", async () => {
+    // Arrange: fail once with a retryable 503, then succeed; log everything.
+    const events: Array<{ level: string; event: Record<string, unknown> }> = [];
+    const record = (level: string) => (event: Record<string, unknown>) =>
+      events.push({ level, event });
+    const logger = {
+      debug: vi.fn(record("debug")),
+      info: vi.fn(record("info")),
+      warn: vi.fn(record("warn")),
+      error: vi.fn(record("error")),
+    };
+    axiosRequest
+      .mockRejectedValueOnce({
+        isAxiosError: true,
+        message: "Service Unavailable",
+        code: "ERR_BAD_RESPONSE",
+        response: { status: 503, headers: { "retry-after": "0" } },
+        config: { method: "put", url: "/webhooks/1" },
+      })
+      .mockResolvedValueOnce({
+        status: 200,
+        data: {},
+        headers: { "x-request-id": "req-ok" },
+        statusText: "OK",
+      } as unknown as AxiosResponse);
+
+    const client = new HttpClient({ authToken: "secret-token", rateLimiter: null, logger });
+
+    // Act: update a webhook, whose payload carries a verification token.
+    await client.request({
+      method: "put",
+      url: "/webhooks/1",
+      data: { url: "https://example.com/hook", token: "webhook-secret" },
+    });
+
+    // Assert: start, retry, and response events were emitted with secrets removed.
+    expect(events.map(({ level, event }) => `${level}:${event.event}`)).toEqual([
+      "debug:request.start",
+      "warn:request.retry",
+      "info:request.response",
+    ]);
+    const [start, retry, done] = events.map(({ event }) => event);
+    expect(start).toMatchObject({
+      method: "PUT",
+      url: "/webhooks/1",
+      headers: { Authorization: "[REDACTED]" },
+      body: { url: "https://example.com/hook", token: "[REDACTED]" },
+    });
+    expect(JSON.stringify(events)).not.toContain("secret");
+    expect(retry).toMatchObject({ status: 503, retryCount: 1, delayMs: 0 });
+    expect(done).toMatchObject({ status: 200, requestId: "req-ok" });
+    expect(done.durationMs).toEqual(expect.any(Number));
+
+    // Act: a non-retryable failure should surface as a single error event.
+    events.length = 0;
+    axiosRequest.mockRejectedValueOnce({
+      isAxiosError: true,
+      message: "Not Found",
+      response: { status: 404, statusText: "Not Found", headers: { "x-request-id": "req-404" } },
+      config: { method: "get", url: "/webhooks/2" },
+    });
+    await expect(client.request({ method: "get", url: "/webhooks/2" })).rejects.toBeInstanceOf(APIError);
+    expect(events.map(({ level, event }) => `${level}:${event.event}`)).toEqual([
+      "debug:request.start",
+      "error:request.error",
+    ]);
+    expect(events[1]?.event).toMatchObject({ status: 404, requestId: "req-404" });
+  });
 });
+
@@ -0,0 +1,115 @@
+import { describe, expect, it, vi } from "vitest";
+import type { AxiosRequestConfig, AxiosResponse } from "axios";
+import { APIError } from "../../src/http/Errors.js";
+import { HttpClient } from "../../src/http/HttpClient.js";
+import { extractIdempotencyKey } from "../../src/http/Idempotency.js";
+import { fixedBackoff } from "../../src/http/RetryPolicy.js";
+import { TransportError, TransportErrorCode } from "../../src/http/Transport.js";
+import { ProjectsResource } from "../../src/resources/Projects.js";
+import { withResponse } from "../../src/resources/response.js";
+
+function response(config: AxiosRequestConfig, status = 201): AxiosResponse {
+  return { status, statusText: "", data: { id: "p-1" }, headers: {}, config } as AxiosResponse;
+}
+
+function serverError(config: AxiosRequestConfig) {
+  return new TransportError(
+    "Request failed with status code 503",
+    TransportErrorCode.BadResponse,
+    config,
+    response(config, 503)
+  );
+}
+
+describe("automatic idempotency keys", () => {
+  it("retries creates with one generated key reused by every attempt", async () => {
+    // Arrange: fail the first attempt of the create.
+    const send = vi
+      .fn<(config: AxiosRequestConfig) => Promise<AxiosResponse>>()
+      .mockImplementationOnce(async (config) => {
+        throw serverError(config);
+      })
+      .mockImplementation(async (config) => response(config));
+    const http = new HttpClient({
+      transport: { send },
+      rateLimiter: null,
+      retry: { policy: fixedBackoff(0) },
+    });
+    const projects = withResponse(http, (client) => new ProjectsResource(client));
+
+    // Act: create a project without supplying a key.
+    const result = await projects.create({ name: "Kitchen remodel" });
+
+    // Assert: both attempts carried the same key, which the envelope exposes.
+    expect(send).toHaveBeenCalledTimes(2);
+    const keys = send.mock.calls.map(([config]) => extractIdempotencyKey(config.headers));
+    expect(keys[0]).toMatch(/^[0-9a-f-]{36}$/);
+    expect(keys[1]).toBe(keys[0]);
+    expect(result.idempotencyKey).toBe(keys[0]);
+  });
+
+  it("generates a new key per logical call and keeps caller-supplied keys", async () => {
+    const send = vi.fn(async (config: AxiosRequestConfig) => response(config));
+    const client = new HttpClient({ transport: { send }, rateLimiter: null });
+
+    await client.request({ method: "POST", url: "/tags", data: {} });
+    await client.request({ method: "POST", url: "/tags", data: {} });
+    await client.request({ method: "POST", url: "/tags", data: {}, idempotencyKey: "mine" });
+    await client.request({ method: "GET", url: "/tags" });
+
+    const keys = send.mock.calls.map(([config]) => extractIdempotencyKey(config.headers));
+    expect(keys[0]).not.toBe(keys[1]);
+    expect(keys[2]).toBe("mine");
+    expect(keys[3]).toBeUndefined();
+  });
+
+  it("reuses the generated key when middleware sends the request more than once", async () => {
+    // Arrange: a middleware with its own retry wrapper around a failing first send.
+    const send = vi
+      .fn<(config: AxiosRequestConfig) => Promise<AxiosResponse>>()
+      .mockImplementationOnce(async (config) => {
+        throw serverError(config);
+      })
+      .mockImplementation(async (config) => response(config));
+    const client = new HttpClient({
+      transport: { send },
+      rateLimiter: null,
+      retry: { retries: 0 },
+      middleware: [(_ctx, next) => next().catch(() => next())],
+    });
+
+    // Act
+    await client.request({ method: "POST", url: "/tags", data: {} });
+
+    // Assert: both sends belong to one logical create and carry one key.
+    expect(send).toHaveBeenCalledTimes(2);
+    const keys = send.mock.calls.map(([config]) => extractIdempotencyKey(config.headers));
+    expect(keys[0]).toMatch(/^[0-9a-f-]{36}$/);
+    expect(keys[1]).toBe(keys[0]);
+  });
+
+  it("exposes the key on errors and leaves POSTs unretried when disabled", async () => {
+    const send = vi.fn(async (config: AxiosRequestConfig): Promise<AxiosResponse> => {
+      throw serverError(config);
+    });
+    const client = new HttpClient({
+      transport: { send },
+      rateLimiter: null,
+      autoIdempotencyKeys: false,
+      retry: { policy: fixedBackoff(0) },
+    });
+
+    const failure = await client
+      .request({ method: "POST", url: "/tags", data: {} })
+      .catch((error: unknown) => error);
+    const keyed = await client
+      .request({ method: "POST", url: "/tags", data: {}, idempotencyKey: "replay-1" })
+      .catch((error: unknown) => error);
+
+    expect(failure).toBeInstanceOf(APIError);
+    expect((failure as APIError).idempotencyKey).toBeUndefined();
+    expect((keyed as APIError).idempotencyKey).toBe("replay-1");
+    // One attempt for the unkeyed POST, four for the keyed one.
+    expect(send).toHaveBeenCalledTimes(5);
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, expect, it, vi } from "vitest";
+import type { AxiosRequestConfig, AxiosResponse } from "axios";
+import { HttpClient } from "../../src/http/HttpClient.js";
+import {
+  InMemoryMetrics,
+  formatPrometheusMetrics,
+} from "../../src/http/Metrics.js";
+import { RateLimiter } from "../../src/http/RateLimiter.js";
+import { TransportError, TransportErrorCode } from "../../src/http/Transport.js";
+
+/**
+ * Metrics are exercised through the real client with a scripted transport, then rendered
+ * with the Prometheus helper.
+ */
+
+function response(status: number, headers: Record<string, string> = {}): AxiosResponse {
+  return { status, statusText: "", data: {}, headers, config: {} } as AxiosResponse;
+}
+
+describe("InMemoryMetrics", () => {
+  it("records request outcomes, retries, and 429s per operation", async () => {
+    // Arrange: throttle the first attempt, then succeed; a second call fails with 404.
+    const metrics = new InMemoryMetrics({ buckets: [0.5, 5] });
+    const send = vi
+      .fn<(config: AxiosRequestConfig) => Promise<AxiosResponse>>()
+      .mockImplementationOnce(async (config) => {
+        throw new TransportError("Too Many Requests", TransportErrorCode.BadRequest, config, response(429, { "retry-after": "0" }));
+      })
+      .mockResolvedValueOnce(response(200))
+      .mockImplementationOnce(async (config) => {
+        throw new TransportError("Not Found", TransportErrorCode.BadRequest, config, response(404));
+      });
+    const client = new HttpClient({ transport: { send }, metrics, tracer: null });
+
+    // Act
+    await client.request({ method: "get", url: "/projects" });
+    await client.request({ method: "get", url: "/projects/1" }).catch(() => undefined);
+    client.dispose();
+
+    // Assert: one request per outcome, a retry and a 429 for the throttled operation.
+    const snapshot = metrics.snapshot();
+    expect(snapshot.requests).toEqual([
+      { labels: { operation: "listProjects", method: "GET", status: "200" }, value: 1 },
+      { labels: { operation: "getProject", method: "GET", status: "404" }, value: 1 },
+    ]);
+    expect(snapshot.retries).toEqual([
+      { labels: { operation: "listProjects", method: "GET" }, value: 1 },
+    ]);
+    expect(snapshot.rateLimited).toEqual([
+      { labels: { operation: "listProjects", method: "GET" }, value: 1 },
+    ]);
+    expect(snapshot.requestDuration[0]).toMatchObject({
+      labels: { operation: "listProjects", method: "GET" },
+      count: 1,
+    });
+    expect(snapshot.rateLimiterWait.count).toBe(2);
+  });
+
+  it("reports rate-limiter queue depth as callers wait and are released", async () => {
+    vi.useFakeTimers();
+    try {
+      // Arrange: a single-token bucket reporting into the registry.
+      const metrics = new InMemoryMetrics();
+      const limiter = new RateLimiter({ tokensPerInterval: 1, intervalMs: 100, metrics });
+      await limiter.acquire();
+
+      // Act: queue two callers, then let one refill release the first.
+      const first = limiter.acquire();
+      const second = limiter.acquire();
+      expect(metrics.snapshot().rateLimiterQueueDepth).toBe(2);
+      await vi.advanceTimersByTimeAsync(100);
+
+      // Assert
+      await expect(first).resolves.toBeUndefined();
+      expect(metrics.snapshot().rateLimiterQueueDepth).toBe(1);
+      limiter.dispose();
+      await expect(second).rejects.toThrow("Rate limiter disposed");
+      expect(metrics.snapshot().rateLimiterQueueDepth).toBe(0);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
+
+describe("formatPrometheusMetrics", () => {
+  it("renders counters, gauges, and cumulative histograms in exposition format", () => {
+    // Arrange
+    const metrics = new InMemoryMetrics({ buckets: [0.1, 1] });
+    metrics.recordRequest({ operation: "listTags", method: "GET", status: 200, durationMs: 50 });
+    metrics.recordRequest({ operation: "listTags", method: "GET", status: 200, durationMs: 400 });
+    metrics.recordRateLimiterWait(0);
+    metrics.recordQueueDepth(3);
+
+    // Act
+    const text = formatPrometheusMetrics(metrics.snapshot());
+
+    // Assert
+    expect(text).toContain("# TYPE companycam_requests_total counter");
+    expect(text).toContain('companycam_requests_total{operation="listTags",method="GET",status="200"} 2');
+    expect(text).toContain('companycam_request_duration_seconds_bucket{operation="listTags",method="GET",le="0.1"} 1');
+    expect(text).toContain('companycam_request_duration_seconds_bucket{operation="listTags",method="GET",le="1"} 2');
+    expect(text).toContain('companycam_request_duration_seconds_bucket{operation="listTags",method="GET",le="+Inf"} 2');
+    expect(text).toContain('companycam_request_duration_seconds_count{operation="listTags",method="GET"} 2');
+    expect(text).toContain("companycam_rate_limiter_queue_depth 3");
+    expect(text).toContain('companycam_rate_limiter_wait_seconds_bucket{le="0.1"} 1');
+    expect(text.endsWith("\n")).toBe(true);
+  });
+});
@@ -0,0 +1,332 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { AxiosRequestConfig, AxiosResponse } from "axios";
+import { DeadlineExceededError, OutboxQueuedError } from "../../src/http/Errors.js";
+import { HttpClient } from "../../src/http/HttpClient.js";
+import { extractIdempotencyKey } from "../../src/http/Idempotency.js";
+import { Outbox } from "../../src/http/Outbox.js";
+import { FileOutboxStore } from "../../src/http/FileOutboxStore.js";
+import { MemoryOutboxStore, SqliteOutboxStore } from "../../src/http/OutboxStore.js";
+import type {
+  OutboxStore,
+  SqliteDatabase,
+  SqliteStatement,
+} from "../../src/http/OutboxStore.js";
+import { TransportError, TransportErrorCode } from "../../src/http/Transport.js";
+import { PhotosResource } from "../../src/resources/Photos.js";
+
+/**
+ * Client whose transport fails with a network error while `network.online` is false and rejects
+ * bodies flagged `invalid` with a 422.
+ */
+function createClient(store: OutboxStore = new MemoryOutboxStore()) {
+  const network = { online: false };
+  const send = vi.fn(async (config: AxiosRequestConfig): Promise<AxiosResponse> => {
+    if (!network.online) {
+      throw new TransportError("socket hang up", TransportErrorCode.Network, config);
+    }
+    const invalid = JSON.stringify(config.data ?? {}).includes("invalid");
+    const status = invalid ? 422 : 201;
+    const response = {
+      status,
+      statusText: "",
+      data: invalid ? { errors: ["Content is invalid"] } : { id: "c-1" },
+      headers: {},
+      config,
+    } as AxiosResponse;
+    if (invalid) {
+      throw new TransportError("Unprocessable", TransportErrorCode.BadRequest, config, response);
+    }
+    return response;
+  });
+  const outbox = new Outbox({ store, flushIntervalMs: 0 });
+  const http = new HttpClient({
+    transport: { send },
+    rateLimiter: null,
+    authToken: "secret",
+    retry: { retries: 0 },
+    outbox,
+  });
+  return { http, outbox, send, network };
+}
+
+interface SqliteRow {
+  idempotency_key: string;
+  sequence: number;
+  entry: string;
+}
+
+/**
+ * In-memory stand-in for runtimes without `node:sqlite`. It understands only the statements
+ * `SqliteOutboxStore` issues, and fails like SQLite on tables that were never created.
+ */
+class FakeSqliteDatabase implements SqliteDatabase {
+  private readonly tables = new Map<string, Map<string, SqliteRow>>();
+
+  exec(sql: string): void {
+    const created = /^CREATE TABLE IF NOT EXISTS (\w+) \(/.exec(sql);
+    if (!created) {
+      throw new Error(`Unsupported statement: ${sql}`);
+    }
+    if (!this.tables.has(created[1]!)) {
+      this.tables.set(created[1]!, new Map());
+    }
+  }
+
+  prepare(sql: string): SqliteStatement {
+    const select = /^SELECT entry FROM (\w+) ORDER BY sequence$/.exec(sql);
+    if (select) {
+      const rows = this.table(select[1]!);
+      return {
+        run: () => undefined,
+        all: () =>
+          [...rows.values()]
+            .sort((a, b) => a.sequence - b.sequence)
+            .map((row) => ({ entry: row.entry })),
+      };
+    }
+    const insert = /^INSERT INTO (\w+) \(idempotency_key, sequence, entry\)/.exec(sql);
+    if (insert && sql.includes("ON CONFLICT (idempotency_key) DO UPDATE")) {
+      const rows = this.table(insert[1]!);
+      return {
+        run: (key, sequence, entry) =>
+          rows.set(key as string, {
+            idempotency_key: key as string,
+            sequence: sequence as number,
+            entry: entry as string,
+          }),
+        all: () => [],
+      };
+    }
+    const remove = /^DELETE FROM (\w+) WHERE idempotency_key = \?$/.exec(sql);
+    if (remove) {
+      const rows = this.table(remove[1]!);
+      return { run: (key) => rows.delete(key as string), all: () => [] };
+    }
+    throw new Error(`Unsupported statement: ${sql}`);
+  }
+
+  private table(name: string): Map<string, SqliteRow> {
+    const rows = this.tables.get(name);
+    if (!rows) {
+      throw new Error(`no such table: ${name}`);
+    }
+    return rows;
+  }
+}
+
+/**
+ * A `node:sqlite` database where the runtime has one (Node.js 22.5 and later), otherwise
+ * {@link FakeSqliteDatabase}.
+ */
+async function openSqlite(): Promise<SqliteDatabase> {
+  try {
+    const { DatabaseSync } = await import("node:sqlite");
+    return new DatabaseSync(":memory:");
+  } catch {
+    return new FakeSqliteDatabase();
+  }
+}
+
+function post(content: string, idempotencyKey?: string) {
+  return {
+    method: "POST",
+    url: "/photos/p-1/comments",
+    data: { comment: { content } },
+    idempotencyKey,
+  };
+}
+
+describe("Outbox", () => {
+  let directory: string | undefined;
+
+  afterEach(async () => {
+    if (directory) {
+      await rm(directory, { recursive: true, force: true });
+      directory = undefined;
+    }
+  });
+
+  it("stores mutations made offline and replays them in order with their keys", async () => {
+    // Arrange
+    const { http, outbox, send, network } = createClient();
+    const comments = new PhotosResource(http).comments;
+
+    // Act: the first comment fails to send, the second is queued behind it.
+    const first = await comments
+      .create("p-1", "first", { "X-CompanyCam-User": "crew@example.com" })
+      .catch((error: unknown) => error);
+    const second = await http.request(post("second")).catch((error: unknown) => error);
+
+    // Assert: both are stored; only the first ever reached the transport.
+    expect(first).toBeInstanceOf(OutboxQueuedError);
+    expect(second).toBeInstanceOf(OutboxQueuedError);
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(await outbox.status()).toMatchObject({ pending: 2, dead: 0 });
+    const [stored] = await outbox.entries();
+    expect(stored).toMatchObject({
+      operationId: "createPhotoComment",
+      headers: { "X-CompanyCam-User": "crew@example.com" },
+      lastError: { name: "NetworkError" },
+    });
+    expect(stored?.headers).not.toHaveProperty("Authorization");
+
+    // Act: connectivity returns.
+    network.online = true;
+    const result = await outbox.flush();
+
+    // Assert: replays ran in order, reusing the original keys.
+    expect(result).toEqual({ replayed: 2, deadLettered: 0, pending: 0 });
+    const replays = send.mock.calls.slice(1).map(([config]) => config);
+    expect(replays.map((config) => (config.data as any).comment.content)).toEqual([
+      "first",
+      "second",
+    ]);
+    expect(extractIdempotencyKey(replays[0]?.headers)).toBe(
+      (first as OutboxQueuedError).idempotencyKey
+    );
+    expect(extractIdempotencyKey(replays[1]?.headers)).toBe(
+      (second as OutboxQueuedError).idempotencyKey
+    );
+    expect(await outbox.status()).toMatchObject({ pending: 0, dead: 0 });
+  });
+
+  it("dead-letters replays the API rejects and keeps replaying the rest", async () => {
+    const { http, outbox, network } = createClient();
+    const deadLettered = vi.fn();
+    outbox.on("deadLettered", deadLettered);
+    await http.request(post("invalid", "bad")).catch(() => undefined);
+    await http.request(post("fine", "good")).catch(() => undefined);
+
+    network.online = true;
+    const result = await outbox.flush();
+
+    expect(result).toEqual({ replayed: 1, deadLettered: 1, pending: 0 });
+    expect(deadLettered).toHaveBeenCalledWith(
+      expect.objectContaining({
+        idempotencyKey: "bad",
+        lastError: expect.objectContaining({ status: 422 }),
+      })
+    );
+    expect((await outbox.deadLetters()).map((entry) => entry.idempotencyKey)).toEqual(["bad"]);
+
+    expect(await outbox.requeue("bad")).toBe(true);
+    expect(await outbox.status()).toMatchObject({ pending: 1, dead: 0 });
+    expect(await outbox.discard("bad")).toBe(true);
+    expect(await outbox.entries()).toEqual([]);
+  });
+
+  it("passes reads and rejected mutations through untouched", async () => {
+    const { http, outbox, network } = createClient();
+    network.online = true;
+
+    await expect(http.request(post("invalid"))).rejects.toMatchObject({ status: 422 });
+    await expect(http.request({ method: "GET", url: "/photos/p-1" })).resolves.toMatchObject({
+      status: 201,
+    });
+
+    expect(await outbox.entries()).toEqual([]);
+  });
+
+  it("sends calls with their own credentials directly instead of storing them", async () => {
+    // Arrange: one entry is already pending.
+    const { http, outbox, send } = createClient();
+    await http.request(post("queued")).catch(() => undefined);
+
+    // Act: calls made on behalf of another account while still offline.
+    const withToken = http.request({ ...post("tenant"), authToken: "tenant-token" });
+    const withHeader = http.request({
+      ...post("tenant"),
+      headers: { authorization: "Bearer tenant-token" },
+    });
+
+    // Assert: both reached the transport and failed as usual; nothing else was stored.
+    await expect(withToken).rejects.toMatchObject({ name: "NetworkError" });
+    await expect(withHeader).rejects.toMatchObject({ name: "NetworkError" });
+    expect(send).toHaveBeenCalledTimes(3);
+    expect(send.mock.calls[1]?.[0].headers).toMatchObject({ Authorization: "Bearer tenant-token" });
+    expect(await outbox.status()).toMatchObject({ pending: 1 });
+  });
+
+  it("returns expired deadlines to the caller instead of storing the call", async () => {
+    // Arrange
+    const { http, outbox, send } = createClient();
+
+    // Act: the call's time budget is already spent.
+    const result = http.request({ ...post("late"), totalTimeoutMs: 0 });
+
+    // Assert
+    await expect(result).rejects.toBeInstanceOf(DeadlineExceededError);
+    expect(send).not.toHaveBeenCalled();
+    expect(await outbox.entries()).toEqual([]);
+  });
+
+  it("survives restarts with a file store", async () => {
+    // Arrange: queue a call with one client.
+    directory = await mkdtemp(join(tmpdir(), "companycam-outbox-"));
+    const path = join(directory, "outbox.json");
+    const before = createClient(new FileOutboxStore({ path }));
+    await before.http.request(post("offline", "k-1")).catch(() => undefined);
+
+    // Act: a new process replays the stored call.
+    const after = createClient(new FileOutboxStore({ path }));
+    after.network.online = true;
+    const result = await after.outbox.flush();
+
+    // Assert
+    expect(result.replayed).toBe(1);
+    expect(extractIdempotencyKey(after.send.mock.calls[0]?.[0].headers)).toBe("k-1");
+    expect(await new FileOutboxStore({ path }).list()).toEqual([]);
+  });
+
+  it("survives restarts with a SQLite store and keeps dead letters in its own table", async () => {
+    // Arrange: queue three calls with one client; the second will be rejected on replay.
+    const database = await openSqlite();
+    const before = createClient(new SqliteOutboxStore({ database, tableName: "field_outbox" }));
+    for (const [content, key] of [
+      ["first", "k-1"],
+      ["invalid", "k-2"],
+      ["third", "k-3"],
+    ]) {
+      await before.http.request(post(content!, key)).catch(() => undefined);
+    }
+
+    // Act: a new client reloads the table and replays it.
+    const store = new SqliteOutboxStore({ database, tableName: "field_outbox" });
+    const after = createClient(store);
+    const reloaded = await after.outbox.entries();
+    after.network.online = true;
+    const result = await after.outbox.flush();
+
+    // Assert: entries came back in insertion order and replayed in that order.
+    expect(reloaded.map((entry) => entry.idempotencyKey)).toEqual(["k-1", "k-2", "k-3"]);
+    expect(reloaded[0]).toMatchObject({
+      status: "pending",
+      operationId: "createPhotoComment",
+      data: { comment: { content: "first" } },
+      lastError: { name: "NetworkError" },
+    });
+    expect(result).toEqual({ replayed: 2, deadLettered: 1, pending: 0 });
+    expect(
+      after.send.mock.calls.map(([config]) => (config.data as any).comment.content)
+    ).toEqual(["first", "invalid", "third"]);
+    expect(await store.list()).toEqual([
+      expect.objectContaining({ idempotencyKey: "k-2", status: "dead", attempts: 1 }),
+    ]);
+    expect(await new SqliteOutboxStore({ database }).list()).toEqual([]);
+
+    // Act & Assert: a requeued dead letter is updated in place and moves behind newer entries.
+    after.network.online = false;
+    await after.http.request(post("fourth", "k-4")).catch(() => undefined);
+    expect(await after.outbox.requeue("k-2")).toBe(true);
+    expect((await store.list()).map((entry) => [entry.idempotencyKey, entry.status])).toEqual([
+      ["k-4", "pending"],
+      ["k-2", "pending"],
+    ]);
+    expect(await after.outbox.discard("k-2")).toBe(true);
+    expect(await after.outbox.discard("k-4")).toBe(true);
+    expect(await store.list()).toEqual([]);
+  });
+});
@@ -0,0 +1,108 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { AxiosResponse } from "axios";
+import { HttpClient } from "../../src/http/HttpClient.js";
+import { PartitionedRateLimiter } from "../../src/http/PartitionedRateLimiter.js";
+import { RateLimiter } from "../../src/http/RateLimiter.js";
+
+describe("PartitionedRateLimiter", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("gives every partition its own bucket", async () => {
+    // Arrange: one token per partition.
+    const limiter = new PartitionedRateLimiter({ tokensPerInterval: 1, intervalMs: 1000 });
+    await limiter.acquire(undefined, { partitionKey: "noisy" });
+
+    // Act: the noisy tenant queues while another tenant still has its token.
+    let noisyGranted = false;
+    const noisy = limiter
+      .acquire(undefined, { partitionKey: "noisy" })
+      .then(() => (noisyGranted = true));
+    await limiter.acquire(undefined, { partitionKey: "quiet" });
+    await vi.advanceTimersByTimeAsync(0);
+
+    // Assert: only the noisy tenant waits.
+    expect(noisyGranted).toBe(false);
+    expect(limiter.partition("noisy").snapshot().queueLength).toBe(1);
+    await vi.advanceTimersByTimeAsync(1000);
+    await noisy;
+    limiter.dispose();
+  });
+
+  it("applies per-tenant quota overrides", () => {
+    const limiter = new PartitionedRateLimiter({
+      tokensPerInterval: 10,
+      overrides: { enterprise: { tokensPerInterval: 50 } },
+    });
+
+    expect(limiter.partition("enterprise").snapshot().availableTokens).toBe(50);
+    expect(limiter.partition("starter").snapshot().availableTokens).toBe(10);
+    limiter.dispose();
+  });
+
+  it("evicts partitions that stay idle past the timeout", async () => {
+    // Arrange: an idle partition and one with a queued caller.
+    const limiter = new PartitionedRateLimiter({
+      tokensPerInterval: 1,
+      intervalMs: 60_000,
+      idleTimeoutMs: 10_000,
+    });
+    await limiter.acquire(undefined, { partitionKey: "idle" });
+    await limiter.acquire(undefined, { partitionKey: "busy" });
+    const queued = limiter.acquire(undefined, { partitionKey: "busy" });
+
+    // Act: run the sweep after the idle timeout.
+    await vi.advanceTimersByTimeAsync(15_000);
+
+    // Assert: the busy partition survives because a caller is still waiting.
+    expect(limiter.partitionKeys()).toEqual(["busy"]);
+    await vi.advanceTimersByTimeAsync(60_000);
+    await queued;
+    limiter.dispose();
+  });
+
+  it("is partitioned by tenant key or bearer token when used by HttpClient", async () => {
+    // Arrange: a client acting for several companies.
+    const send = vi.fn(async () => ({ status: 200, data: {}, headers: {} }) as AxiosResponse);
+    const rateLimiter = new PartitionedRateLimiter();
+    const client = new HttpClient({ transport: { send }, rateLimiter, authToken: "default" });
+
+    // Act: call on behalf of two tokens and one explicit tenant.
+    await client.request({ method: "GET", url: "/projects", authToken: "company-a" });
+    await client.request({ method: "GET", url: "/projects", authToken: "company-b" });
+    await client.request({ method: "GET", url: "/projects", tenantKey: "acme" });
+
+    // Assert: three partitions, none of which exposes a raw token.
+    const keys = rateLimiter.partitionKeys();
+    expect(keys).toHaveLength(3);
+    expect(keys).toContain("acme");
+    expect(keys.join(" ")).not.toMatch(/company-/);
+    client.dispose();
+    rateLimiter.dispose();
+  });
+
+  it("derives no partition key for limiters that do not read one", async () => {
+    // Arrange: a single-bucket limiter behind a client with a bearer token.
+    const send = vi.fn(async () => ({ status: 200, data: {}, headers: {} }) as AxiosResponse);
+    const rateLimiter = new RateLimiter();
+    const acquire = vi.spyOn(rateLimiter, "acquire");
+    const client = new HttpClient({ transport: { send }, rateLimiter, authToken: "secret" });
+
+    // Act
+    await client.request({ method: "GET", url: "/projects", tenantKey: "acme" });
+    await client.request({ method: "GET", url: "/projects", authToken: "company-a" });
+
+    // Assert: the bearer token was never hashed into a key the limiter would ignore.
+    expect(acquire.mock.calls.map(([, options]) => options?.partitionKey)).toEqual([
+      undefined,
+      undefined,
+    ]);
+    client.dispose();
+    rateLimiter.dispose();
+  });
+});
@@ -1,6 +1,9 @@
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 import { RateLimiter } from "../../src/http/RateLimiter.js";
-import type { AbortSignalLike } from "../../src/http/RateLimiter.js";
+import type {
+  AbortSignalLike,
+  RequestPriority,
+} from "../../src/http/RateLimiter.js";
 
 /**
  * Rate limiter behaviour is core to protecting the API. These tests focus on
@@ -96,4 +99,242 @@ describe("RateLimiter", () => {
     // Assert: the queued promise fails with a disposal error.
     await expect(pending).rejects.toThrowError("Rate limiter disposed");
   });
+
+  it("splits released tokens between priority lanes by weight", async () => {
+    // Arrange: queue background work first, then interactive and normal requests behind it.
+    const limiter = new RateLimiter({
+      tokensPerInterval: 1,
+      intervalMs: 100,
+      priorityWeights: { interactive: 2, normal: 1, background: 1 },
+    });
+    await limiter.acquire();
+
+    const order: string[] = [];
+    const track = (label: string, priority: RequestPriority) =>
+      limiter.acquire(undefined, { priority }).then(() => order.push(label));
+    const pending = [
+      track("background-1", "background"),
+      track("background-2", "background"),
+      track("interactive-1", "interactive"),
+      track("interactive-2", "interactive"),
+      track("normal-1", "normal"),
+    ];
+
+    // Act: release one token per refill until every waiter is served.
+    await vi.advanceTimersByTimeAsync(500);
+    await Promise.all(pending);
+
+    // Assert: interactive requests jump the queue but background work still gets its share.
+    expect(order).toEqual([
+      "interactive-1",
+      "normal-1",
+      "background-1",
+      "interactive-2",
+      "background-2",
+    ]);
+
+    limiter.dispose();
+  });
+
+  it("serves starving low-priority waiters once they exceed the threshold", async () => {
+    // Arrange: a background request followed by a steady stream of interactive ones.
+    const limiter = new RateLimiter({
+      tokensPerInterval: 1,
+      intervalMs: 100,
+      starvationThresholdMs: 250,
+    });
+    await limiter.acquire();
+
+    const order: string[] = [];
+    const background = limiter
+      .acquire(undefined, { priority: "background" })
+      .then(() => order.push("background"));
+    await vi.advanceTimersByTimeAsync(50);
+    for (let index = 0; index < 4; index += 1) {
+      void limiter
+        .acquire(undefined, { priority: "interactive" })
+        .then(() => order.push("interactive"), () => undefined);
+    }
+
+    // Act: advance past the starvation threshold.
+    await vi.advanceTimersByTimeAsync(250);
+    await background;
+
+    // Assert: the background waiter is served on the first refill after the threshold.
+    expect(order).toEqual(["interactive", "interactive", "background"]);
+
+    limiter.dispose();
+  });
+
+  it("removes aborted waiters from their priority lane", async () => {
+    // Arrange: queue an interactive request that will be cancelled, and a normal one behind it.
+    const limiter = new RateLimiter({ tokensPerInterval: 1, intervalMs: 100 });
+    await limiter.acquire();
+
+    const controller = new AbortController();
+    const cancelled = limiter.acquire(
+      controller.signal as unknown as AbortSignalLike,
+      { priority: "interactive" }
+    );
+    const normal = limiter.acquire(undefined, { priority: "normal" });
+
+    // Act: abort the interactive waiter before the next refill.
+    controller.abort();
+    await expect(cancelled).rejects.toMatchObject({ name: "AbortError" });
+    await vi.advanceTimersByTimeAsync(100);
+
+    // Assert: the token goes to the next lane.
+    await expect(normal).resolves.toBeUndefined();
+
+    limiter.dispose();
+  });
+
+  it("slows down and pauses queued acquirers after a 429 in adaptive mode", async () => {
+    // Arrange: ten tokens per second, so one token every 100ms at full speed.
+    const limiter = new RateLimiter({
+      tokensPerInterval: 10,
+      intervalMs: 1000,
+      adaptive: { recoveryIntervalMs: 5_000 },
+    });
+    const granted = vi.fn();
+
+    // Act: the server throttles us for two seconds while a caller waits.
+    limiter.observe({ status: 429, headers: { "Retry-After": "2" } });
+    limiter.acquire().then(granted);
+    await vi.advanceTimersByTimeAsync(1_900);
+
+    // Assert: the queued caller stays paused until the reset, at half the original rate.
+    expect(limiter.currentTokensPerInterval).toBe(5);
+    expect(granted).not.toHaveBeenCalled();
+    await vi.advanceTimersByTimeAsync(300);
+    expect(granted).toHaveBeenCalledTimes(1);
+
+    // Act & Assert: a quiet period restores the rate step by step.
+    await vi.advanceTimersByTimeAsync(5_000);
+    expect(limiter.currentTokensPerInterval).toBe(6);
+
+    limiter.dispose();
+  });
+
+  it("matches the refill rate to the remaining quota advertised by rate-limit headers", async () => {
+    // Arrange
+    const limiter = new RateLimiter({ tokensPerInterval: 100, intervalMs: 60_000, adaptive: true });
+
+    // Act: 20 requests left for the next 30 seconds is sustainable at 40 per minute.
+    limiter.observe({
+      status: 200,
+      headers: { "X-RateLimit-Limit": "100", "X-RateLimit-Remaining": "20", "X-RateLimit-Reset": "30" },
+    });
+
+    // Assert
+    expect(limiter.currentTokensPerInterval).toBe(40);
+
+    // Act & Assert: an exhausted quota pauses immediate acquisitions until the reset.
+    limiter.observe({ status: 200, headers: { "x-ratelimit-remaining": "0", "x-ratelimit-reset": "1" } });
+    const granted = vi.fn();
+    limiter.acquire().then(granted);
+    await vi.advanceTimersByTimeAsync(900);
+    expect(granted).not.toHaveBeenCalled();
+    await vi.advanceTimersByTimeAsync(6_000);
+    expect(granted).toHaveBeenCalledTimes(1);
+
+    limiter.dispose();
+  });
+
+  it("ignores server feedback unless adaptive mode is enabled", () => {
+    const limiter = new RateLimiter({ tokensPerInterval: 10, intervalMs: 1000 });
+
+    limiter.observe({ status: 429, headers: { "retry-after": "60" } });
+
+    expect(limiter.currentTokensPerInterval).toBe(10);
+    limiter.dispose();
+  });
+
+  it("rejects token counts the bucket cannot grant in tryAcquire without touching the bucket", () => {
+    // Arrange: a full five-token bucket.
+    const limiter = new RateLimiter({ tokensPerInterval: 5, intervalMs: 1000 });
+
+    // Act & Assert: negative, zero, fractional, and oversized counts all throw.
+    for (const tokens of [-5, 0, 1.5, 6, Number.NaN]) {
+      expect(() => limiter.tryAcquire(tokens)).toThrow(RangeError);
+    }
+
+    // Assert: no tokens were added or removed.
+    expect(limiter.snapshot().availableTokens).toBe(5);
+    expect(limiter.tryAcquire(5)).toBe(true);
+    expect(limiter.tryAcquire()).toBe(false);
+    limiter.dispose();
+  });
+
+  it("reports available tokens, queue length, and oldest wait in snapshots", async () => {
+    // Arrange: drain a two-token bucket and queue one background caller.
+    const limiter = new RateLimiter({ tokensPerInterval: 2, intervalMs: 1000 });
+    expect(limiter.tryAcquire()).toBe(true);
+    expect(limiter.snapshot().availableTokens).toBe(1);
+    expect(limiter.tryAcquire(2)).toBe(false);
+    await limiter.acquire();
+
+    const pending = limiter.acquire(undefined, { priority: "background" });
+
+    // Act: let part of the refill interval elapse.
+    await vi.advanceTimersByTimeAsync(200);
+
+    // Assert: the snapshot reflects the waiting caller.
+    expect(limiter.snapshot()).toEqual({
+      availableTokens: 0,
+      tokensPerInterval: 2,
+      queueLength: 1,
+      queued: { interactive: 0, normal: 0, background: 1 },
+      oldestWaitMs: 200,
+      pausedForMs: 0,
+    });
+    expect(limiter.tryAcquire()).toBe(false);
+
+    await vi.advanceTimersByTimeAsync(300);
+    await expect(pending).resolves.toBeUndefined();
+    limiter.dispose();
+  });
+
+  it("holds weighted acquirers at the head of the queue until enough tokens accumulate", async () => {
+    // Arrange: empty the bucket, then queue a five-token batch followed by a single request.
+    const limiter = new RateLimiter({ tokensPerInterval: 5, intervalMs: 500 });
+    await limiter.acquire(5);
+
+    const order: string[] = [];
+    const batch = limiter.acquire(5).then(() => order.push("batch"));
+    const single = limiter.acquire().then(() => order.push("single"));
+
+    // Act: refill one token at a time.
+    await vi.advanceTimersByTimeAsync(400);
+    expect(order).toEqual([]);
+    await vi.advanceTimersByTimeAsync(200);
+    await Promise.all([batch, single]);
+
+    // Assert: the later single-token request did not overtake the batch.
+    expect(order).toEqual(["batch", "single"]);
+    await expect(limiter.acquire(6)).rejects.toBeInstanceOf(RangeError);
+    limiter.dispose();
+  });
+
+  it("emits throttled when callers start queueing and drained once the queue empties", async () => {
+    // Arrange: subscribe to both events on a single-token bucket.
+    const limiter = new RateLimiter({ tokensPerInterval: 1, intervalMs: 100 });
+    const events: Array<[string, number]> = [];
+    limiter.on("throttled", (snapshot) => events.push(["throttled", snapshot.queueLength]));
+    limiter.on("drained", (snapshot) => events.push(["drained", snapshot.queueLength]));
+    await limiter.acquire();
+
+    // Act: queue two callers and let both be served.
+    const first = limiter.acquire();
+    const second = limiter.acquire();
+    await vi.advanceTimersByTimeAsync(200);
+    await Promise.all([first, second]);
+
+    // Assert: one event per transition, not per caller.
+    expect(events).toEqual([
+      ["throttled", 1],
+      ["drained", 0],
+    ]);
+    limiter.dispose();
+  });
 });
@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import {
+  REDACTED,
+  redactHeaders,
+  redactPayload,
+} from "../../src/http/Redaction.js";
+
+// Redaction guards every log line and serialized error, so it must catch each documented secret.
+describe("redaction helpers", () => {
+  it("redacts credential headers regardless of casing", () => {
+    expect(
+      redactHeaders({
+        Authorization: "Bearer secret",
+        cookie: "session=1",
+        Accept: "application/json",
+        Skip: undefined,
+      })
+    ).toEqual({
+      Authorization: REDACTED,
+      cookie: REDACTED,
+      Accept: "application/json",
+    });
+  });
+
+  it("redacts OAuth form fields while keeping the rest of the form", () => {
+    const form = new URLSearchParams({
+      client_id: "client-1",
+      client_secret: "shh",
+      refresh_token: "refresh-me",
+      grant_type: "refresh_token",
+    });
+
+    expect(redactPayload(form)).toEqual({
+      client_id: "client-1",
+      client_secret: REDACTED,
+      refresh_token: REDACTED,
+      grant_type: "refresh_token",
+    });
+  });
+
+  it("deeply redacts webhook tokens and tolerates circular payloads", () => {
+    const payload: Record<string, unknown> = {
+      url: "https://example.com/hook",
+      token: "webhook-secret",
+      nested: [{ user: { password: "p@ss", name: "Gus" } }],
+    };
+    payload.self = payload;
+
+    expect(redactPayload(payload)).toEqual({
+      url: "https://example.com/hook",
+      token: REDACTED,
+      nested: [{ user: { password: REDACTED, name: "Gus" } }],
+      self: "[Circular]",
+    });
+  });
+
+  it("copies objects shared between branches instead of marking them circular", () => {
+    const coordinate = { lat: 41.2, lon: -96.0 };
+
+    expect(redactPayload({ start: coordinate, path: [coordinate, coordinate] })).toEqual({
+      start: { lat: 41.2, lon: -96.0 },
+      path: [
+        { lat: 41.2, lon: -96.0 },
+        { lat: 41.2, lon: -96.0 },
+      ],
+    });
+  });
+});
@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { coalescingKey, requestKey, sha256 } from "../../src/http/RequestKey.js";
+
+describe("request keys", () => {
+  it("computes SHA-256 digests without platform crypto", () => {
+    expect(sha256("")).toBe("e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855");
+    expect(sha256("abc")).toBe(
+      "ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad"
+    );
+    expect(sha256("abcdbcdecdefdefgefghfghighijhijkijkljklmklmnlmnomnopnopq")).toBe(
+      "248d6a61d20638b8e5c026930c3e6039a33ce45964ff2167f6ecedd419db06c1"
+    );
+  });
+
+  it("separates conditional and custom-status GETs from plain ones when coalescing", () => {
+    const plain = { method: "GET", url: "/company" };
+    const conditional = {
+      ...plain,
+      headers: { "If-None-Match": '"abc"' },
+      validateStatus: (status: number) => status === 304,
+    };
+
+    expect(coalescingKey(plain)).toContain(requestKey(plain));
+    expect(coalescingKey(conditional)).not.toBe(coalescingKey(plain));
+    expect(coalescingKey(conditional)).toBe(coalescingKey({ ...conditional }));
+    expect(coalescingKey({ ...plain, validateStatus: () => true })).toBeUndefined();
+  });
+
+  it("separates GETs that would be scheduled or retried differently when coalescing", () => {
+    const plain = { method: "GET", url: "/company", timeout: 30_000 };
+    const key = coalescingKey(plain);
+
+    expect(coalescingKey(plain, { priority: "normal", useRateLimiter: true })).toBe(key);
+    expect(coalescingKey(plain, { priority: "interactive" })).not.toBe(key);
+    expect(coalescingKey(plain, { useRateLimiter: false })).not.toBe(key);
+    expect(coalescingKey(plain, { tenantKey: "company-1" })).not.toBe(key);
+    expect(coalescingKey(plain, { retry: { retries: 0 } })).not.toBe(key);
+    expect(coalescingKey({ ...plain, timeout: 5_000 })).not.toBe(key);
+    expect(coalescingKey(plain, { retry: { onRetry: () => undefined } })).toBeUndefined();
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, expect, it, vi } from "vitest";
+import type { AxiosRequestConfig, AxiosResponse } from "axios";
+import { SchemaMismatchError } from "../../src/http/Errors.js";
+import { HttpClient } from "../../src/http/HttpClient.js";
+import type { ResponseValidationMode } from "../../src/http/HttpClient.js";
+import type { Logger } from "../../src/http/Logger.js";
+import { PhotosResource } from "../../src/resources/Photos.js";
+
+/**
+ * Photo whose `coordinates` is a single object, as `PhotoMutable` has it, instead of the array
+ * the spec declares, and which carries an undocumented field.
+ */
+const driftedPhoto = {
+  id: "ph-1",
+  coordinates: { lat: 41.2, lon: -96.0 },
+  blur_hash: "LEHV6nWB2yk8",
+};
+
+function createClient(responseValidation: ResponseValidationMode | undefined, data: unknown) {
+  const logger: Logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+  const send = vi.fn(
+    async (config: AxiosRequestConfig): Promise<AxiosResponse> =>
+      ({
+        status: 200,
+        statusText: "OK",
+        data,
+        headers: { "x-request-id": "req-1" },
+        config,
+      }) as AxiosResponse
+  );
+  const http = new HttpClient({
+    transport: { send },
+    rateLimiter: null,
+    logger,
+    responseValidation,
+  });
+  return { photos: new PhotosResource(http), logger };
+}
+
+describe("response validation", () => {
+  it("logs drift and still returns the payload in warn mode", async () => {
+    // Arrange
+    const { photos, logger } = createClient("warn", driftedPhoto);
+
+    // Act
+    const photo = await photos.retrieve("ph-1");
+
+    // Assert: the caller gets the data; the logger gets every difference.
+    expect(photo).toEqual(driftedPhoto);
+    expect(logger.warn).toHaveBeenCalledTimes(1);
+    expect(logger.warn).toHaveBeenCalledWith(
+      expect.objectContaining({
+        event: "request.schemaMismatch",
+        operationId: "getPhoto",
+        requestId: "req-1",
+        violations: [
+          { location: "response", path: "coordinates", message: "must be an array" },
+          { location: "response", path: "blur_hash", message: "is not in the spec" },
+        ],
+      })
+    );
+  });
+
+  it("throws SchemaMismatchError in strict mode", async () => {
+    const { photos } = createClient("strict", [{ coordinates: [{ lat: "41.2", lon: -96 }] }]);
+
+    const error = await photos.list().catch((failure: unknown) => failure);
+
+    expect(error).toBeInstanceOf(SchemaMismatchError);
+    expect(error).toMatchObject({
+      operationId: "listPhotos",
+      status: 200,
+      requestId: "req-1",
+      violations: [
+        { location: "response", path: "[0].id", message: "is missing" },
+        { location: "response", path: "[0].coordinates[0].lat", message: "must be a number" },
+      ],
+    });
+    expect((error as Error).message).toBe(
+      "Response to listPhotos does not match the spec: [0].id is missing; " +
+        "[0].coordinates[0].lat must be a number"
+    );
+  });
+
+  it("logs drift in strict mode instead of failing a write the server applied", async () => {
+    // Arrange
+    const { photos, logger } = createClient("strict", driftedPhoto);
+
+    // Act
+    const photo = await photos.update("ph-1", { internal: true });
+
+    // Assert: the update is reported as saved; the drift still reaches the logger.
+    expect(photo).toEqual(driftedPhoto);
+    expect(logger.warn).toHaveBeenCalledWith(
+      expect.objectContaining({
+        event: "request.schemaMismatch",
+        operationId: "updatePhoto",
+        method: "PUT",
+      })
+    );
+  });
+
+  it("stays quiet for matching payloads and when disabled", async () => {
+    const matching = createClient("strict", {
+      id: "ph-1",
+      coordinates: [{ lat: 41.2, lon: -96 }],
+    });
+    const disabled = createClient(undefined, driftedPhoto);
+
+    await expect(matching.photos.retrieve("ph-1")).resolves.toMatchObject({ id: "ph-1" });
+    await expect(disabled.photos.retrieve("ph-1")).resolves.toEqual(driftedPhoto);
+
+    expect(matching.logger.warn).not.toHaveBeenCalled();
+    expect(disabled.logger.warn).not.toHaveBeenCalled();
+  });
+});
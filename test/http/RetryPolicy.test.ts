@@ -0,0 +1,164 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { AxiosError, AxiosRequestConfig, AxiosResponse } from "axios";
+import { HttpClient } from "../../src/http/HttpClient.js";
+import type { RetryOptions } from "../../src/http/HttpClient.js";
+import {
+  RetryBudget,
+  exponentialBackoff,
+  fixedBackoff,
+  noRetry,
+} from "../../src/http/RetryPolicy.js";
+import type { RetryContext } from "../../src/http/RetryPolicy.js";
+import { TransportError, TransportErrorCode } from "../../src/http/Transport.js";
+
+function response(status: number, headers: Record<string, string> = {}): AxiosResponse {
+  return { status, statusText: "", data: {}, headers, config: {} } as AxiosResponse;
+}
+
+function failure(config: AxiosRequestConfig, status: number, headers: Record<string, string> = {}) {
+  return new TransportError(
+    `Request failed with status code ${status}`,
+    status >= 500 ? TransportErrorCode.BadResponse : TransportErrorCode.BadRequest,
+    config,
+    response(status, headers)
+  );
+}
+
+/**
+ * Client whose transport always fails with a 503.
+ */
+function createClient(retry: RetryOptions) {
+  const send = vi.fn(async (config: AxiosRequestConfig): Promise<AxiosResponse> => {
+    throw failure(config, 503);
+  });
+  const client = new HttpClient({ transport: { send }, rateLimiter: null, retry });
+  return { client, send };
+}
+
+function context(retryCount: number, previousDelayMs = 0): RetryContext {
+  return { retryCount, previousDelayMs, error: {} as AxiosError, config: {} };
+}
+
+describe("retry policies", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("computes exponential delays with the selected jitter", () => {
+    vi.spyOn(Math, "random").mockReturnValue(0.5);
+
+    expect(exponentialBackoff({ jitter: "none" }).nextDelay(context(3))).toBe(800);
+    expect(exponentialBackoff({ jitter: "full" }).nextDelay(context(3))).toBe(400);
+    expect(exponentialBackoff().nextDelay(context(3))).toBe(880);
+    expect(
+      exponentialBackoff({ jitter: "decorrelated", baseDelayMs: 100 }).nextDelay(
+        context(2, 300)
+      )
+    ).toBe(500);
+    expect(
+      exponentialBackoff({ jitter: "none", maxDelayMs: 1_000 }).nextDelay(context(10))
+    ).toBe(1_000);
+    expect(fixedBackoff(250).nextDelay(context(5))).toBe(250);
+    expect(noRetry().nextDelay(context(1))).toBeNull();
+  });
+
+  it("stops retrying when the policy gives up", async () => {
+    const { client, send } = createClient({ policy: noRetry() });
+
+    await expect(client.request({ method: "GET", url: "/projects" })).rejects.toMatchObject({
+      status: 503,
+    });
+    expect(send).toHaveBeenCalledTimes(1);
+  });
+
+  it("applies per-request overrides on top of the client settings", async () => {
+    // Arrange: the client retries three times by default.
+    const { client, send } = createClient({ retries: 3, policy: fixedBackoff(0) });
+
+    // Act: disable retries for one call and restrict retryable statuses for another.
+    await expect(
+      client.request({ method: "GET", url: "/projects", retry: { retries: 0 } })
+    ).rejects.toMatchObject({ status: 503 });
+    await expect(
+      client.request({
+        method: "GET",
+        url: "/projects",
+        retry: { retryableStatuses: [429] },
+      })
+    ).rejects.toMatchObject({ status: 503 });
+    await expect(client.request({ method: "GET", url: "/projects" })).rejects.toMatchObject({
+      status: 503,
+    });
+
+    // Assert: one attempt each for the overridden calls, four for the default one.
+    expect(send).toHaveBeenCalledTimes(6);
+  });
+
+  it("retries attempts that time out like network errors", async () => {
+    // Arrange: the first attempt exceeds its timeout, the second succeeds.
+    const send = vi
+      .fn(async (config: AxiosRequestConfig): Promise<AxiosResponse> => response(200))
+      .mockImplementationOnce(async (config) => {
+        throw new TransportError("timeout of 50ms exceeded", TransportErrorCode.Timeout, config);
+      });
+    const client = new HttpClient({
+      transport: { send },
+      rateLimiter: null,
+      retry: { policy: fixedBackoff(0) },
+    });
+
+    // Act
+    const result = await client.request({ method: "GET", url: "/projects", timeout: 50 });
+
+    // Assert: the timeout was retried instead of surfacing to the caller.
+    expect(result.status).toBe(200);
+    expect(send).toHaveBeenCalledTimes(2);
+  });
+
+  it("caps Retry-After hints at maxRetryAfterMs", async () => {
+    vi.useFakeTimers();
+    try {
+      const send = vi
+        .fn<(config: AxiosRequestConfig) => Promise<AxiosResponse>>()
+        .mockImplementationOnce(async (config) => {
+          throw failure(config, 429, { "retry-after": "3600" });
+        })
+        .mockResolvedValueOnce(response(200));
+      const client = new HttpClient({
+        transport: { send },
+        rateLimiter: null,
+        retry: { maxRetryAfterMs: 2_000 },
+      });
+
+      const pending = client.request({ method: "GET", url: "/projects" });
+      await vi.advanceTimersByTimeAsync(2_000);
+
+      await expect(pending).resolves.toMatchObject({ status: 200 });
+      expect(send).toHaveBeenCalledTimes(2);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("caps retries to the share of traffic allowed by the budget", async () => {
+    // Arrange: allow 10% of requests in the window, but at least one retry.
+    const budget = new RetryBudget({ ratio: 0.1, minRetries: 1 });
+    const { client, send } = createClient({
+      retries: 3,
+      policy: fixedBackoff(0),
+      budget,
+    });
+
+    // Act: two failing requests.
+    await expect(client.request({ method: "GET", url: "/a" })).rejects.toMatchObject({
+      status: 503,
+    });
+    await expect(client.request({ method: "GET", url: "/b" })).rejects.toMatchObject({
+      status: 503,
+    });
+
+    // Assert: only one retry was spent across both requests.
+    expect(send).toHaveBeenCalledTimes(3);
+    expect(budget.tryRetry()).toBe(false);
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, expect, it, vi } from "vitest";
+import type { AxiosRequestConfig, AxiosResponse } from "axios";
+import { ValidationError } from "../../src/http/Errors.js";
+import { HttpClient } from "../../src/http/HttpClient.js";
+import { validateRequest } from "../../src/http/SchemaValidation.js";
+import { ProjectsResource } from "../../src/resources/Projects.js";
+import type { PhotoMutable } from "../../src/interfaces.js";
+
+function createClient(validateRequests?: boolean) {
+  const send = vi.fn(
+    async (config: AxiosRequestConfig): Promise<AxiosResponse> =>
+      ({ status: 200, statusText: "OK", data: [], headers: {}, config }) as AxiosResponse
+  );
+  const acquire = vi.fn(async () => undefined);
+  const http = new HttpClient({
+    transport: { send },
+    rateLimiter: { acquire, dispose: () => undefined },
+    validateRequests,
+  });
+  return { projects: new ProjectsResource(http), send, acquire };
+}
+
+describe("request validation", () => {
+  it("rejects malformed bodies before spending a rate-limit token", async () => {
+    // Arrange: a photo without `captured_at` and with a string latitude.
+    const { projects, send, acquire } = createClient(true);
+    const photo = {
+      uri: "https://example.com/photo.jpg",
+      coordinates: { lat: "41.2", lon: -96.0 },
+      tags: ["roof", 7],
+    } as unknown as PhotoMutable;
+
+    // Act
+    const error = await projects.photos.create("p-1", photo).catch((failure: unknown) => failure);
+
+    // Assert: every violation is listed and nothing left the client.
+    expect(error).toBeInstanceOf(ValidationError);
+    const validation = error as ValidationError;
+    expect(validation.status).toBeUndefined();
+    expect(validation.violations).toEqual([
+      { location: "body", path: "photo.captured_at", message: "is required" },
+      { location: "body", path: "photo.coordinates.lat", message: "must be a number" },
+      { location: "body", path: "photo.tags[1]", message: "must be a string" },
+    ]);
+    expect(validation.message).toBe(
+      "Invalid createProjectPhoto request: photo.captured_at is required; " +
+        "photo.coordinates.lat must be a number; photo.tags[1] must be a string"
+    );
+    expect(validation.fieldErrors).toEqual({
+      captured_at: ["photo.captured_at is required"],
+      "coordinates.lat": ["photo.coordinates.lat must be a number"],
+      tags: ["photo.tags[1] must be a string"],
+    });
+    expect(send).not.toHaveBeenCalled();
+    expect(acquire).not.toHaveBeenCalled();
+  });
+
+  it("checks query parameters, accepting their string forms", async () => {
+    const { projects, send } = createClient(true);
+
+    await expect(
+      projects.photos.list("p-1", { per_page: "50", user_ids: [1, "two"] } as never)
+    ).rejects.toMatchObject({
+      violations: [{ location: "query", path: "user_ids[1]", message: "must be an integer" }],
+    });
+    await expect(
+      projects.photos.list("p-1", { page: 2, tag_ids: [3], start_date: "2024-01-01" })
+    ).resolves.toEqual([]);
+
+    expect(send).toHaveBeenCalledTimes(1);
+  });
+
+  it("is disabled by default", async () => {
+    const { projects, send } = createClient();
+
+    await projects.photos.create("p-1", {} as PhotoMutable);
+
+    expect(send).toHaveBeenCalledTimes(1);
+  });
+
+  it("reports nothing for operations without schemas or undeclared properties", () => {
+    expect(validateRequest("unknownOperation", { data: 1 })).toEqual([]);
+    expect(
+      validateRequest("createTag", { data: { tag: { display_value: "Roof", extra: 1 } } })
+    ).toEqual([]);
+  });
+});
@@ -0,0 +1,147 @@
+import { describe, expect, it, vi } from "vitest";
+import type { AxiosRequestConfig, AxiosResponse } from "axios";
+import { SpanKind, SpanStatusCode } from "@opentelemetry/api";
+import {
+  BasicTracerProvider,
+  InMemorySpanExporter,
+  SimpleSpanProcessor,
+} from "@opentelemetry/sdk-trace-base";
+import { HttpClient } from "../../src/http/HttpClient.js";
+import { APIError } from "../../src/http/Errors.js";
+import { RateLimiter } from "../../src/http/RateLimiter.js";
+import { TransportError, TransportErrorCode } from "../../src/http/Transport.js";
+
+/**
+ * Tracing is verified end to end with the SDK's in-memory exporter and a scripted transport.
+ */
+
+function createTracing() {
+  const exporter = new InMemorySpanExporter();
+  const provider = new BasicTracerProvider({
+    spanProcessors: [new SimpleSpanProcessor(exporter)],
+  });
+  return { exporter, tracer: provider.getTracer("test") };
+}
+
+function response(status: number, headers: Record<string, string> = {}): AxiosResponse {
+  return { status, statusText: "", data: {}, headers, config: {} } as AxiosResponse;
+}
+
+function failure(config: AxiosRequestConfig, status: number, headers: Record<string, string> = {}) {
+  return new TransportError(
+    `Request failed with status code ${status}`,
+    status >= 500 ? TransportErrorCode.BadResponse : TransportErrorCode.BadRequest,
+    config,
+    response(status, headers)
+  );
+}
+
+describe("HttpClient tracing", () => {
+  it("records one span per operation with rate-limiter and retry events", async () => {
+    // Arrange: throttle the first attempt, then succeed.
+    const { exporter, tracer } = createTracing();
+    const send = vi
+      .fn<(config: AxiosRequestConfig) => Promise<AxiosResponse>>()
+      .mockImplementationOnce(async (config) => {
+        throw failure(config, 429, { "retry-after": "0" });
+      })
+      .mockResolvedValueOnce(response(200, { "x-request-id": "req-1" }));
+    const rateLimiter = new RateLimiter();
+    const client = new HttpClient({ transport: { send }, tracer, rateLimiter });
+
+    // Act: list a project's photos.
+    await client.request({ method: "get", url: "/projects/42/photos" });
+    rateLimiter.dispose();
+
+    // Assert: a single client span carries the operationId, outcome, and per-attempt events.
+    const [span, ...others] = exporter.getFinishedSpans();
+    expect(others).toHaveLength(0);
+    expect(span?.name).toBe("listProjectPhotos");
+    expect(span?.kind).toBe(SpanKind.CLIENT);
+    expect(span?.attributes).toMatchObject({
+      "http.request.method": "GET",
+      "url.path": "/projects/42/photos",
+      "companycam.operation_id": "listProjectPhotos",
+      "http.response.status_code": 200,
+      "http.request.resend_count": 1,
+      "companycam.request_id": "req-1",
+    });
+    expect(span?.events.map((event) => event.name)).toEqual([
+      "rate_limiter.wait",
+      "retry",
+    ]);
+    expect(span?.events[1]?.attributes).toMatchObject({
+      "http.request.resend_count": 1,
+      "http.response.status_code": 429,
+      "companycam.retry.delay_ms": 0,
+    });
+  });
+
+  it("marks failed operations as errors and honours explicit operation ids", async () => {
+    // Arrange: the API rejects the request outright.
+    const { exporter, tracer } = createTracing();
+    const send = vi.fn(async (config: AxiosRequestConfig) => {
+      throw failure(config, 404, { "x-request-id": "req-404" });
+    });
+    const client = new HttpClient({ transport: { send }, tracer, rateLimiter: null });
+
+    // Act: call an endpoint with an explicit operation id.
+    const error = await client
+      .request({ method: "get", url: "/custom", operationId: "getCustomThing" })
+      .catch((err: unknown) => err);
+
+    // Assert: the span is an error carrying the status and request id; the id never hits the wire.
+    expect(error).toBeInstanceOf(APIError);
+    expect(send.mock.calls[0]?.[0]).not.toHaveProperty("operationId");
+    const [span] = exporter.getFinishedSpans();
+    expect(span?.name).toBe("getCustomThing");
+    expect(span?.status.code).toBe(SpanStatusCode.ERROR);
+    expect(span?.attributes).toMatchObject({
+      "http.response.status_code": 404,
+      "companycam.request_id": "req-404",
+      "error.type": "404",
+    });
+    expect(span?.events.map((event) => event.name)).toEqual(["exception"]);
+  });
+
+  it("does not create spans when tracing is disabled", async () => {
+    // Arrange: a tracer spy that must stay untouched.
+    const { exporter, tracer } = createTracing();
+    const startActiveSpan = vi.spyOn(tracer, "startActiveSpan");
+    const client = new HttpClient({
+      transport: { send: vi.fn(async () => response(204)) },
+      tracer: null,
+      rateLimiter: null,
+    });
+
+    // Act
+    await client.request({ method: "delete", url: "/tags/1" });
+
+    // Assert
+    expect(startActiveSpan).not.toHaveBeenCalled();
+    expect(exporter.getFinishedSpans()).toHaveLength(0);
+  });
+
+  it("sends requests without spans when @opentelemetry/api is not installed", async () => {
+    // Arrange: load a fresh copy of the client with the optional peer dependency missing.
+    vi.resetModules();
+    vi.doMock("@opentelemetry/api", () => {
+      throw new Error("Cannot find package '@opentelemetry/api'");
+    });
+    try {
+      const { HttpClient: IsolatedClient } = await import("../../src/http/HttpClient.js");
+      const send = vi.fn(async () => response(204));
+      const client = new IsolatedClient({ transport: { send }, rateLimiter: null });
+
+      // Act
+      const result = await client.request({ method: "delete", url: "/tags/1" });
+
+      // Assert
+      expect(result.status).toBe(204);
+      expect(send).toHaveBeenCalledTimes(1);
+    } finally {
+      vi.doUnmock("@opentelemetry/api");
+      vi.resetModules();
+    }
+  });
+});
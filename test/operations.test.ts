@@ -0,0 +1,31 @@
+import { describe, expect, it } from "vitest";
+import { OPERATIONS, resolveOperation } from "../src/operations.js";
+
+describe("resolveOperation", () => {
+  it("maps requests onto the OpenAPI operation ids", () => {
+    expect(resolveOperation("get", "/projects/42/photos")?.operationId).toBe(
+      "listProjectPhotos"
+    );
+    expect(resolveOperation("POST", "/projects/42/photos")?.operationId).toBe(
+      "createProjectPhoto"
+    );
+    expect(resolveOperation("get", "/users/current?x=1")?.operationId).toBe(
+      "getCurrentUser"
+    );
+    expect(resolveOperation("get", "/users/9")?.operationId).toBe("getUser");
+    expect(
+      resolveOperation("delete", "https://api.companycam.com/v2/tags/7")?.operationId
+    ).toBe("deleteTag");
+  });
+
+  it("returns undefined for requests outside the spec", () => {
+    expect(resolveOperation("get", "/unknown")).toBeUndefined();
+    expect(resolveOperation("post", "/tags/7")).toBeUndefined();
+    expect(resolveOperation("get", undefined)).toBeUndefined();
+  });
+
+  it("lists every operation once", () => {
+    const ids = OPERATIONS.map((operation) => operation.operationId);
+    expect(new Set(ids).size).toBe(ids.length);
+  });
+});
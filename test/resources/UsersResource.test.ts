@@ -70,5 +70,25 @@ describe("UsersResource", () => {
       data: payload,
     });
   });
-});
 
+  it("collects every page when listing all users", async () => {
+    // Each page should reuse the request overrides while advancing the page number.
+    request
+      .mockResolvedValueOnce(buildResponse([{ id: "u-1" }, { id: "u-2" }]))
+      .mockResolvedValueOnce(buildResponse([{ id: "u-3" }]));
+
+    const result = await resource.listAll(
+      { per_page: 2 },
+      { authToken: "override" }
+    );
+
+    expect(result).toEqual([{ id: "u-1" }, { id: "u-2" }, { id: "u-3" }]);
+    expect(request).toHaveBeenCalledTimes(2);
+    expect(request.mock.calls[1]?.[0]).toMatchObject({
+      method: "GET",
+      url: "/users",
+      authToken: "override",
+      params: { page: 2, per_page: 2 },
+    });
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  collectPages,
+  DEFAULT_PAGE_SIZE,
+  paginate,
+} from "../../src/resources/pagination.js";
+
+// Build a page fetcher backed by an in-memory list so page boundaries are easy to reason about.
+function createFetcher(total: number) {
+  const items = Array.from({ length: total }, (_, index) => index + 1);
+  return vi.fn(async ({ page, per_page }: { page: number; per_page: number }) =>
+    items.slice((page - 1) * per_page, page * per_page)
+  );
+}
+
+describe("paginate", () => {
+  it("walks pages until the API returns a short page", async () => {
+    // Five items at two per page should take three requests, the last one short.
+    const fetchPage = createFetcher(5);
+
+    const items = await collectPages(paginate(fetchPage, { per_page: 2 }));
+
+    expect(items).toEqual([1, 2, 3, 4, 5]);
+    expect(fetchPage.mock.calls.map(([pagination]) => pagination)).toEqual([
+      { page: 1, per_page: 2 },
+      { page: 2, per_page: 2 },
+      { page: 3, per_page: 2 },
+    ]);
+  });
+
+  it("requests an explicit page size and honours the starting page", async () => {
+    // Without per_page the helper must still send one so short pages can be detected.
+    const fetchPage = createFetcher(DEFAULT_PAGE_SIZE * 2);
+
+    const items = await collectPages(paginate(fetchPage, { page: 2 }));
+
+    expect(items).toHaveLength(DEFAULT_PAGE_SIZE);
+    expect(fetchPage.mock.calls[0]?.[0]).toEqual({
+      page: 2,
+      per_page: DEFAULT_PAGE_SIZE,
+    });
+  });
+
+  it("stops once maxItems or maxPages is reached", async () => {
+    // Caps should prevent further requests even though more data remains.
+    const byItems = createFetcher(10);
+    const byPages = createFetcher(10);
+
+    await expect(
+      collectPages(paginate(byItems, { per_page: 3 }, { maxItems: 4 }))
+    ).resolves.toEqual([1, 2, 3, 4]);
+    expect(byItems).toHaveBeenCalledTimes(2);
+
+    await expect(
+      collectPages(paginate(byPages, { per_page: 3 }, { maxPages: 1 }))
+    ).resolves.toEqual([1, 2, 3]);
+    expect(byPages).toHaveBeenCalledTimes(1);
+  });
+
+  it("rejects with an AbortError when the signal aborts between pages", async () => {
+    // Aborting after the first page should prevent the second request entirely.
+    const fetchPage = createFetcher(10);
+    const controller = new AbortController();
+    const iterator = paginate(fetchPage, { per_page: 2 }, {
+      signal: controller.signal,
+    })[Symbol.asyncIterator]();
+
+    await iterator.next();
+    await iterator.next();
+    controller.abort();
+
+    await expect(iterator.next()).rejects.toMatchObject({ name: "AbortError" });
+    expect(fetchPage).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,88 @@
+import type { AxiosResponse } from "axios";
+import { beforeEach, describe, expect, expectTypeOf, it, vi } from "vitest";
+import type { HttpClient } from "../../src/http/HttpClient.js";
+import type { Photo, Project } from "../../src/interfaces.js";
+import { ProjectsResource } from "../../src/resources/Projects.js";
+import { withResponse } from "../../src/resources/response.js";
+import type { APIResponse } from "../../src/resources/response.js";
+
+// Local helper producing Axios-like responses with configurable status and headers.
+function buildResponse<T>(
+  data: T,
+  status = 200,
+  headers: Record<string, string> = {}
+): AxiosResponse<T> {
+  return {
+    data,
+    status,
+    statusText: "OK",
+    headers: headers as any,
+    config: { headers: {} as any },
+  };
+}
+
+describe("withResponse", () => {
+  let request: ReturnType<typeof vi.fn>;
+  let http: HttpClient;
+
+  beforeEach(() => {
+    request = vi.fn();
+    http = { request } as unknown as HttpClient;
+  });
+
+  it("wraps resource payloads in a response envelope", async () => {
+    // The envelope should carry the payload alongside status, headers, and request id.
+    const project: Project = { id: "p-1" };
+    request.mockResolvedValueOnce(
+      buildResponse(project, 201, { "x-request-id": "req-1", "x-ratelimit-remaining": "99" })
+    );
+    const projects = withResponse(http, (client) => new ProjectsResource(client));
+
+    const result = await projects.retrieve("p-1", { authToken: "override" });
+
+    expectTypeOf(result).toEqualTypeOf<APIResponse<Project>>();
+    expect(result).toMatchObject({
+      data: project,
+      status: 201,
+      headers: { "x-ratelimit-remaining": "99" },
+      requestId: "req-1",
+    });
+    expect(result.durationMs).toBeGreaterThanOrEqual(0);
+    expect(request.mock.calls[0]?.[0]).toMatchObject({
+      method: "GET",
+      url: "/projects/p-1",
+      authToken: "override",
+    });
+  });
+
+  it("maps nested sub-resources and keeps concurrent calls isolated", async () => {
+    // Each call records its own response even when both are in flight together.
+    let releaseFirst: (value: AxiosResponse) => void = () => undefined;
+    request
+      .mockImplementationOnce(
+        () => new Promise<AxiosResponse>((resolve) => (releaseFirst = resolve))
+      )
+      .mockResolvedValueOnce(buildResponse([{ id: "ph-2" }], 200, { "x-request-id": "second" }));
+    const projects = withResponse(http, (client) => new ProjectsResource(client));
+
+    const first = projects.photos.list("p-1");
+    const second = projects.photos.list("p-2");
+    await expect(second).resolves.toMatchObject({ requestId: "second" });
+    releaseFirst(buildResponse([{ id: "ph-1" }], 200, { "x-request-id": "first" }));
+
+    const firstResult = await first;
+    expectTypeOf(firstResult).toEqualTypeOf<APIResponse<Photo[]>>();
+    expect(firstResult).toMatchObject({ data: [{ id: "ph-1" }], requestId: "first" });
+  });
+
+  it("leaves multi-request pagination helpers untouched", async () => {
+    // listAll spans several requests, so it keeps resolving with the plain item array.
+    request.mockResolvedValueOnce(buildResponse([{ id: "p-1" }]));
+    const projects = withResponse(http, (client) => new ProjectsResource(client));
+
+    const result = await projects.listAll({ per_page: 10 });
+
+    expectTypeOf(result).toEqualTypeOf<Project[]>();
+    expect(result).toEqual([{ id: "p-1" }]);
+  });
+});
@@ -15,12 +15,22 @@ describe("resource utilities", () => {
       authToken: "scoped",
       idempotencyKey: "abc-123",
       useRateLimiter: false,
+      priority: "background",
+      tenantKey: "acme",
+      retry: { retries: 0 },
+      cache: false,
+      totalTimeoutMs: 5_000,
     });
 
     expect(config).toMatchObject({
       authToken: "scoped",
       idempotencyKey: "abc-123",
       useRateLimiter: false,
+      priority: "background",
+      tenantKey: "acme",
+      retry: { retries: 0 },
+      cache: false,
+      totalTimeoutMs: 5_000,
     });
     expect(config.signal).toBe(controller.signal);
   });